@@ -0,0 +1,175 @@
+import { createPublicKey, verify, type JsonWebKey, type KeyObject } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { fetchWithRetry } from "../core/retry.js";
+import { logger } from "../utils/logger.js";
+
+const COMPONENT = "JwtValidator";
+const JWKS_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const JWKS_MIN_REFRESH_MS = 60 * 1000; // unknown kid triggers at most one refetch per minute
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface JwtValidationOptions {
+  audiences: string[];
+  issuers: string[];
+  /** Token must carry all of these delegated scopes (scp)... */
+  requiredScopes: string[];
+  /** ...or all of these app roles (roles). Both empty means no scope/role check. */
+  requiredRoles: string[];
+}
+
+export interface AccessTokenClaims {
+  aud?: string | string[];
+  iss?: string;
+  exp?: number;
+  nbf?: number;
+  scp?: string;
+  roles?: string[];
+  tid?: string;
+  oid?: string;
+  [claim: string]: unknown;
+}
+
+export class TokenValidationError extends Error {
+  constructor(
+    message: string,
+    public errorCode: "invalid_token" | "insufficient_scope" = "invalid_token"
+  ) {
+    super(message);
+    this.name = "TokenValidationError";
+  }
+}
+
+/**
+ * Signing keys from a JWKS endpoint (or a local JWKS file), cached by kid.
+ * An unknown kid refreshes the set so key rollover is picked up without a restart.
+ */
+export class JwksCache {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private pending: Promise<void> | undefined;
+
+  constructor(private jwksUri: string) {}
+
+  async getKey(kid: string): Promise<KeyObject> {
+    const age = Date.now() - this.fetchedAt;
+    if (!this.keys.has(kid) ? age > JWKS_MIN_REFRESH_MS : age > JWKS_CACHE_TTL_MS) {
+      await this.refresh();
+    }
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new TokenValidationError(`Signing key ${kid} not found in JWKS`);
+    }
+    return key;
+  }
+
+  private refresh(): Promise<void> {
+    // Coalesce concurrent refreshes triggered by a burst of requests
+    this.pending ??= this.load().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  private async load(): Promise<void> {
+    let body: { keys?: Array<JsonWebKey & { kid?: string; use?: string }> };
+    if (/^https?:\/\//i.test(this.jwksUri)) {
+      const response = await fetchWithRetry(COMPONENT, "GET", this.jwksUri, {});
+      if (!response.ok) {
+        throw new Error(`Failed to fetch JWKS from ${this.jwksUri}: HTTP ${response.status}`);
+      }
+      body = (await response.json()) as typeof body;
+    } else {
+      body = JSON.parse(await readFile(this.jwksUri.replace(/^file:\/\//i, ""), "utf-8")) as typeof body;
+    }
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of body.keys ?? []) {
+      if (!jwk.kid || jwk.kty !== "RSA" || (jwk.use && jwk.use !== "sig")) continue;
+      try {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: "jwk" }));
+      } catch (error) {
+        logger.warn(COMPONENT, `Skipping unusable JWKS key ${jwk.kid}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+    logger.debug(COMPONENT, `Loaded ${keys.size} signing key(s)`, { jwksUri: this.jwksUri });
+  }
+}
+
+function decodeSegment<T>(segment: string, name: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf-8")) as T;
+  } catch {
+    throw new TokenValidationError(`Malformed token ${name}`);
+  }
+}
+
+/**
+ * Verify an RS256 access token's signature, audience, issuer, lifetime and
+ * scopes/roles. Returns the claims, or throws TokenValidationError.
+ */
+export async function validateAccessToken(
+  token: string,
+  jwks: JwksCache,
+  options: JwtValidationOptions
+): Promise<AccessTokenClaims> {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new TokenValidationError("Token is not a JWT");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader, "header");
+  if (header.alg !== "RS256") {
+    throw new TokenValidationError(`Unsupported token algorithm: ${header.alg ?? "none"}`);
+  }
+  if (!header.kid) {
+    throw new TokenValidationError("Token header has no kid");
+  }
+
+  const key = await jwks.getKey(header.kid);
+  const signatureValid = verify(
+    "RSA-SHA256",
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    key,
+    Buffer.from(encodedSignature, "base64url")
+  );
+  if (!signatureValid) {
+    throw new TokenValidationError("Token signature is invalid");
+  }
+
+  const claims = decodeSegment<AccessTokenClaims>(encodedPayload, "payload");
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new TokenValidationError("Token has expired");
+  }
+  if (typeof claims.nbf === "number" && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new TokenValidationError("Token is not yet valid");
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : [];
+  if (!audiences.some((aud) => options.audiences.includes(aud))) {
+    throw new TokenValidationError(`Token audience ${audiences.join(", ") || "(none)"} is not accepted`);
+  }
+  if (!claims.iss || !options.issuers.includes(claims.iss)) {
+    throw new TokenValidationError(`Token issuer ${claims.iss ?? "(none)"} is not accepted`);
+  }
+
+  if (options.requiredScopes.length > 0 || options.requiredRoles.length > 0) {
+    const scopes = claims.scp?.split(" ") ?? [];
+    const roles = claims.roles ?? [];
+    const hasScopes = options.requiredScopes.length > 0 && options.requiredScopes.every((s) => scopes.includes(s));
+    const hasRoles = options.requiredRoles.length > 0 && options.requiredRoles.every((r) => roles.includes(r));
+    if (!hasScopes && !hasRoles) {
+      const required = [
+        options.requiredScopes.length > 0 ? `scopes [${options.requiredScopes.join(", ")}]` : undefined,
+        options.requiredRoles.length > 0 ? `roles [${options.requiredRoles.join(", ")}]` : undefined,
+      ].filter(Boolean).join(" or ");
+      throw new TokenValidationError(`Token is missing required ${required}`, "insufficient_scope");
+    }
+  }
+
+  return claims;
+}
@@ -1,13 +1,34 @@
 import { type Request, type Response, type NextFunction } from "express";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { ClientSecretCredential } from "@azure/identity";
+import { resolveCloudProfile } from "../core/cloud-config.js";
+import { logger } from "../utils/logger.js";
+import { JwksCache, TokenValidationError, validateAccessToken, type AccessTokenClaims } from "./jwt-validator.js";
+
+const COMPONENT = "OAuth";
+const READINESS_CACHE_MS = 30 * 1000; // load balancer probes must not hammer Entra ID
 
 export interface OAuthConfig {
   clientId: string;
   clientSecret: string;
   tenantId: string;
+  authorityHost: string;
+  audiences: string[];
+  issuers: string[];
+  jwksUri: string;
+  requiredScopes: string[];
+  requiredRoles: string[];
 }
 
 export interface AuthenticatedRequest extends Request {
   userToken?: string;
+  authClaims?: AccessTokenClaims;
+  /** Read by the MCP transport and passed to tool handlers as extra.authInfo */
+  auth?: AuthInfo;
+}
+
+function parseList(value: string | undefined): string[] {
+  return value ? value.split(",").map((v) => v.trim()).filter((v) => v.length > 0) : [];
 }
 
 function getOAuthConfig(): OAuthConfig {
@@ -21,29 +42,138 @@ function getOAuthConfig(): OAuthConfig {
     );
   }
 
-  return { clientId, clientSecret, tenantId };
+  const cloud = resolveCloudProfile();
+  const authorityHost = cloud.authorityHost.replace(/\/+$/, "");
+  const v1IssuerHost = cloud.v1IssuerHost.replace(/\/+$/, "");
+  const audiences = parseList(process.env.OAUTH_AUDIENCE);
+  const issuers = parseList(process.env.OAUTH_ISSUER);
+
+  return {
+    clientId,
+    clientSecret,
+    tenantId,
+    authorityHost,
+    // Entra issues v2 tokens with the client ID as aud, v1 tokens with the App ID URI
+    audiences: audiences.length > 0 ? audiences : [clientId, `api://${clientId}`],
+    issuers: issuers.length > 0
+      ? issuers
+      : [`${authorityHost}/${tenantId}/v2.0`, `${v1IssuerHost}/${tenantId}/`],
+    jwksUri: process.env.OAUTH_JWKS_URI?.trim() || `${authorityHost}/${tenantId}/discovery/v2.0/keys`,
+    requiredScopes: parseList(process.env.OAUTH_REQUIRED_SCOPES),
+    requiredRoles: parseList(process.env.OAUTH_REQUIRED_ROLES),
+  };
+}
+
+/**
+ * Who owns an MCP session opened with these claims: the Entra object ID, or subject plus
+ * tenant for tokens without one. Undefined when the token names no user, in which case
+ * no session may be opened or resumed with it.
+ */
+export function sessionOwner(claims: AccessTokenClaims | undefined): string | undefined {
+  if (claims?.oid) return `oid:${claims.oid}`;
+  if (typeof claims?.sub === "string" && claims.sub && claims.tid) return `sub:${claims.tid}/${claims.sub}`;
+  return undefined;
+}
+
+function resourceMetadataUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}/.well-known/oauth-protected-resource`;
 }
 
 export function createOAuthMetadataHandler(config: OAuthConfig) {
   return (_req: Request, res: Response) => {
-    res.json({
-      resource: process.env.AZURE_CLIENT_ID,
+    const metadata: Record<string, unknown> = {
+      resource: config.clientId,
       authorization_servers: [
-        `https://login.microsoftonline.com/${config.tenantId}/v2.0`
+        `${config.authorityHost}/${config.tenantId}/v2.0`
       ],
-    });
+      bearer_methods_supported: ["header"],
+    };
+    if (config.requiredScopes.length > 0) metadata.scopes_supported = config.requiredScopes;
+    res.json(metadata);
   };
 }
 
 export function createTokenValidationMiddleware(config: OAuthConfig) {
-  return async (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+  const jwks = new JwksCache(config.jwksUri);
+
+  const reject = (
+    req: Request,
+    res: Response,
+    status: 401 | 403,
+    error?: { code: string; description: string }
+  ) => {
+    let challenge = `Bearer resource_metadata="${resourceMetadataUrl(req)}"`;
+    if (error) {
+      challenge += `, error="${error.code}", error_description="${error.description.replace(/"/g, "'")}"`;
+    }
+    res.status(status)
+      .set("WWW-Authenticate", challenge)
+      .json({ error: error?.code ?? "unauthorized", error_description: error?.description ?? "Bearer token required" });
+  };
+
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const authHeader = req.headers.authorization;
     if (!authHeader?.startsWith("Bearer ")) {
+      reject(req, res, 401);
+      return;
+    }
+    const token = authHeader.slice(7).trim();
+    try {
+      const claims = await validateAccessToken(token, jwks, config);
+      req.authClaims = claims;
+      req.userToken = token;
+      req.auth = {
+        token,
+        clientId: String(claims.azp ?? claims.appid ?? ""),
+        scopes: claims.scp?.split(" ") ?? [],
+        expiresAt: claims.exp,
+        extra: { claims },
+      };
       next();
+    } catch (error) {
+      if (error instanceof TokenValidationError) {
+        logger.warn(COMPONENT, `Rejected bearer token: ${error.message}`, { path: req.path });
+        reject(req, res, error.errorCode === "insufficient_scope" ? 403 : 401, {
+          code: error.errorCode,
+          description: error.message,
+        });
+        return;
+      }
+      // JWKS could not be loaded — not the caller's fault
+      logger.error(COMPONENT, "Token validation failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(503).json({ error: "temporarily_unavailable", error_description: "Unable to validate token" });
+    }
+  };
+}
+
+/**
+ * Readiness: the server can acquire a Fabric token with its own client credentials,
+ * which is what every on-behalf-of exchange depends on. Results are cached briefly.
+ */
+export function createReadinessHandler(config: OAuthConfig) {
+  const credential = new ClientSecretCredential(config.tenantId, config.clientId, config.clientSecret, {
+    authorityHost: config.authorityHost,
+  });
+  const scope = resolveCloudProfile().scopes.fabric;
+  let lastCheck: { at: number; error?: string } | undefined;
+
+  return async (_req: Request, res: Response) => {
+    if (!lastCheck || Date.now() - lastCheck.at > READINESS_CACHE_MS) {
+      try {
+        await credential.getToken(scope);
+        lastCheck = { at: Date.now() };
+      } catch (error) {
+        lastCheck = { at: Date.now(), error: error instanceof Error ? error.message : String(error) };
+        logger.warn(COMPONENT, "Readiness check failed to acquire a token", { error: lastCheck.error });
+      }
+    }
+    if (lastCheck.error) {
+      res.status(503).json({ status: "unavailable", checks: { token: lastCheck.error } });
       return;
     }
-    req.userToken = authHeader.slice(7);
-    next();
+    res.json({ status: "ready", checks: { token: "ok" } });
   };
 }
 
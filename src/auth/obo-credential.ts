@@ -0,0 +1,57 @@
+import { OnBehalfOfCredential, type AccessToken, type GetTokenOptions, type TokenCredential } from "@azure/identity";
+import { TokenManager } from "./token-manager.js";
+import type { OAuthConfig } from "./oauth-handler.js";
+import type { CloudProfile } from "../core/cloud-config.js";
+import { logger } from "../utils/logger.js";
+
+const COMPONENT = "OnBehalfOf";
+
+/**
+ * Exchanges the caller's bearer token for downstream tokens via the OAuth
+ * on-behalf-of flow. The assertion is replaced as the client refreshes its
+ * token, so a long-lived MCP session keeps working past the first token's expiry.
+ */
+export class OnBehalfOfUserCredential implements TokenCredential {
+  private credential: OnBehalfOfCredential;
+  private userAssertion: string;
+
+  constructor(private config: OAuthConfig, userAssertion: string) {
+    this.userAssertion = userAssertion;
+    this.credential = this.createCredential(userAssertion);
+  }
+
+  private createCredential(userAssertion: string): OnBehalfOfCredential {
+    return new OnBehalfOfCredential({
+      tenantId: this.config.tenantId,
+      clientId: this.config.clientId,
+      clientSecret: this.config.clientSecret,
+      userAssertionToken: userAssertion,
+      authorityHost: this.config.authorityHost,
+    });
+  }
+
+  setUserAssertion(userAssertion: string): void {
+    if (userAssertion === this.userAssertion) return;
+    this.userAssertion = userAssertion;
+    this.credential = this.createCredential(userAssertion);
+    logger.debug(COMPONENT, "User assertion refreshed");
+  }
+
+  getToken(scopes: string | string[], options?: GetTokenOptions): Promise<AccessToken | null> {
+    return this.credential.getToken(scopes, options);
+  }
+}
+
+/**
+ * A TokenManager that acts as the calling user for the fabric, powerbi,
+ * database and kusto scopes. One per HTTP session.
+ */
+export function createOnBehalfOfTokenManager(
+  config: OAuthConfig,
+  userAssertion: string,
+  cloud?: CloudProfile
+): { tokenManager: TokenManager; credential: OnBehalfOfUserCredential } {
+  const credential = new OnBehalfOfUserCredential(config, userAssertion);
+  const tokenManager = new TokenManager(config.tenantId, { cloud, credential });
+  return { tokenManager, credential };
+}
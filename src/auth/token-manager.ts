@@ -1,28 +1,41 @@
-import { DefaultAzureCredential, type AccessToken } from "@azure/identity";
+import { DefaultAzureCredential, type AccessToken, type TokenCredential } from "@azure/identity";
+import { withSpan } from "../core/tracing.js";
+import { resolveCloudProfile, type CloudProfile, type TokenScope } from "../core/cloud-config.js";
 
-const FABRIC_SCOPE = "https://api.fabric.microsoft.com/.default";
-const POWERBI_SCOPE = "https://analysis.windows.net/powerbi/api/.default";
-const DATABASE_SCOPE = "https://database.windows.net/.default";
-const KUSTO_SCOPE = "https://api.kusto.windows.net/.default";
 const REFRESH_BUFFER_MS = 5 * 60 * 1000; // 5 minutes
 
+export interface TokenManagerOptions {
+  /** Cloud endpoints and scopes. Defaults to the profile resolved from FABRIC_CLOUD. */
+  cloud?: CloudProfile;
+  /** Fixed credential to use instead of DefaultAzureCredential (tenant switching is then a no-op). */
+  credential?: TokenCredential;
+}
+
 export class TokenManager {
-  private credential: DefaultAzureCredential;
+  private credential: TokenCredential;
   private cache = new Map<string, AccessToken>();
   private currentTenantId: string | undefined;
+  private fixedCredential: TokenCredential | undefined;
+  readonly cloud: CloudProfile;
 
-  constructor(tenantId?: string) {
+  constructor(tenantId?: string, options?: TokenManagerOptions) {
+    this.cloud = options?.cloud ?? resolveCloudProfile();
+    this.fixedCredential = options?.credential;
     this.currentTenantId = tenantId;
-    this.credential = tenantId
-      ? new DefaultAzureCredential({ tenantId })
-      : new DefaultAzureCredential();
+    this.credential = this.createCredential(tenantId);
+  }
+
+  private createCredential(tenantId?: string): TokenCredential {
+    if (this.fixedCredential) return this.fixedCredential;
+    const authorityHost = this.cloud.authorityHost;
+    return tenantId
+      ? new DefaultAzureCredential({ tenantId, authorityHost })
+      : new DefaultAzureCredential({ authorityHost });
   }
 
   switchTenant(tenantId?: string): void {
     this.currentTenantId = tenantId;
-    this.credential = tenantId
-      ? new DefaultAzureCredential({ tenantId })
-      : new DefaultAzureCredential();
+    this.credential = this.createCredential(tenantId);
     this.cache.clear();
   }
 
@@ -34,19 +47,21 @@ export class TokenManager {
     return this.currentTenantId;
   }
 
-  getCachedToken(scope: "fabric" | "powerbi" | "database" | "kusto"): AccessToken | undefined {
-    const scopeUrl = scope === "fabric" ? FABRIC_SCOPE : scope === "powerbi" ? POWERBI_SCOPE : scope === "kusto" ? KUSTO_SCOPE : DATABASE_SCOPE;
+  getCachedToken(scope: TokenScope): AccessToken | undefined {
+    const scopeUrl = this.cloud.scopes[scope];
     return this.cache.get(scopeUrl);
   }
 
-  async getToken(scope: "fabric" | "powerbi" | "database" | "kusto"): Promise<string> {
-    const scopeUrl = scope === "fabric" ? FABRIC_SCOPE : scope === "powerbi" ? POWERBI_SCOPE : scope === "kusto" ? KUSTO_SCOPE : DATABASE_SCOPE;
+  async getToken(scope: TokenScope): Promise<string> {
+    const scopeUrl = this.cloud.scopes[scope];
     const cached = this.cache.get(scopeUrl);
     if (cached && cached.expiresOnTimestamp - Date.now() > REFRESH_BUFFER_MS) {
       return cached.token;
     }
     try {
-      const token = await this.credential.getToken(scopeUrl);
+      const token = await withSpan("token acquire", { "auth.scope": scopeUrl }, () =>
+        this.credential.getToken(scopeUrl)
+      );
       if (!token) {
         throw new Error(`Failed to acquire token for scope: ${scopeUrl}`);
       }
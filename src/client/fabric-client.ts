@@ -1,8 +1,9 @@
 import { TokenManager } from "../auth/token-manager.js";
+import type { CloudProfile } from "../core/cloud-config.js";
 import { FabricApiError } from "../core/errors.js";
+import { fetchWithRetry, parseRetryAfter } from "../core/retry.js";
 import { logger, safeHeaders, summarizeDefinitionParts } from "../utils/logger.js";
 
-const FABRIC_BASE_URL = "https://api.fabric.microsoft.com/v1";
 const COMPONENT = "FabricClient";
 
 export interface LroResult {
@@ -18,7 +19,11 @@ export interface FabricResponse<T = unknown> {
 }
 
 export class FabricClient {
-  constructor(private tokenManager: TokenManager) {}
+  private baseUrl: string;
+
+  constructor(private tokenManager: TokenManager, cloud: CloudProfile = tokenManager.cloud) {
+    this.baseUrl = cloud.fabricBaseUrl;
+  }
 
   private async getHeaders(): Promise<Record<string, string>> {
     const token = await this.tokenManager.getFabricToken();
@@ -57,16 +62,15 @@ export class FabricClient {
       requestId,
     });
 
-    if (logger.isDebug()) {
-      logger.debug(COMPONENT, "Response headers", safeHeaders(response.headers));
+    if (logger.isEnabled("trace")) {
+      logger.trace(COMPONENT, "Response headers", safeHeaders(response.headers));
     }
 
     if (response.status === 429) {
-      const retryAfter = response.headers.get("retry-after");
-      const waitMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : 30000;
-      logger.warn(COMPONENT, `Rate limited on ${method} ${url}`, { retryAfterSecs: waitMs / 1000, requestId });
+      const waitMs = parseRetryAfter(response.headers.get("retry-after")) ?? 30000;
+      logger.warn(COMPONENT, `Rate limited on ${method} ${url}, retries exhausted`, { retryAfterSecs: waitMs / 1000, requestId });
       throw new FabricApiError(
-        `Rate limited. Retry after ${waitMs / 1000}s`,
+        `Rate limited (retries exhausted). Retry after ${Math.ceil(waitMs / 1000)}s`,
         429,
         "TooManyRequests",
         undefined,
@@ -129,16 +133,16 @@ export class FabricClient {
   }
 
   async get<T = unknown>(path: string): Promise<FabricResponse<T>> {
-    const url = `${FABRIC_BASE_URL}${path}`;
+    const url = `${this.baseUrl}${path}`;
     logger.debug(COMPONENT, `GET ${url}`);
     const startTime = Date.now();
     const headers = await this.getHeaders();
-    const response = await fetch(url, { headers });
+    const response = await fetchWithRetry(COMPONENT, "GET", url, { headers });
     return this.handleResponse<T>(response, "GET", url, startTime);
   }
 
   async post<T = unknown>(path: string, body?: unknown): Promise<FabricResponse<T>> {
-    const url = `${FABRIC_BASE_URL}${path}`;
+    const url = `${this.baseUrl}${path}`;
     const debugMeta: Record<string, unknown> = {};
     if (body !== undefined) {
       debugMeta.bodyBytes = JSON.stringify(body).length;
@@ -154,7 +158,7 @@ export class FabricClient {
     logger.debug(COMPONENT, `POST ${url}`, Object.keys(debugMeta).length > 0 ? debugMeta : undefined);
     const startTime = Date.now();
     const headers = await this.getHeaders();
-    const response = await fetch(url, {
+    const response = await fetchWithRetry(COMPONENT, "POST", url, {
       method: "POST",
       headers,
       body: body !== undefined ? JSON.stringify(body) : undefined,
@@ -163,11 +167,11 @@ export class FabricClient {
   }
 
   async patch<T = unknown>(path: string, body: unknown): Promise<FabricResponse<T>> {
-    const url = `${FABRIC_BASE_URL}${path}`;
+    const url = `${this.baseUrl}${path}`;
     logger.debug(COMPONENT, `PATCH ${url}`, { bodyBytes: JSON.stringify(body).length });
     const startTime = Date.now();
     const headers = await this.getHeaders();
-    const response = await fetch(url, {
+    const response = await fetchWithRetry(COMPONENT, "PATCH", url, {
       method: "PATCH",
       headers,
       body: JSON.stringify(body),
@@ -176,11 +180,11 @@ export class FabricClient {
   }
 
   async delete<T = unknown>(path: string): Promise<FabricResponse<T>> {
-    const url = `${FABRIC_BASE_URL}${path}`;
+    const url = `${this.baseUrl}${path}`;
     logger.debug(COMPONENT, `DELETE ${url}`);
     const startTime = Date.now();
     const headers = await this.getHeaders();
-    const response = await fetch(url, {
+    const response = await fetchWithRetry(COMPONENT, "DELETE", url, {
       method: "DELETE",
       headers,
     });
@@ -191,7 +195,7 @@ export class FabricClient {
     logger.debug(COMPONENT, `GET ${url}`);
     const startTime = Date.now();
     const headers = await this.getHeaders();
-    const response = await fetch(url, { headers });
+    const response = await fetchWithRetry(COMPONENT, "GET", url, { headers });
     return this.handleResponse<T>(response, "GET", url, startTime);
   }
 }
@@ -1,10 +1,16 @@
 import { TokenManager } from "../auth/token-manager.js";
+import { fetchWithRetry } from "../core/retry.js";
 import { logger } from "../utils/logger.js";
+import { withSpan } from "../core/tracing.js";
 import type { KqlQueryResult } from "../core/types.js";
 
 const DEFAULT_MAX_ROWS = 1000;
 const COMPONENT = "KustoClient";
 
+interface KustoV1Response {
+  Tables?: { TableName: string; Columns?: { ColumnName: string }[]; Rows?: unknown[][] }[];
+}
+
 interface KustoV2Frame {
   FrameType: string;
   TableKind?: string;
@@ -21,53 +27,77 @@ export class KustoClient {
     kql: string,
     maxRows: number = DEFAULT_MAX_ROWS
   ): Promise<KqlQueryResult> {
-    const token = await this.tokenManager.getKustoToken();
+    const attributes = { "db.system.name": "kusto", "server.address": queryServiceUri, "db.namespace": database };
+    return withSpan("KQL query", attributes, () => this.runQuery(queryServiceUri, database, kql, maxRows));
+  }
 
-    const url = `${queryServiceUri.replace(/\/+$/, "")}/v2/rest/query`;
+  /** Run a control command (.show, .create, .ingest, ...) through the management endpoint. */
+  async executeCommand(
+    queryServiceUri: string,
+    database: string,
+    command: string,
+    maxRows: number = DEFAULT_MAX_ROWS
+  ): Promise<KqlQueryResult> {
+    const attributes = { "db.system.name": "kusto", "server.address": queryServiceUri, "db.namespace": database };
+    return withSpan("KQL command", attributes, () => this.runCommand(queryServiceUri, database, command, maxRows));
+  }
+
+  private async runCommand(
+    queryServiceUri: string,
+    database: string,
+    command: string,
+    maxRows: number
+  ): Promise<KqlQueryResult> {
+    const url = `${queryServiceUri.replace(/\/+$/, "")}/v1/rest/mgmt`;
     const body = {
       db: database,
-      csl: kql,
+      csl: command,
       properties: {
         Options: {
           servertimeout: "00:00:30",
-          truncationmaxrecords: maxRows,
         },
       },
     };
 
-    logger.debug(COMPONENT, `POST ${url}`, { database, maxRows });
     const startTime = Date.now();
+    const response = await this.post(url, body, database, "KQL command", false);
+    const tables = ((await response.json()) as KustoV1Response).Tables ?? [];
+    const primary = tables[0];
+    const columns = (primary?.Columns ?? []).map((c) => c.ColumnName);
+    const rows = toRecords(columns, (primary?.Rows ?? []).slice(0, maxRows));
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json; charset=utf-8",
-        Accept: "application/json",
-      },
-      body: JSON.stringify(body),
+    logger.debug(COMPONENT, `KQL command completed`, {
+      status: response.status,
+      database,
+      durationMs: Date.now() - startTime,
+      columnCount: columns.length,
+      rowCount: rows.length,
     });
 
-    const durationMs = Date.now() - startTime;
+    return { columns, rows, rowCount: rows.length };
+  }
 
-    if (!response.ok) {
-      let errorDetail: string;
-      try {
-        const errorBody = await response.json();
-        errorDetail = (errorBody as Record<string, unknown>)?.error
-          ? JSON.stringify((errorBody as Record<string, unknown>).error)
-          : JSON.stringify(errorBody);
-      } catch {
-        errorDetail = await response.text();
-      }
-      logger.error(COMPONENT, `KQL query failed`, {
-        status: response.status,
-        database,
-        durationMs,
-        errorDetail,
-      });
-      throw new Error(`KQL query failed (HTTP ${response.status}): ${errorDetail}`);
-    }
+  private async runQuery(
+    queryServiceUri: string,
+    database: string,
+    kql: string,
+    maxRows: number
+  ): Promise<KqlQueryResult> {
+    const url = `${queryServiceUri.replace(/\/+$/, "")}/v2/rest/query`;
+    const body = {
+      db: database,
+      csl: kql,
+      properties: {
+        Options: {
+          servertimeout: "00:00:30",
+          truncationmaxrecords: maxRows,
+        },
+      },
+    };
+
+    const startTime = Date.now();
+    const response = await this.post(url, body, database, "KQL query", true);
+    const durationMs = Date.now() - startTime;
 
     const frames = (await response.json()) as KustoV2Frame[];
 
@@ -83,13 +113,7 @@ export class KustoClient {
     const rawRows = primaryResult.Rows ?? [];
     const cappedRows = rawRows.slice(0, maxRows);
 
-    const rows: Record<string, unknown>[] = cappedRows.map((row) => {
-      const record: Record<string, unknown> = {};
-      for (let i = 0; i < columns.length; i++) {
-        record[columns[i]] = row[i];
-      }
-      return record;
-    });
+    const rows = toRecords(columns, cappedRows);
 
     logger.debug(COMPONENT, `KQL query completed`, {
       status: response.status,
@@ -101,4 +125,51 @@ export class KustoClient {
 
     return { columns, rows, rowCount: rows.length };
   }
+
+  private async post(url: string, body: unknown, database: string, label: string, idempotent: boolean): Promise<Response> {
+    const token = await this.tokenManager.getKustoToken();
+
+    logger.debug(COMPONENT, `POST ${url}`, { database });
+    const startTime = Date.now();
+
+    const response = await fetchWithRetry(COMPONENT, "POST", url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json; charset=utf-8",
+        Accept: "application/json",
+      },
+      body: JSON.stringify(body),
+    }, { idempotent });
+
+    if (!response.ok) {
+      let errorDetail: string;
+      try {
+        const errorBody = await response.json();
+        errorDetail = (errorBody as Record<string, unknown>)?.error
+          ? JSON.stringify((errorBody as Record<string, unknown>).error)
+          : JSON.stringify(errorBody);
+      } catch {
+        errorDetail = await response.text();
+      }
+      logger.error(COMPONENT, `${label} failed`, {
+        status: response.status,
+        database,
+        durationMs: Date.now() - startTime,
+        errorDetail,
+      });
+      throw new Error(`${label} failed (HTTP ${response.status}): ${errorDetail}`);
+    }
+    return response;
+  }
+}
+
+function toRecords(columns: string[], rows: unknown[][]): Record<string, unknown>[] {
+  return rows.map((row) => {
+    const record: Record<string, unknown> = {};
+    for (let i = 0; i < columns.length; i++) {
+      record[columns[i]] = row[i];
+    }
+    return record;
+  });
 }
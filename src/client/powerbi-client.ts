@@ -1,8 +1,9 @@
 import { TokenManager } from "../auth/token-manager.js";
+import type { CloudProfile } from "../core/cloud-config.js";
 import { FabricApiError } from "../core/errors.js";
+import { fetchWithRetry, parseRetryAfter } from "../core/retry.js";
 import { logger, safeHeaders } from "../utils/logger.js";
 
-const POWERBI_BASE_URL = "https://api.powerbi.com/v1.0/myorg";
 const COMPONENT = "PowerBIClient";
 
 export interface PowerBIResponse<T = unknown> {
@@ -11,7 +12,11 @@ export interface PowerBIResponse<T = unknown> {
 }
 
 export class PowerBIClient {
-  constructor(private tokenManager: TokenManager) {}
+  private baseUrl: string;
+
+  constructor(private tokenManager: TokenManager, cloud: CloudProfile = tokenManager.cloud) {
+    this.baseUrl = cloud.powerBIBaseUrl;
+  }
 
   private async getHeaders(): Promise<Record<string, string>> {
     const token = await this.tokenManager.getPowerBIToken();
@@ -36,16 +41,15 @@ export class PowerBIClient {
       requestId,
     });
 
-    if (logger.isDebug()) {
-      logger.debug(COMPONENT, "Response headers", safeHeaders(response.headers));
+    if (logger.isEnabled("trace")) {
+      logger.trace(COMPONENT, "Response headers", safeHeaders(response.headers));
     }
 
     if (response.status === 429) {
-      const retryAfter = response.headers.get("retry-after");
-      const waitMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : 30000;
-      logger.warn(COMPONENT, `Rate limited on ${method} ${url}`, { retryAfterSecs: waitMs / 1000, requestId });
+      const waitMs = parseRetryAfter(response.headers.get("retry-after")) ?? 30000;
+      logger.warn(COMPONENT, `Rate limited on ${method} ${url}, retries exhausted`, { retryAfterSecs: waitMs / 1000, requestId });
       throw new FabricApiError(
-        `Rate limited. Retry after ${waitMs / 1000}s`,
+        `Rate limited (retries exhausted). Retry after ${Math.ceil(waitMs / 1000)}s`,
         429,
         "TooManyRequests",
         undefined,
@@ -96,20 +100,20 @@ export class PowerBIClient {
   }
 
   async get<T = unknown>(path: string): Promise<PowerBIResponse<T>> {
-    const url = `${POWERBI_BASE_URL}${path}`;
+    const url = `${this.baseUrl}${path}`;
     logger.debug(COMPONENT, `GET ${url}`);
     const startTime = Date.now();
     const headers = await this.getHeaders();
-    const response = await fetch(url, { headers });
+    const response = await fetchWithRetry(COMPONENT, "GET", url, { headers });
     return this.handleResponse<T>(response, "GET", url, startTime);
   }
 
   async post<T = unknown>(path: string, body?: unknown): Promise<PowerBIResponse<T>> {
-    const url = `${POWERBI_BASE_URL}${path}`;
+    const url = `${this.baseUrl}${path}`;
     logger.debug(COMPONENT, `POST ${url}`, body !== undefined ? { bodyBytes: JSON.stringify(body).length } : undefined);
     const startTime = Date.now();
     const headers = await this.getHeaders();
-    const response = await fetch(url, {
+    const response = await fetchWithRetry(COMPONENT, "POST", url, {
       method: "POST",
       headers,
       body: body !== undefined ? JSON.stringify(body) : undefined,
@@ -118,11 +122,11 @@ export class PowerBIClient {
   }
 
   async delete<T = unknown>(path: string): Promise<PowerBIResponse<T>> {
-    const url = `${POWERBI_BASE_URL}${path}`;
+    const url = `${this.baseUrl}${path}`;
     logger.debug(COMPONENT, `DELETE ${url}`);
     const startTime = Date.now();
     const headers = await this.getHeaders();
-    const response = await fetch(url, {
+    const response = await fetchWithRetry(COMPONENT, "DELETE", url, {
       method: "DELETE",
       headers,
     });
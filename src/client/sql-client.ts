@@ -1,12 +1,22 @@
 import { Connection, Request } from "tedious";
 import { TokenManager } from "../auth/token-manager.js";
 import { logger } from "../utils/logger.js";
+import { recordRequest } from "../core/metrics.js";
+import { withSpan } from "../core/tracing.js";
 import type { SqlQueryResult } from "../core/types.js";
 
 const DEFAULT_MAX_ROWS = 1000;
 const QUERY_TIMEOUT_MS = 30000;
 const COMPONENT = "SqlClient";
 
+export interface SqlQueryOptions {
+  /**
+   * Connect with read-only application intent and run the query inside a transaction
+   * that is always rolled back, so a missed write cannot persist.
+   */
+  readOnly?: boolean;
+}
+
 export class SqlClient {
   constructor(private tokenManager: TokenManager) {}
 
@@ -14,11 +24,23 @@ export class SqlClient {
     server: string,
     database: string,
     query: string,
-    maxRows: number = DEFAULT_MAX_ROWS
+    maxRows: number = DEFAULT_MAX_ROWS,
+    options?: SqlQueryOptions
+  ): Promise<SqlQueryResult> {
+    const attributes = { "db.system.name": "microsoft.sql_server", "server.address": server, "db.namespace": database };
+    return withSpan("SQL query", attributes, () => this.runQuery(server, database, query, maxRows, options?.readOnly ?? false));
+  }
+
+  private async runQuery(
+    server: string,
+    database: string,
+    query: string,
+    maxRows: number,
+    readOnly: boolean
   ): Promise<SqlQueryResult> {
     const token = await this.tokenManager.getDatabaseToken();
 
-    logger.debug(COMPONENT, `Connecting to ${server}`, { database, maxRows });
+    logger.debug(COMPONENT, `Connecting to ${server}`, { database, maxRows, readOnly });
     const startTime = Date.now();
 
     return new Promise<SqlQueryResult>((resolve, reject) => {
@@ -37,6 +59,7 @@ export class SqlClient {
           database,
           encrypt: true,
           port: 1433,
+          readOnlyIntent: readOnly,
           requestTimeout: QUERY_TIMEOUT_MS,
           trustServerCertificate: false,
         },
@@ -46,6 +69,7 @@ export class SqlClient {
         if (err) {
           const durationMs = Date.now() - startTime;
           logger.error(COMPONENT, `Connection failed to ${server}`, { database, durationMs, error: err.message });
+          recordRequest(COMPONENT, "QUERY", server, "tds", "error", durationMs);
           reject(new Error(`SQL connection failed: ${err.message}`));
           return;
         }
@@ -54,9 +78,14 @@ export class SqlClient {
 
         const request = new Request(query, (reqErr, rowCount) => {
           const durationMs = Date.now() - startTime;
-          connection.close();
+          if (readOnly) {
+            connection.rollbackTransaction(() => connection.close());
+          } else {
+            connection.close();
+          }
           if (reqErr) {
             logger.error(COMPONENT, `Query failed on ${server}`, { database, durationMs, error: reqErr.message });
+            recordRequest(COMPONENT, "QUERY", server, "tds", "error", durationMs);
             reject(new Error(`SQL query failed: ${reqErr.message}`));
             return;
           }
@@ -66,6 +95,7 @@ export class SqlClient {
             columnCount: columns.length,
             rowCount: rowCount ?? rows.length,
           });
+          recordRequest(COMPONENT, "QUERY", server, "tds", "ok", durationMs);
           resolve({ columns, rows, rowCount: rowCount ?? rows.length });
         });
 
@@ -90,7 +120,18 @@ export class SqlClient {
           rows.push(row);
         });
 
-        connection.execSql(request);
+        if (!readOnly) {
+          connection.execSql(request);
+          return;
+        }
+        connection.beginTransaction((txErr) => {
+          if (txErr) {
+            connection.close();
+            reject(new Error(`SQL transaction failed to start: ${txErr.message}`));
+            return;
+          }
+          connection.execSql(request);
+        });
       });
 
       connection.on("error", (err) => {
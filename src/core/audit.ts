@@ -0,0 +1,217 @@
+import { appendFile, mkdir, open, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { logger } from "../utils/logger.js";
+
+const COMPONENT = "Audit";
+const DEFAULT_AUDIT_LOG = join(homedir(), ".mcp-fabric-api", "audit.jsonl");
+const QUERY_MAX_BYTES = 20 * 1024 * 1024; // audit_query scans at most the last 20 MB
+const MAX_STRING_CHARS = 500;
+const SENSITIVE_KEY = /secret|password|token|credential|connectionstring|apikey|key$/i;
+
+export interface CallerIdentity {
+  objectId?: string;
+  upn?: string;
+  name?: string;
+  appId?: string;
+  tenantId?: string;
+}
+
+/** Set by the workspace guard on the tool context when a call targets a workspace for writing. */
+export interface MutationRecord {
+  workspaceId: string;
+  workspaceName?: string;
+  /** The guard refused the write */
+  blocked?: boolean;
+  /** The user declined the confirmation prompt */
+  declined?: boolean;
+  /** The call stopped to ask for confirmation (no elicitation and no confirm: true) */
+  confirmationRequired?: boolean;
+}
+
+export type AuditOutcome = "success" | "error" | "blocked" | "declined" | "confirmation_required";
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  requestId: string | number;
+  sessionId?: string;
+  caller?: CallerIdentity;
+  tenantId?: string;
+  workspaceId: string;
+  workspaceName?: string;
+  target?: string;
+  arguments: Record<string, unknown>;
+  outcome: AuditOutcome;
+  error?: string;
+  fabricRequestId?: string;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  workspaceId?: string;
+  workspaceName?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  since?: Date;
+  until?: Date;
+  /** Only entries made by this caller (Entra object ID) */
+  callerObjectId?: string;
+  limit: number;
+}
+
+/** AUDIT_LOG path, or undefined when auditing is turned off with AUDIT_LOG=off. */
+export function getAuditLogPath(): string | undefined {
+  const configured = process.env.AUDIT_LOG?.trim();
+  if (!configured) return DEFAULT_AUDIT_LOG;
+  if (["off", "false", "none", "0"].includes(configured.toLowerCase())) return undefined;
+  return configured;
+}
+
+/**
+ * AUDIT_ADMIN_ROLES: app roles (token `roles` claim) that may read every caller's
+ * entries with audit_query in HTTP mode. Everyone else only sees their own.
+ */
+export function getAuditAdminRoles(): string[] {
+  const configured = process.env.AUDIT_ADMIN_ROLES?.trim();
+  return configured ? configured.split(",").map((role) => role.trim()).filter((role) => role.length > 0) : [];
+}
+
+/** Identity claims from a Fabric/Entra access token, without verifying it. */
+export function callerFromClaims(claims: Record<string, unknown>): CallerIdentity {
+  const str = (value: unknown) => (typeof value === "string" ? value : undefined);
+  return {
+    objectId: str(claims.oid),
+    upn: str(claims.upn) ?? str(claims.preferred_username) ?? str(claims.unique_name),
+    name: str(claims.name),
+    appId: str(claims.azp) ?? str(claims.appid),
+    tenantId: str(claims.tid),
+  };
+}
+
+export function callerFromToken(token: string): CallerIdentity | undefined {
+  try {
+    return callerFromClaims(JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString("utf-8")));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Copy of the tool arguments safe to persist: secrets are masked, definition parts are
+ * reduced to path and size, and long strings (TMDL, queries, file content) are truncated.
+ */
+export function redactArguments(value: unknown, key = ""): unknown {
+  if (SENSITIVE_KEY.test(key) && value !== undefined && value !== null && typeof value !== "boolean") {
+    return "[REDACTED]";
+  }
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_CHARS ? `${value.slice(0, MAX_STRING_CHARS)}… [${value.length} chars]` : value;
+  }
+  if (Array.isArray(value)) {
+    if (key === "parts") {
+      return value.map((part: { path?: string; content?: string; payload?: string }) => ({
+        path: part?.path,
+        bytes: (part?.content ?? part?.payload ?? "").length,
+      }));
+    }
+    return value.map((item) => redactArguments(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactArguments(v, k)]));
+  }
+  return value;
+}
+
+/** The item a call acts on: the first *Id argument other than workspaceId. */
+export function findTarget(args: Record<string, unknown>): string | undefined {
+  for (const [key, value] of Object.entries(args)) {
+    if (key !== "workspaceId" && key.endsWith("Id") && typeof value === "string") {
+      return `${key}=${value}`;
+    }
+  }
+  return undefined;
+}
+
+let writeChain: Promise<void> = Promise.resolve();
+let directoryReady = false;
+
+/**
+ * Append an entry to the audit log. Writes are serialized so lines never interleave;
+ * failures are logged but never fail the tool call.
+ */
+export function writeAuditEntry(entry: AuditEntry): Promise<void> {
+  const path = getAuditLogPath();
+  if (!path) return Promise.resolve();
+  writeChain = writeChain.then(async () => {
+    try {
+      if (!directoryReady) {
+        await mkdir(dirname(path), { recursive: true });
+        directoryReady = true;
+      }
+      await appendFile(path, `${JSON.stringify(entry)}\n`, "utf-8");
+    } catch (error) {
+      logger.error(COMPONENT, `Failed to write audit entry to ${path}`, {
+        tool: entry.tool,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+  return writeChain;
+}
+
+async function readTail(path: string): Promise<string> {
+  const { size } = await stat(path);
+  const start = Math.max(0, size - QUERY_MAX_BYTES);
+  const handle = await open(path, "r");
+  try {
+    const buffer = Buffer.alloc(size - start);
+    await handle.read(buffer, 0, buffer.length, start);
+    const text = buffer.toString("utf-8");
+    // Starting mid-file: drop the partial first line
+    return start > 0 ? text.slice(text.indexOf("\n") + 1) : text;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Search the most recent audit entries, newest first.
+ */
+export async function queryAuditLog(query: AuditQuery): Promise<AuditEntry[]> {
+  const path = getAuditLogPath();
+  if (!path) {
+    throw new Error("Auditing is disabled (AUDIT_LOG=off)");
+  }
+  await writeChain;
+  let text: string;
+  try {
+    text = await readTail(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const workspaceName = query.workspaceName?.toLowerCase();
+  const matches: AuditEntry[] = [];
+  const lines = text.split("\n");
+  for (let i = lines.length - 1; i >= 0 && matches.length < query.limit; i--) {
+    if (!lines[i].trim()) continue;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(lines[i]) as AuditEntry;
+    } catch {
+      continue;
+    }
+    const time = Date.parse(entry.timestamp);
+    if (query.workspaceId && entry.workspaceId !== query.workspaceId) continue;
+    if (workspaceName && entry.workspaceName?.toLowerCase() !== workspaceName) continue;
+    if (query.callerObjectId && entry.caller?.objectId !== query.callerObjectId) continue;
+    if (query.tool && entry.tool !== query.tool) continue;
+    if (query.outcome && entry.outcome !== query.outcome) continue;
+    if (query.since && time < query.since.getTime()) continue;
+    if (query.until && time > query.until.getTime()) continue;
+    matches.push(entry);
+  }
+  return matches;
+}
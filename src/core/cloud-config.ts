@@ -0,0 +1,124 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+export type TokenScope = "fabric" | "powerbi" | "database" | "kusto";
+
+/**
+ * Endpoints and token audiences for one Microsoft cloud. Shared by TokenManager and
+ * every API client so they always target the same cloud.
+ */
+export interface CloudProfile {
+  name: string;
+  fabricBaseUrl: string;
+  powerBIBaseUrl: string;
+  authorityHost: string;
+  /** Issuer host of v1 Entra access tokens (iss is `${v1IssuerHost}/${tenantId}/`) */
+  v1IssuerHost: string;
+  scopes: Record<TokenScope, string>;
+}
+
+export const CLOUD_PROFILES: Record<string, CloudProfile> = {
+  Public: {
+    name: "Public",
+    fabricBaseUrl: "https://api.fabric.microsoft.com/v1",
+    powerBIBaseUrl: "https://api.powerbi.com/v1.0/myorg",
+    authorityHost: "https://login.microsoftonline.com",
+    v1IssuerHost: "https://sts.windows.net",
+    scopes: {
+      fabric: "https://api.fabric.microsoft.com/.default",
+      powerbi: "https://analysis.windows.net/powerbi/api/.default",
+      database: "https://database.windows.net/.default",
+      kusto: "https://api.kusto.windows.net/.default",
+    },
+  },
+  USGov: {
+    name: "USGov",
+    fabricBaseUrl: "https://api.fabric.microsoft.us/v1",
+    powerBIBaseUrl: "https://api.high.powerbigov.us/v1.0/myorg",
+    authorityHost: "https://login.microsoftonline.us",
+    v1IssuerHost: "https://login.microsoftonline.us",
+    scopes: {
+      fabric: "https://api.fabric.microsoft.us/.default",
+      powerbi: "https://high.analysis.usgovcloudapi.net/powerbi/api/.default",
+      database: "https://database.usgovcloudapi.net/.default",
+      kusto: "https://api.kusto.usgovcloudapi.net/.default",
+    },
+  },
+  China: {
+    name: "China",
+    fabricBaseUrl: "https://api.fabric.microsoft.cn/v1",
+    powerBIBaseUrl: "https://api.powerbi.cn/v1.0/myorg",
+    authorityHost: "https://login.chinacloudapi.cn",
+    v1IssuerHost: "https://sts.chinacloudapi.cn",
+    scopes: {
+      fabric: "https://api.fabric.microsoft.cn/.default",
+      powerbi: "https://analysis.chinacloudapi.cn/powerbi/api/.default",
+      database: "https://database.chinacloudapi.cn/.default",
+      kusto: "https://api.kusto.chinacloudapi.cn/.default",
+    },
+  },
+};
+
+const overridesSchema = z.object({
+  name: z.string().optional(),
+  fabricBaseUrl: z.string().url().optional(),
+  powerBIBaseUrl: z.string().url().optional(),
+  authorityHost: z.string().url().optional(),
+  v1IssuerHost: z.string().url().optional(),
+  scopes: z.object({
+    fabric: z.string().optional(),
+    powerbi: z.string().optional(),
+    database: z.string().optional(),
+    kusto: z.string().optional(),
+  }).strict().optional(),
+}).strict();
+
+type CloudOverrides = z.infer<typeof overridesSchema>;
+
+function loadOverrides(value: string): CloudOverrides {
+  const json = value.trimStart().startsWith("{") ? value : readFileSync(value, "utf-8");
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`FABRIC_CLOUD_CONFIG is not valid JSON: ${message}`);
+  }
+  const result = overridesSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+    throw new Error(`Invalid FABRIC_CLOUD_CONFIG: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Resolve the cloud profile from the environment:
+ * - FABRIC_CLOUD selects a built-in profile (Public, USGov, China); defaults to Public.
+ * - FABRIC_CLOUD_CONFIG (inline JSON or a path to a JSON file) overrides individual
+ *   fields of that profile, e.g. to point the clients at a local mock server.
+ */
+export function resolveCloudProfile(): CloudProfile {
+  const cloudName = process.env.FABRIC_CLOUD?.trim() || "Public";
+  const preset = Object.values(CLOUD_PROFILES).find((p) => p.name.toLowerCase() === cloudName.toLowerCase());
+  if (!preset) {
+    throw new Error(
+      `Unknown FABRIC_CLOUD "${cloudName}". Expected one of: ${Object.keys(CLOUD_PROFILES).join(", ")}`
+    );
+  }
+
+  const configValue = process.env.FABRIC_CLOUD_CONFIG?.trim();
+  if (!configValue) return preset;
+
+  const overrides = loadOverrides(configValue);
+  const profile: CloudProfile = {
+    ...preset,
+    ...overrides,
+    name: overrides.name ?? `${preset.name} (custom)`,
+    scopes: { ...preset.scopes, ...overrides.scopes },
+  };
+  // Clients append paths starting with "/"
+  profile.fabricBaseUrl = profile.fabricBaseUrl.replace(/\/+$/, "");
+  profile.powerBIBaseUrl = profile.powerBIBaseUrl.replace(/\/+$/, "");
+  return profile;
+}
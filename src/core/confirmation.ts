@@ -0,0 +1,159 @@
+import { FabricClient } from "../client/fabric-client.js";
+import { logger } from "../utils/logger.js";
+import { paginateAll } from "./pagination.js";
+import { findTarget, type MutationRecord } from "./audit.js";
+import { getOperationClass } from "./tool-catalog.js";
+
+const COMPONENT = "Confirmation";
+const DEFAULT_CONFIRM_TOOLS = ["delete", "git_update_from_git", "external_data_share_revoke"];
+const MAX_LISTED_ITEMS = 10;
+
+export type ElicitAnswer = "accept" | "decline" | "cancel";
+
+/** Per-call confirmation state, present on the tool context for tools that need confirmation. */
+export interface ConfirmationRequest {
+  /** Ask the user through MCP elicitation; undefined when the client doesn't support it */
+  elicit?: (message: string) => Promise<ElicitAnswer>;
+  /** The caller passed confirm: true (only honored without elicitation) */
+  confirmed: boolean;
+  args: Record<string, unknown>;
+  /** Set once the user has approved */
+  approved?: boolean;
+}
+
+/** The user declined, or confirmation was required and not given. */
+export class ConfirmationRequiredError extends Error {
+  constructor(message: string, public readonly declined: boolean) {
+    super(message);
+    this.name = "ConfirmationRequiredError";
+  }
+}
+
+/**
+ * CONFIRM_TOOLS entries: tool names or operation classes (e.g. "delete"). "none" turns
+ * confirmation off.
+ */
+function getConfirmList(): string[] {
+  const configured = process.env.CONFIRM_TOOLS?.trim();
+  if (!configured) return DEFAULT_CONFIRM_TOOLS;
+  if (["none", "off", "false"].includes(configured.toLowerCase())) return [];
+  return configured.split(",").map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+}
+
+/** Whether a tool can require confirmation at all; such tools gain a confirm argument. */
+export function isConfirmableTool(toolName: string): boolean {
+  const list = getConfirmList();
+  return list.includes(toolName) || list.includes(getOperationClass(toolName));
+}
+
+/**
+ * Whether this particular call needs confirmation. git_update_from_git only does when
+ * it may overwrite workspace items.
+ */
+export function requiresConfirmation(toolName: string, args: Record<string, unknown>): boolean {
+  if (!isConfirmableTool(toolName)) return false;
+  if (toolName === "git_update_from_git") {
+    return (args.options as { allowOverrideItems?: boolean } | undefined)?.allowOverrideItems === true;
+  }
+  return true;
+}
+
+async function describeItem(fabricClient: FabricClient, workspaceId: string, args: Record<string, unknown>): Promise<string | undefined> {
+  // Same convention as the audit target: the first *Id argument other than workspaceId
+  const itemId = Object.entries(args).find(([key, value]) =>
+    key !== "workspaceId" && key.endsWith("Id") && typeof value === "string")?.[1] as string | undefined;
+  if (!itemId) return undefined;
+  try {
+    const response = await fabricClient.get<{ displayName: string; type: string }>(`/workspaces/${workspaceId}/items/${itemId}`);
+    return `"${response.data.displayName}" (${response.data.type}, ${itemId})`;
+  } catch {
+    return itemId;
+  }
+}
+
+async function describeWorkspaceContents(fabricClient: FabricClient, workspaceId: string): Promise<string> {
+  try {
+    const items = await paginateAll<{ displayName: string; type: string }>(fabricClient, `/workspaces/${workspaceId}/items`);
+    if (items.length === 0) return "The workspace is empty.";
+    const byType = new Map<string, number>();
+    for (const item of items) byType.set(item.type, (byType.get(item.type) ?? 0) + 1);
+    const counts = [...byType].map(([type, count]) => `${count} ${type}`).join(", ");
+    const names = items.slice(0, MAX_LISTED_ITEMS).map((item) => item.displayName).join(", ");
+    const more = items.length > MAX_LISTED_ITEMS ? `, and ${items.length - MAX_LISTED_ITEMS} more` : "";
+    return `The workspace and its ${items.length} item${items.length === 1 ? "" : "s"} will be deleted (${counts}): ${names}${more}.`;
+  } catch {
+    return "The workspace's items could not be listed.";
+  }
+}
+
+async function describeImpact(
+  toolName: string,
+  fabricClient: FabricClient | undefined,
+  mutation: MutationRecord,
+  args: Record<string, unknown>,
+): Promise<string> {
+  const lines = [`${toolName} (${getOperationClass(toolName)})`];
+  const workspaceLabel = mutation.workspaceName
+    ? `"${mutation.workspaceName}"${mutation.workspaceId ? ` (${mutation.workspaceId})` : ""}`
+    : mutation.workspaceId || "none (tenant-level object)";
+  lines.push(`Workspace: ${workspaceLabel}`);
+  if (fabricClient && mutation.workspaceId) {
+    if (toolName === "workspace_delete") {
+      lines.push(await describeWorkspaceContents(fabricClient, mutation.workspaceId));
+    } else {
+      const item = await describeItem(fabricClient, mutation.workspaceId, args);
+      if (item) lines.push(`Item: ${item}`);
+    }
+  } else if (!mutation.workspaceId) {
+    const target = findTarget(args);
+    if (target) lines.push(`Target: ${target}`);
+  }
+  if (toolName === "git_update_from_git") {
+    lines.push(`Workspace items may be overwritten with the content of commit ${String(args.remoteCommitHash)}.`);
+  }
+  if (toolName === "external_data_share_revoke") {
+    lines.push(`External data share ${String(args.externalDataShareId)} will stop working for its recipient.`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Ask the user to approve a destructive call before it runs. Uses MCP
+ * elicitation when the client supports it; otherwise the call must carry confirm: true.
+ * Throws ConfirmationRequiredError unless approved.
+ */
+export async function confirmOperation(
+  toolName: string,
+  fabricClient: FabricClient | undefined,
+  mutation: MutationRecord,
+  request: ConfirmationRequest,
+): Promise<void> {
+  if (request.approved) return;
+  if (!request.elicit && request.confirmed) {
+    request.approved = true;
+    return;
+  }
+
+  const impact = await describeImpact(toolName, fabricClient, mutation, request.args);
+  if (!request.elicit) {
+    throw new ConfirmationRequiredError(
+      `This operation requires confirmation:\n${impact}\n` +
+      "Show these details to the user and, only after they approve, call the tool again with confirm: true.",
+      false,
+    );
+  }
+
+  let answer: ElicitAnswer;
+  try {
+    answer = await request.elicit(`Confirm this operation:\n${impact}`);
+  } catch (error) {
+    logger.warn(COMPONENT, `Confirmation prompt failed for ${toolName}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new ConfirmationRequiredError(`Confirmation prompt failed; ${toolName} was not run`, false);
+  }
+  if (answer !== "accept") {
+    throw new ConfirmationRequiredError(`The user did not approve ${toolName}; nothing was changed`, true);
+  }
+  request.approved = true;
+}
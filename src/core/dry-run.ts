@@ -0,0 +1,91 @@
+import { summarizeDefinitionParts } from "../utils/logger.js";
+import { getOperationClass } from "./tool-catalog.js";
+import type { ToolContext } from "./tool-context.js";
+
+export interface GuardDecision {
+  workspaceId: string;
+  workspaceName?: string;
+  allowed: boolean;
+  reason?: string;
+}
+
+export interface PlannedRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+/** What a write tool would have done. Present on the tool context only for dry-run calls. */
+export interface DryRunPlan {
+  guard?: GuardDecision;
+  request?: PlannedRequest;
+}
+
+/**
+ * Thrown in place of the first non-GET request of a dry-run call. The tool's own error
+ * handling may swallow it; the tool wrapper reports the captured plan either way.
+ */
+export class DryRunInterrupt extends Error {
+  constructor(method: string, url: string) {
+    super(`Dry run: ${method} ${url} was not sent`);
+    this.name = "DryRunInterrupt";
+  }
+}
+
+export function isGlobalDryRun(): boolean {
+  return ["true", "1", "yes"].includes(process.env.DRY_RUN?.trim().toLowerCase() ?? "");
+}
+
+function summarizeBody(body: RequestInit["body"]): unknown {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body !== "string") return "[binary body]";
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
+  }
+  const definition = (parsed as { definition?: { parts?: unknown } })?.definition;
+  if (definition && Array.isArray(definition.parts)) {
+    return {
+      ...(parsed as Record<string, unknown>),
+      definition: {
+        ...definition,
+        parts: summarizeDefinitionParts(definition.parts as Array<{ path: string; payload: string; payloadType: string }>),
+      },
+    };
+  }
+  return parsed;
+}
+
+/**
+ * In a dry-run call, record a state-changing request instead of sending it.
+ * GETs pass through so lookups (e.g. the guard's workspace name) still work.
+ */
+export function interceptDryRun(context: ToolContext | undefined, method: string, url: string, init: RequestInit): void {
+  if (!context?.dryRun || method === "GET") return;
+  context.dryRun.request ??= { method, url, body: summarizeBody(init.body) };
+  throw new DryRunInterrupt(method, url);
+}
+
+type ToolResponse = { content?: Array<{ type: string; text?: string }>; isError?: boolean };
+
+/**
+ * Tool response for a dry-run call: the guard decision and the request that would have
+ * been sent. Errors raised before any request (bad arguments, unreadable files) are
+ * returned unchanged.
+ */
+export function formatDryRunResult(toolName: string, plan: DryRunPlan, result: ToolResponse | undefined): ToolResponse | undefined {
+  if (!plan.request && result?.isError) return result;
+  const report: Record<string, unknown> = {
+    dryRun: true,
+    tool: toolName,
+    operationClass: getOperationClass(toolName),
+    guard: plan.guard ?? "not evaluated",
+    request: plan.request ?? "no state-changing request was made",
+  };
+  if (plan.guard && !plan.guard.allowed) {
+    report.note = "The workspace guard would block this call";
+  }
+  return { content: [{ type: "text", text: JSON.stringify(report, null, 2) }] };
+}
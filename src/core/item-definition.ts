@@ -0,0 +1,185 @@
+import { FabricClient } from "../client/fabric-client.js";
+import type { LroResult } from "../client/fabric-client.js";
+import { pollOperation, getOperationResult, formatOperationAccepted } from "./lro.js";
+import { encodeBase64, decodeBase64Content } from "../utils/base64.js";
+import { writeFilesToDirectory } from "../utils/file-utils.js";
+import type { FileEntry } from "../utils/file-utils.js";
+import type { ItemDefinitionPart, OperationState } from "./types.js";
+
+type ToolResponse = { content: Array<{ type: "text"; text: string }>; isError?: true };
+
+export interface DefinitionOptions {
+  /** Definition format, e.g. "TMDL", "ipynb", "PBIR". Omit for the item type's default. */
+  format?: string;
+  /** Return the LRO instead of polling it to completion. */
+  noWait?: boolean;
+}
+
+export type GetDefinitionResult =
+  | { accepted: LroResult }
+  | { parts: ItemDefinitionPart[] | undefined };
+
+export type UpdateDefinitionResult =
+  | { accepted: LroResult }
+  | { operation?: OperationState };
+
+export type CreateWithDefinitionResult =
+  | { accepted: LroResult }
+  | { operation?: OperationState; item: unknown };
+
+function withQuery(path: string, params: Record<string, string | undefined>): string {
+  const query = Object.entries(params)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&");
+  if (!query) return path;
+  return `${path}${path.includes("?") ? "&" : "?"}${query}`;
+}
+
+export function encodeDefinitionParts(files: FileEntry[]): ItemDefinitionPart[] {
+  return files.map((file) => ({
+    path: file.path,
+    payload: encodeBase64(file.content),
+    payloadType: "InlineBase64",
+  }));
+}
+
+/**
+ * Decode parts for writing to disk. Binary parts stay as bytes so they round-trip losslessly.
+ */
+export function decodeDefinitionParts(parts: ItemDefinitionPart[]): FileEntry[] {
+  return parts.map((part) => ({
+    path: part.path,
+    content: part.payloadType === "InlineBase64" ? decodeBase64Content(part.payload) : part.payload,
+  }));
+}
+
+/**
+ * POST {itemPath}/getDefinition, following the LRO to its result.
+ * itemPath is the item's URL, e.g. /workspaces/{ws}/items/{id} or /workspaces/{ws}/notebooks/{id}.
+ */
+export async function getItemDefinition(
+  client: FabricClient,
+  itemPath: string,
+  options?: DefinitionOptions
+): Promise<GetDefinitionResult> {
+  const response = await client.post<Record<string, unknown>>(
+    withQuery(`${itemPath}/getDefinition`, { format: options?.format })
+  );
+  let parts: ItemDefinitionPart[] | undefined;
+  if (response.lro) {
+    if (options?.noWait) return { accepted: response.lro };
+    await pollOperation(client, response.lro.operationId);
+    const result = await getOperationResult<Record<string, unknown>>(client, response.lro.operationId);
+    if (result?.definition) {
+      parts = (result.definition as { parts: ItemDefinitionPart[] }).parts;
+    }
+  }
+  if (!parts && response.data?.definition) {
+    parts = (response.data.definition as { parts: ItemDefinitionPart[] }).parts;
+  }
+  return { parts };
+}
+
+/**
+ * POST {itemPath}/updateDefinition with the given parts, polling the LRO unless noWait is set.
+ */
+export async function updateItemDefinition(
+  client: FabricClient,
+  itemPath: string,
+  parts: ItemDefinitionPart[],
+  options?: DefinitionOptions & { updateMetadata?: boolean }
+): Promise<UpdateDefinitionResult> {
+  const definition: Record<string, unknown> = { parts };
+  if (options?.format) definition.format = options.format;
+  const response = await client.post(
+    withQuery(`${itemPath}/updateDefinition`, {
+      updateMetadata: options?.updateMetadata ? "true" : undefined,
+    }),
+    { definition }
+  );
+  if (response.lro) {
+    if (options?.noWait) return { accepted: response.lro };
+    return { operation: await pollOperation(client, response.lro.operationId) };
+  }
+  return {};
+}
+
+/**
+ * POST to an item collection (e.g. /workspaces/{ws}/items) with an inline definition.
+ * body carries displayName/description/type and any other create properties.
+ */
+export async function createItemWithDefinition(
+  client: FabricClient,
+  collectionPath: string,
+  body: Record<string, unknown>,
+  parts: ItemDefinitionPart[],
+  options?: DefinitionOptions
+): Promise<CreateWithDefinitionResult> {
+  const definition: Record<string, unknown> = { parts };
+  if (options?.format) definition.format = options.format;
+  const response = await client.post(collectionPath, { ...body, definition });
+  if (response.lro) {
+    if (options?.noWait) return { accepted: response.lro };
+    const operation = await pollOperation(client, response.lro.operationId);
+    const item = await getOperationResult(client, response.lro.operationId);
+    return { operation, item: item ?? response.data };
+  }
+  return { item: response.data };
+}
+
+// ── Tool response helpers shared by item_* and the per-type definition tools ──
+
+/**
+ * Get an item definition and write its decoded parts under outputDirectoryPath.
+ * label prefixes the success message, e.g. "Notebook definition".
+ */
+export async function writeItemDefinitionToDirectory(
+  client: FabricClient,
+  itemPath: string,
+  outputDirectoryPath: string,
+  label: string,
+  options?: DefinitionOptions
+): Promise<ToolResponse> {
+  const result = await getItemDefinition(client, itemPath, options);
+  if ("accepted" in result) return formatOperationAccepted(result.accepted);
+  if (!result.parts) {
+    return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
+  }
+  const written = await writeFilesToDirectory(outputDirectoryPath, decodeDefinitionParts(result.parts));
+  return { content: [{ type: "text", text: `${label} written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
+}
+
+/**
+ * Update an item definition and report the outcome. label prefixes the success message.
+ */
+export async function submitItemDefinition(
+  client: FabricClient,
+  itemPath: string,
+  parts: ItemDefinitionPart[],
+  label: string,
+  options?: DefinitionOptions & { updateMetadata?: boolean }
+): Promise<ToolResponse> {
+  const result = await updateItemDefinition(client, itemPath, parts, options);
+  if ("accepted" in result) return formatOperationAccepted(result.accepted);
+  if (result.operation) {
+    return { content: [{ type: "text", text: JSON.stringify(result.operation, null, 2) }] };
+  }
+  return { content: [{ type: "text", text: `${label} updated successfully` }] };
+}
+
+/**
+ * Create an item with a definition and return the created item (and LRO state, if any).
+ */
+export async function submitItemWithDefinition(
+  client: FabricClient,
+  collectionPath: string,
+  body: Record<string, unknown>,
+  parts: ItemDefinitionPart[],
+  options?: DefinitionOptions
+): Promise<ToolResponse> {
+  const result = await createItemWithDefinition(client, collectionPath, body, parts, options);
+  if ("accepted" in result) return formatOperationAccepted(result.accepted);
+  const payload = result.operation ? { operation: result.operation, item: result.item } : result.item;
+  return { content: [{ type: "text", text: JSON.stringify(payload, null, 2) }] };
+}
@@ -54,14 +54,3 @@ export async function cancelJobInstance(
     `/workspaces/${workspaceId}/items/${itemId}/jobs/instances/${jobInstanceId}/cancel`
   );
 }
-
-export async function listJobInstances(
-  client: FabricClient,
-  workspaceId: string,
-  itemId: string
-): Promise<JobInstance[]> {
-  const response = await client.get<{ value: JobInstance[] }>(
-    `/workspaces/${workspaceId}/items/${itemId}/jobs/instances`
-  );
-  return response.data.value ?? [];
-}
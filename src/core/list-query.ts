@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { FabricClient } from "../client/fabric-client.js";
+import { pageEntries, paginatePage } from "./pagination.js";
+import type { Page } from "./pagination.js";
+
+const MAX_TOP = 1000;
+
+/** Timestamp fields checked by filter.modifiedSince, most specific first. */
+const MODIFIED_FIELDS = [
+  "lastModifiedDateTime",
+  "lastUpdatedTime",
+  "modifiedDateTime",
+  "endTimeUtc",
+  "executionEndTime",
+  "startTimeUtc",
+  "executionStartTime",
+];
+
+/** Arguments shared by every *_list tool. */
+export const listQueryParams = {
+  fields: z.array(z.string()).optional()
+    .describe("Only return these top-level fields of each entry, e.g. [\"id\", \"displayName\"]"),
+  filter: z.object({
+    name: z.string().optional().describe("Case-insensitive glob on the display name (or name), with * and ? wildcards"),
+    type: z.string().optional().describe("Only entries of this type (case-insensitive)"),
+    modifiedSince: z.string().optional()
+      .describe("ISO 8601 timestamp. Only entries modified or run at or after it; entries without a timestamp are left out"),
+  }).optional().describe("Filter applied while paging through the results"),
+  top: z.number().int().min(1).max(MAX_TOP).optional()
+    .describe(`Return at most this many entries (max ${MAX_TOP}), with a nextCursor when more remain`),
+  cursor: z.string().optional().describe("nextCursor from a previous call, to continue the same listing"),
+};
+
+export interface ListQuery {
+  fields?: string[];
+  filter?: { name?: string; type?: string; modifiedSince?: string };
+  top?: number;
+  cursor?: string;
+}
+
+export interface ListResult {
+  count: number;
+  items: Record<string, unknown>[];
+  nextCursor?: string;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+function buildFilter(filter: ListQuery["filter"]): ((entry: Record<string, unknown>) => boolean) | undefined {
+  if (!filter || (!filter.name && !filter.type && !filter.modifiedSince)) return undefined;
+  const name = filter.name ? globToRegExp(filter.name) : undefined;
+  const type = filter.type?.toLowerCase();
+  let since: number | undefined;
+  if (filter.modifiedSince) {
+    since = new Date(filter.modifiedSince).getTime();
+    if (Number.isNaN(since)) {
+      throw new Error(`filter.modifiedSince must be an ISO 8601 timestamp, got "${filter.modifiedSince}"`);
+    }
+  }
+
+  return (entry) => {
+    if (name && !name.test(String(entry.displayName ?? entry.name ?? ""))) return false;
+    if (type && String(entry.type ?? "").toLowerCase() !== type) return false;
+    if (since !== undefined) {
+      const field = MODIFIED_FIELDS.find((key) => typeof entry[key] === "string");
+      if (!field || new Date(entry[field] as string).getTime() < since) return false;
+    }
+    return true;
+  };
+}
+
+function projectFields(entry: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.filter((field) => field in entry).map((field) => [field, entry[field]]));
+}
+
+/**
+ * Fetch a list endpoint with the caller's filter, fields, top and cursor. Only as many
+ * pages as needed for `top` matching entries are requested.
+ */
+export async function listPage(
+  client: FabricClient,
+  path: string,
+  query: ListQuery,
+  resultKey: string = "value"
+): Promise<ListResult> {
+  const page = await paginatePage<Record<string, unknown>>(
+    client,
+    path,
+    { cursor: query.cursor, limit: query.top, accept: buildFilter(query.filter) },
+    resultKey
+  );
+  return toListResult(page, query);
+}
+
+/**
+ * listPage for entries already fetched some other way, such as rows of a SQL query. `path`
+ * identifies the listing in its cursors.
+ */
+export function listEntries(entries: Record<string, unknown>[], path: string, query: ListQuery): ListResult {
+  const page = pageEntries(entries, path, { cursor: query.cursor, limit: query.top, accept: buildFilter(query.filter) });
+  return toListResult(page, query);
+}
+
+function toListResult(page: Page<Record<string, unknown>>, query: ListQuery): ListResult {
+  const items = query.fields?.length ? page.items.map((entry) => projectFields(entry, query.fields!)) : page.items;
+  return { count: items.length, items, nextCursor: page.nextCursor };
+}
+
+/** List results are compact JSON: large listings are mostly whitespace when indented. */
+export function formatListResult(result: ListResult) {
+  return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+}
@@ -1,21 +1,31 @@
+import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
+import type { LroResult } from "../client/fabric-client.js";
 import { FabricApiError } from "./errors.js";
 import { logger } from "../utils/logger.js";
+import { getToolContext, sleep } from "./tool-context.js";
+import { recordLro } from "./metrics.js";
+import { withSpan } from "./tracing.js";
+import type { ProgressReporter } from "./tool-context.js";
 import type { OperationState } from "./types.js";
 
 export interface LroOptions {
   pollIntervalMs?: number;
   timeoutMs?: number;
+  /** Stops polling when aborted. Defaults to the current tool call's signal. */
+  signal?: AbortSignal;
+  /** Receives percentComplete after each poll. Defaults to the current tool call's MCP progress token. */
+  onProgress?: ProgressReporter;
 }
 
+/** Shared noWait argument for tools that start a long-running operation. */
+export const noWaitParam = z.boolean().optional()
+  .describe("Return the operation ID immediately instead of waiting for completion. Follow up with operation_get_status, operation_wait, or operation_get_result.");
+
 const DEFAULT_POLL_INTERVAL = 2000;
 const DEFAULT_TIMEOUT = 300000; // 5 minutes
 const COMPONENT = "LRO";
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 export async function pollOperation(
   client: FabricClient,
   operationId: string,
@@ -23,6 +33,9 @@ export async function pollOperation(
 ): Promise<OperationState> {
   const pollInterval = options?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL;
   const timeout = options?.timeoutMs ?? DEFAULT_TIMEOUT;
+  const context = getToolContext();
+  const signal = options?.signal ?? context?.signal;
+  const onProgress = options?.onProgress ?? context?.reportProgress;
   const start = Date.now();
   let pollCount = 0;
 
@@ -31,17 +44,46 @@ export async function pollOperation(
     timeoutMs: timeout,
   });
 
+  const logCancelled = () => {
+    logger.info(COMPONENT, `Polling cancelled for operation ${operationId}`, {
+      totalPolls: pollCount,
+      totalMs: Date.now() - start,
+    });
+    recordLro("Aborted", pollCount, Date.now() - start);
+  };
+
   while (true) {
+    if (signal?.aborted) {
+      logCancelled();
+      signal.throwIfAborted();
+    }
     pollCount++;
-    const response = await client.get<OperationState>(`/operations/${operationId}`);
-    const state = response.data;
+    const state = await withSpan(
+      "LRO poll",
+      { "fabric.operation.id": operationId, "fabric.operation.poll": pollCount },
+      async (span) => {
+        const response = await client.get<OperationState>(`/operations/${operationId}`);
+        span.setAttribute("fabric.operation.status", response.data.status);
+        if (response.data.percentComplete !== undefined) {
+          span.setAttribute("fabric.operation.percent_complete", response.data.percentComplete);
+        }
+        return response.data;
+      }
+    );
 
     logger.debug(COMPONENT, `Poll #${pollCount} for ${operationId}`, {
       status: state.status,
+      percentComplete: state.percentComplete,
       elapsedMs: Date.now() - start,
     });
 
+    if (onProgress) {
+      const percent = state.percentComplete ?? (state.status === "Succeeded" ? 100 : 0);
+      await onProgress(percent, 100, `Operation ${operationId}: ${state.status}`);
+    }
+
     if (state.status === "Succeeded" || state.status === "Failed" || state.status === "Cancelled") {
+      recordLro(state.status, pollCount, Date.now() - start);
       if (state.status === "Failed") {
         logger.error(COMPONENT, `Operation ${operationId} failed`, {
           errorMessage: state.error?.message,
@@ -64,6 +106,7 @@ export async function pollOperation(
     }
 
     if (Date.now() - start > timeout) {
+      recordLro("TimedOut", pollCount, Date.now() - start);
       logger.error(COMPONENT, `Operation ${operationId} timed out`, {
         totalPolls: pollCount,
         totalMs: Date.now() - start,
@@ -75,7 +118,12 @@ export async function pollOperation(
       );
     }
 
-    await sleep(pollInterval);
+    try {
+      await sleep(pollInterval, signal);
+    } catch (error) {
+      logCancelled();
+      throw error;
+    }
   }
 }
 
@@ -92,3 +140,27 @@ export async function getOperationResult<T>(
     return undefined;
   }
 }
+
+export async function getOperationState(
+  client: FabricClient,
+  operationId: string
+): Promise<OperationState> {
+  const response = await client.get<OperationState>(`/operations/${operationId}`);
+  return response.data;
+}
+
+/**
+ * Tool response for an LRO started with noWait — hands the operation ID back to the
+ * assistant so it can follow up with operation_get_status / operation_wait / operation_get_result.
+ */
+export function formatOperationAccepted(lro: LroResult): { content: Array<{ type: "text"; text: string }> } {
+  const accepted = {
+    operationId: lro.operationId,
+    status: "Accepted",
+    location: lro.location,
+    retryAfterSeconds: lro.retryAfter,
+    next: "Use operation_get_status, operation_wait, or operation_get_result with this operationId to follow up.",
+  };
+  logger.debug(COMPONENT, `Returning operation ${lro.operationId} without waiting`);
+  return { content: [{ type: "text", text: JSON.stringify(accepted, null, 2) }] };
+}
@@ -0,0 +1,207 @@
+import { rename, writeFile } from "node:fs/promises";
+import { logger } from "../utils/logger.js";
+
+const COMPONENT = "Metrics";
+const PREFIX = "mcp_fabric_";
+const DEFAULT_DUMP_INTERVAL_MS = 60000;
+
+const HTTP_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+const TOOL_BUCKETS = [0.1, 0.5, 1, 5, 10, 30, 60, 120, 300, 600];
+const LRO_BUCKETS = [1, 5, 10, 30, 60, 120, 300, 600];
+
+type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const all = { ...labels, ...extra };
+  const keys = Object.keys(all);
+  if (keys.length === 0) return "";
+  return `{${keys.map((key) => `${key}="${escapeLabel(all[key])}"`).join(",")}}`;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+interface Metric {
+  render(): string[];
+}
+
+class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) entry.value += by;
+    else this.values.set(key, { labels, value: by });
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+class Histogram implements Metric {
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+class Gauge implements Metric {
+  constructor(private name: string, private help: string, private collect: () => number) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.collect()}`];
+  }
+}
+
+const httpRequests = new Counter(`${PREFIX}http_requests_total`, "Outbound API requests by client, method, host, path template and status");
+const httpDuration = new Histogram(`${PREFIX}http_request_duration_seconds`, "Outbound API request latency", HTTP_BUCKETS);
+const httpThrottled = new Counter(`${PREFIX}http_throttled_total`, "Outbound API requests answered with HTTP 429");
+const lroDuration = new Histogram(`${PREFIX}lro_duration_seconds`, "Time from first poll to terminal state of long-running operations", LRO_BUCKETS);
+const lroPolls = new Counter(`${PREFIX}lro_polls_total`, "Long-running operation status polls");
+const toolCalls = new Counter(`${PREFIX}tool_calls_total`, "MCP tool invocations");
+const toolErrors = new Counter(`${PREFIX}tool_errors_total`, "MCP tool invocations that returned an error");
+const toolDuration = new Histogram(`${PREFIX}tool_duration_seconds`, "MCP tool invocation latency", TOOL_BUCKETS);
+
+const registry: Metric[] = [httpRequests, httpDuration, httpThrottled, lroDuration, lroPolls, toolCalls, toolErrors, toolDuration];
+
+const GUID_SEGMENT = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+/** Collections whose next segment is an ID, or a display name when one slips through unresolved */
+const ID_COLLECTIONS = new Set(["workspaces", "items"]);
+/** Collections whose next segment is a user-chosen name */
+const NAME_COLLECTIONS = new Set(["tables"]);
+/** Collections followed by a folder path of any depth, ending in the entry's name */
+const PATH_COLLECTIONS = new Set(["shortcuts", "files"]);
+
+/**
+ * Reduce a URL path to a low-cardinality template: IDs become {id}, table names {name},
+ * and everything after shortcuts/ or Files/ {path}. Any of these would otherwise give
+ * every table, shortcut or file its own metric series.
+ */
+export function toPathTemplate(pathname: string): string {
+  const segments = pathname.split("/");
+  const template: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const previous = i > 0 ? segments[i - 1].toLowerCase() : "";
+    if (PATH_COLLECTIONS.has(previous) && segment) {
+      template.push("{path}");
+      break;
+    }
+    if (GUID_SEGMENT.test(segment) || /^\d+$/.test(segment) || (ID_COLLECTIONS.has(previous) && segment)) {
+      template.push("{id}");
+    } else if (NAME_COLLECTIONS.has(previous) && segment) {
+      template.push("{name}");
+    } else {
+      template.push(segment);
+    }
+  }
+  return template.join("/");
+}
+
+/**
+ * Record one outbound request attempt. status is the HTTP status, or "error" for a network failure.
+ */
+export function recordHttpRequest(client: string, method: string, url: string, status: number | "error", durationMs: number): void {
+  let host = "";
+  let path = url;
+  try {
+    const parsed = new URL(url);
+    host = parsed.host;
+    path = toPathTemplate(parsed.pathname);
+  } catch {
+    // Not an absolute URL (e.g. a SQL server name) — use as-is
+  }
+  recordRequest(client, method, host, path, status, durationMs);
+}
+
+/**
+ * Record a request where host and path template are already known (e.g. non-HTTP protocols).
+ */
+export function recordRequest(client: string, method: string, host: string, path: string, status: number | string, durationMs: number): void {
+  httpRequests.inc({ client, method, host, path, status: String(status) });
+  httpDuration.observe({ client, method, host, path }, durationMs / 1000);
+  if (status === 429) httpThrottled.inc({ client, host });
+}
+
+export function recordLro(status: string, polls: number, durationMs: number): void {
+  lroDuration.observe({ status }, durationMs / 1000);
+  lroPolls.inc({}, polls);
+}
+
+export function recordToolCall(tool: string, isError: boolean, durationMs: number): void {
+  toolCalls.inc({ tool });
+  if (isError) toolErrors.inc({ tool });
+  toolDuration.observe({ tool }, durationMs / 1000);
+}
+
+/** Register a gauge sampled at render time, e.g. active sessions. */
+export function registerGauge(name: string, help: string, collect: () => number): void {
+  registry.push(new Gauge(`${PREFIX}${name}`, help, collect));
+}
+
+/** All metrics in Prometheus text exposition format. */
+export function renderMetrics(): string {
+  return `${registry.flatMap((metric) => metric.render()).join("\n")}\n`;
+}
+
+/**
+ * Periodically write renderMetrics() to METRICS_FILE (for stdio mode, where there is no /metrics).
+ * Writes go to a temp file and are renamed so readers never see a partial file.
+ */
+export function startMetricsFileDump(): void {
+  const file = process.env.METRICS_FILE?.trim();
+  if (!file) return;
+  const parsed = parseInt(process.env.METRICS_INTERVAL_MS ?? "", 10);
+  const interval = Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_DUMP_INTERVAL_MS;
+  const dump = async () => {
+    try {
+      await writeFile(`${file}.tmp`, renderMetrics(), "utf-8");
+      await rename(`${file}.tmp`, file);
+    } catch (error) {
+      logger.warn(COMPONENT, `Failed to write metrics to ${file}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+  setInterval(() => void dump(), interval).unref();
+  logger.info(COMPONENT, `Writing metrics to ${file} every ${interval / 1000}s`);
+}
@@ -0,0 +1,232 @@
+import { FabricClient } from "../client/fabric-client.js";
+import { logger } from "../utils/logger.js";
+import { paginateAll } from "./pagination.js";
+
+const COMPONENT = "NameResolver";
+const LIST_CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_LISTED_MATCHES = 5;
+const GUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface WorkspaceInfo {
+  id: string;
+  displayName: string;
+  capacityId?: string;
+}
+
+interface ItemInfo {
+  id: string;
+  displayName: string;
+  type: string;
+}
+
+interface CachedList<T> {
+  fetchedAt: number;
+  entries: T[];
+}
+
+/** A name matched nothing, or more than one workspace or item. */
+export class NameResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NameResolutionError";
+  }
+}
+
+export function isGuid(value: string): boolean {
+  return GUID.test(value);
+}
+
+/**
+ * Split "Workspace/Item" into its parts. Values without a slash, and GUIDs, are returned
+ * as the item alone.
+ */
+export function splitQualifiedName(value: string): { workspace?: string; item: string } {
+  const slash = value.indexOf("/");
+  if (slash <= 0 || isGuid(value)) return { item: value };
+  return { workspace: value.slice(0, slash), item: value.slice(slash + 1) };
+}
+
+function pickOne<T extends { id: string; displayName: string; type?: string }>(matches: T[], kind: string, name: string): T {
+  if (matches.length === 1) return matches[0];
+  const listed = matches.slice(0, MAX_LISTED_MATCHES)
+    .map((m) => `${m.displayName} (${m.type ? `${m.type}, ` : ""}${m.id})`).join(", ");
+  throw new NameResolutionError(
+    `${kind} name "${name}" is ambiguous: it matches ${matches.length} ${kind.toLowerCase()}s (${listed}). Use the ID instead.`
+  );
+}
+
+/**
+ * Turns workspace and item display names into IDs. Lookups are cached per server (and so
+ * per user in HTTP mode): workspace details indefinitely, name lists for a few minutes.
+ * A name that is not found in a cached list triggers one refresh before failing.
+ */
+export class NameResolver {
+  private workspaceById = new Map<string, WorkspaceInfo>();
+  private workspaceList?: CachedList<WorkspaceInfo>;
+  private itemLists = new Map<string, CachedList<ItemInfo>>();
+
+  constructor(private fabricClient: FabricClient) {}
+
+  /** Name and capacity of a workspace, by ID. */
+  async getWorkspace(workspaceId: string): Promise<WorkspaceInfo> {
+    let workspace = this.workspaceById.get(workspaceId);
+    if (!workspace) {
+      const response = await this.fabricClient.get<{ displayName: string; capacityId?: string }>(`/workspaces/${workspaceId}`);
+      workspace = { id: workspaceId, displayName: response.data.displayName, capacityId: response.data.capacityId };
+      this.workspaceById.set(workspaceId, workspace);
+    }
+    return workspace;
+  }
+
+  async resolveWorkspaceId(value: string): Promise<string> {
+    if (isGuid(value)) return value;
+    const find = (list: WorkspaceInfo[]) => list.filter((w) => w.displayName.toLowerCase() === value.toLowerCase());
+
+    let matches = find(await this.listWorkspaces(false));
+    if (matches.length === 0) matches = find(await this.listWorkspaces(true));
+    if (matches.length === 0) {
+      throw new NameResolutionError(`No workspace named "${value}" is accessible. Use workspace_list to see available workspaces.`);
+    }
+    const workspace = pickOne(matches, "Workspace", value);
+    logger.debug(COMPONENT, `Resolved workspace "${value}"`, { workspaceId: workspace.id });
+    return workspace.id;
+  }
+
+  /** Resolve an item name within a workspace. itemType narrows the search (e.g. "Lakehouse"). */
+  async resolveItemId(workspaceId: string, value: string, itemType?: string): Promise<string> {
+    if (isGuid(value)) return value;
+    const find = (list: ItemInfo[]) => list.filter((i) => i.displayName.toLowerCase() === value.toLowerCase());
+
+    let matches = find(await this.listItems(workspaceId, itemType, false));
+    if (matches.length === 0) matches = find(await this.listItems(workspaceId, itemType, true));
+    const kind = itemType ?? "Item";
+    if (matches.length === 0) {
+      const workspace = this.workspaceById.get(workspaceId)?.displayName ?? workspaceId;
+      throw new NameResolutionError(`No ${kind} named "${value}" in workspace "${workspace}".`);
+    }
+    const item = pickOne(matches, kind, value);
+    logger.debug(COMPONENT, `Resolved ${kind} "${value}"`, { workspaceId, itemId: item.id });
+    return item.id;
+  }
+
+  private async listWorkspaces(refresh: boolean): Promise<WorkspaceInfo[]> {
+    if (!refresh && this.workspaceList && Date.now() - this.workspaceList.fetchedAt < LIST_CACHE_TTL_MS) {
+      return this.workspaceList.entries;
+    }
+    const workspaces = await paginateAll<WorkspaceInfo>(this.fabricClient, "/workspaces");
+    this.workspaceList = { fetchedAt: Date.now(), entries: workspaces };
+    for (const workspace of workspaces) {
+      this.workspaceById.set(workspace.id, {
+        id: workspace.id,
+        displayName: workspace.displayName,
+        capacityId: workspace.capacityId,
+      });
+    }
+    return workspaces;
+  }
+
+  private async listItems(workspaceId: string, itemType: string | undefined, refresh: boolean): Promise<ItemInfo[]> {
+    const key = `${workspaceId}|${itemType ?? "*"}`;
+    const cached = this.itemLists.get(key);
+    if (!refresh && cached && Date.now() - cached.fetchedAt < LIST_CACHE_TTL_MS) {
+      return cached.entries;
+    }
+    const query = itemType ? `?type=${encodeURIComponent(itemType)}` : "";
+    const items = await paginateAll<ItemInfo>(this.fabricClient, `/workspaces/${workspaceId}/items${query}`);
+    this.itemLists.set(key, { fetchedAt: Date.now(), entries: items });
+    return items;
+  }
+}
+
+/** Item ID parameters that accept display names, with the item type each refers to. */
+const ITEM_ID_PARAMS: Record<string, string | undefined> = {
+  lakehouseId: "Lakehouse",
+  warehouseId: "Warehouse",
+  notebookId: "Notebook",
+  pipelineId: "DataPipeline",
+  semanticModelId: "SemanticModel",
+  datasetId: "SemanticModel",
+  reportId: "Report",
+  dataflowId: "Dataflow",
+  eventhouseId: "Eventhouse",
+  parentEventhouseItemId: "Eventhouse",
+  eventstreamId: "Eventstream",
+  reflexId: "Reflex",
+  graphqlApiId: "GraphQLApi",
+  sqlEndpointId: "SQLEndpoint",
+  variableLibraryId: "VariableLibrary",
+  mirroredDatabaseId: "MirroredDatabase",
+  kqlDatabaseId: "KQLDatabase",
+  mlModelId: "MLModel",
+  mlExperimentId: "MLExperiment",
+  copyJobId: "CopyJob",
+  // Any item type, narrowed by an itemType argument when the tool has one
+  itemId: undefined,
+};
+
+const WORKSPACE_ID_PARAMS = ["workspaceId", "targetWorkspaceId"];
+
+/** Tools whose ID parameters are not workspace items (deployment pipelines) or are filters. */
+const UNRESOLVED_TOOL_PREFIXES = ["deployment_pipeline_", "audit_"];
+
+export interface ResolvableParams {
+  workspaces: string[];
+  items: string[];
+}
+
+/** Which of a tool's parameters accept display names. */
+export function getResolvableParams(toolName: string, paramNames: string[]): ResolvableParams {
+  if (UNRESOLVED_TOOL_PREFIXES.some((prefix) => toolName.startsWith(prefix))) {
+    return { workspaces: [], items: [] };
+  }
+  return {
+    workspaces: paramNames.filter((name) => WORKSPACE_ID_PARAMS.includes(name)),
+    // Items are looked up in workspaceId, so tools without one keep plain IDs
+    items: paramNames.includes("workspaceId") ? paramNames.filter((name) => name in ITEM_ID_PARAMS) : [],
+  };
+}
+
+/**
+ * Replace display names in a tool's arguments with IDs. An item given as "Workspace/Item"
+ * also supplies workspaceId when that was omitted.
+ */
+export async function resolveToolArguments(
+  resolver: NameResolver,
+  params: ResolvableParams,
+  args: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const resolved = { ...args };
+
+  for (const param of params.items) {
+    const value = resolved[param];
+    if (typeof value !== "string") continue;
+    const { workspace, item } = splitQualifiedName(value);
+    if (!workspace) continue;
+    const workspaceId = await resolver.resolveWorkspaceId(workspace);
+    if (typeof resolved.workspaceId === "string" && await resolver.resolveWorkspaceId(resolved.workspaceId) !== workspaceId) {
+      throw new NameResolutionError(`${param} "${value}" names a different workspace than workspaceId "${resolved.workspaceId}"`);
+    }
+    resolved.workspaceId = workspaceId;
+    resolved[param] = item;
+  }
+
+  for (const param of params.workspaces) {
+    const value = resolved[param];
+    if (typeof value === "string") resolved[param] = await resolver.resolveWorkspaceId(value);
+  }
+
+  for (const param of params.items) {
+    const value = resolved[param];
+    if (typeof value !== "string" || isGuid(value)) continue;
+    if (typeof resolved.workspaceId !== "string") {
+      throw new NameResolutionError(`workspaceId is required to find ${param} "${value}" (or pass it as "Workspace/${value}")`);
+    }
+    const itemType = ITEM_ID_PARAMS[param] ?? (typeof resolved.itemType === "string" ? resolved.itemType : undefined);
+    resolved[param] = await resolver.resolveItemId(resolved.workspaceId, value, itemType);
+  }
+
+  if (params.items.length > 0 && typeof resolved.workspaceId !== "string") {
+    throw new NameResolutionError("workspaceId is required (or give the item as \"Workspace/Item\")");
+  }
+  return resolved;
+}
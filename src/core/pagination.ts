@@ -4,23 +4,114 @@ import type { PaginatedResponse } from "./types.js";
 
 const COMPONENT = "Pagination";
 
+/** Where a page starts. Neither set means the first page. */
+interface PageLocation {
+  continuationToken?: string;
+  /** Only used when the API returns a continuationUri without a token */
+  continuationUri?: string;
+}
+
+/**
+ * Decoded form of the opaque cursor handed back to callers. Only the continuationToken is
+ * kept: a cursor comes back from the caller, so a URI in it could send the request, and
+ * the bearer token with it, to any host.
+ */
+interface CursorState {
+  path: string;
+  continuationToken?: string;
+  /** Entries of the page to skip, because an earlier call already returned them */
+  offset: number;
+}
+
+export interface PageRequest<T> {
+  /** nextCursor from an earlier call for the same path */
+  cursor?: string;
+  /** Stop once this many accepted entries are collected */
+  limit?: number;
+  /** Entries it rejects are skipped and don't count toward limit */
+  accept?: (entry: T) => boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Present when entries remain; pass it back as cursor to continue */
+  nextCursor?: string;
+}
+
+function pageUrl(path: string, location: PageLocation): string {
+  if (location.continuationToken) {
+    const separator = path.includes("?") ? "&" : "?";
+    return `${path}${separator}continuationToken=${encodeURIComponent(location.continuationToken)}`;
+  }
+  return location.continuationUri ?? path;
+}
+
+function nextLocation(data: Record<string, unknown>): PageLocation | undefined {
+  const continuationToken = data.continuationToken as string | null | undefined;
+  const continuationUri = data.continuationUri as string | null | undefined;
+  if (continuationToken) return { continuationToken };
+  if (continuationUri) {
+    const token = new URL(continuationUri, "http://localhost").searchParams.get("continuationToken");
+    return token ? { continuationToken: token } : { continuationUri };
+  }
+  return undefined;
+}
+
+async function fetchPage(client: FabricClient, url: string): Promise<Record<string, unknown>> {
+  const response = url.startsWith("http")
+    ? await client.getFullUrl<Record<string, unknown>>(url)
+    : await client.get<Record<string, unknown>>(url);
+  return response.data;
+}
+
+function encodeCursor(path: string, location: PageLocation, offset: number): string {
+  if (location.continuationUri) {
+    throw new Error(`Cannot resume ${path}: the API returned a continuationUri without a continuationToken. Repeat the call without top to fetch everything.`);
+  }
+  const state: CursorState = { path, continuationToken: location.continuationToken, offset };
+  return Buffer.from(JSON.stringify(state), "utf-8").toString("base64url");
+}
+
+function decodeCursor(cursor: string, path: string): CursorState {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as CursorState;
+  } catch {
+    throw new Error("Invalid cursor: pass nextCursor from a previous call unchanged");
+  }
+  if (state?.path !== path || typeof state.offset !== "number") {
+    throw new Error("This cursor belongs to a different listing. Repeat the call without cursor to start over.");
+  }
+  if (state.continuationToken !== undefined && typeof state.continuationToken !== "string") {
+    throw new Error("Invalid cursor: pass nextCursor from a previous call unchanged");
+  }
+  return { path, continuationToken: state.continuationToken, offset: state.offset };
+}
+
+/**
+ * Whether a cursor was issued for the listing at `path`. Lets a tool with more than one
+ * way of listing (such as an API call with a SQL fallback) route a cursor before fetching.
+ */
+export function isCursorFor(cursor: string, path: string): boolean {
+  try {
+    return (JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as CursorState)?.path === path;
+  } catch {
+    return false;
+  }
+}
+
 export async function paginateAll<T>(
   client: FabricClient,
   path: string,
   resultKey: string = "value"
 ): Promise<T[]> {
   const all: T[] = [];
-  let currentPath: string | null = path;
+  let location: PageLocation | undefined = {};
   let pageCount = 0;
 
-  while (currentPath) {
+  while (location) {
     pageCount++;
-    const isFullUrl = currentPath.startsWith("http");
-    const response = isFullUrl
-      ? await client.getFullUrl<Record<string, unknown>>(currentPath)
-      : await client.get<Record<string, unknown>>(currentPath);
-
-    const data = response.data;
+    const data = await fetchPage(client, pageUrl(path, location));
     const items = (data[resultKey] as T[]) ?? [];
     all.push(...items);
 
@@ -29,17 +120,7 @@ export async function paginateAll<T>(
       totalSoFar: all.length,
     });
 
-    const continuationUri = data.continuationUri as string | null | undefined;
-    const continuationToken = data.continuationToken as string | null | undefined;
-
-    if (continuationUri) {
-      currentPath = continuationUri;
-    } else if (continuationToken) {
-      const separator = path.includes("?") ? "&" : "?";
-      currentPath = `${path}${separator}continuationToken=${continuationToken}`;
-    } else {
-      currentPath = null;
-    }
+    location = nextLocation(data);
   }
 
   logger.debug(COMPONENT, `Pagination complete for ${path}`, {
@@ -49,3 +130,66 @@ export async function paginateAll<T>(
 
   return all;
 }
+
+/**
+ * Like paginateAll, but stops fetching once `limit` accepted entries are collected and
+ * returns a cursor to resume from. The cursor records the page's continuationToken and
+ * how far into that page this call got, so no entry is skipped or repeated. A
+ * continuationUri is only followed within the call, never stored in the cursor.
+ */
+export async function paginatePage<T>(
+  client: FabricClient,
+  path: string,
+  request: PageRequest<T> = {},
+  resultKey: string = "value"
+): Promise<Page<T>> {
+  const start = request.cursor ? decodeCursor(request.cursor, path) : undefined;
+  let location: PageLocation | undefined = start ? { continuationToken: start.continuationToken } : {};
+  let skip = start?.offset ?? 0;
+  const items: T[] = [];
+  let pageCount = 0;
+
+  while (location) {
+    pageCount++;
+    const data = await fetchPage(client, pageUrl(path, location));
+    const entries = (data[resultKey] as T[]) ?? [];
+    const next = nextLocation(data);
+
+    for (let index = skip; index < entries.length; index++) {
+      if (request.accept && !request.accept(entries[index])) continue;
+      items.push(entries[index]);
+      if (request.limit !== undefined && items.length >= request.limit) {
+        const resume = index + 1 < entries.length ? { location, offset: index + 1 } : next && { location: next, offset: 0 };
+        logger.debug(COMPONENT, `Stopped after page ${pageCount} for ${path}`, { items: items.length, more: !!resume });
+        return { items, nextCursor: resume ? encodeCursor(path, resume.location, resume.offset) : undefined };
+      }
+    }
+
+    skip = 0;
+    location = next;
+  }
+
+  logger.debug(COMPONENT, `Pagination complete for ${path}`, { totalPages: pageCount, totalItems: items.length });
+  return { items };
+}
+
+/**
+ * paginatePage for entries already in memory, such as rows returned by a SQL query. The
+ * cursor records how far into the entries the previous call got.
+ */
+export function pageEntries<T>(entries: T[], path: string, request: PageRequest<T> = {}): Page<T> {
+  const start = request.cursor ? decodeCursor(request.cursor, path) : undefined;
+  if (start?.continuationToken !== undefined) {
+    throw new Error("This cursor belongs to a different listing. Repeat the call without cursor to start over.");
+  }
+  const items: T[] = [];
+  for (let index = start?.offset ?? 0; index < entries.length; index++) {
+    if (request.accept && !request.accept(entries[index])) continue;
+    items.push(entries[index]);
+    if (request.limit !== undefined && items.length >= request.limit) {
+      const more = index + 1 < entries.length;
+      return { items, nextCursor: more ? encodeCursor(path, {}, index + 1) : undefined };
+    }
+  }
+  return { items };
+}
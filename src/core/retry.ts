@@ -0,0 +1,212 @@
+import { SpanStatusCode } from "@opentelemetry/api";
+import { logger } from "../utils/logger.js";
+import { getToolContext, sleep } from "./tool-context.js";
+import { recordHttpRequest } from "./metrics.js";
+import { withSpan } from "./tracing.js";
+import { interceptDryRun } from "./dry-run.js";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  maxElapsedMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  /** Override for a POST that only reads (e.g. a KQL query), so it gets the full retry set */
+  idempotent?: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_MAX_ELAPSED_MS = 120000; // 2 minutes
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+/** 429 and 503 mean the service rejected the request before acting on it. */
+const NON_IDEMPOTENT_RETRYABLE_STATUS_CODES = new Set([429, 503]);
+/** Failures before a connection exists, so the request body was never sent. */
+const CONNECT_NETWORK_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+const RETRYABLE_NETWORK_CODES = new Set([
+  ...CONNECT_NETWORK_CODES,
+  "ECONNRESET",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+]);
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: parsePositiveInt(process.env.RETRY_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS),
+    maxElapsedMs: parsePositiveInt(process.env.RETRY_MAX_ELAPSED_MS, DEFAULT_MAX_ELAPSED_MS),
+    baseDelayMs: DEFAULT_BASE_DELAY_MS,
+    maxDelayMs: DEFAULT_MAX_DELAY_MS,
+  };
+}
+
+/**
+ * Parse a Retry-After header value (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // Full jitter: spread retries from concurrent callers across the whole window
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * POST creates items, starts jobs and deploys; resending one that may have reached the
+ * service can do that twice.
+ */
+function isIdempotent(method: string): boolean {
+  return method.toUpperCase() !== "POST";
+}
+
+function isRetryableNetworkError(error: unknown, idempotent: boolean): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error.name === "AbortError") return false;
+  const cause = (error as Error & { cause?: { code?: string } }).cause;
+  const code = cause?.code ?? (error as Error & { code?: string }).code;
+  if (!idempotent) return code !== undefined && CONNECT_NETWORK_CODES.has(code);
+  if (code && RETRYABLE_NETWORK_CODES.has(code)) return true;
+  // undici reports socket-level failures as a bare "fetch failed" TypeError
+  return error instanceof TypeError && error.message === "fetch failed";
+}
+
+/**
+ * A single fetch() in its own span, recorded in the request metrics.
+ */
+function fetchAttempt(component: string, method: string, url: string, init: RequestInit, attempt: number): Promise<Response> {
+  const attributes = {
+    "http.request.method": method,
+    "url.full": url,
+    "server.address": new URL(url).hostname,
+    "http.request.resend_count": attempt - 1,
+    "fabric.client": component,
+  };
+  return withSpan(`HTTP ${method}`, attributes, async (span) => {
+    const start = Date.now();
+    try {
+      const response = await fetch(url, init);
+      recordHttpRequest(component, method, url, response.status, Date.now() - start);
+      span.setAttribute("http.response.status_code", response.status);
+      if (response.status >= 400) span.setStatus({ code: SpanStatusCode.ERROR });
+      const requestId = response.headers.get("x-ms-request-id") ?? response.headers.get("requestid");
+      if (requestId) {
+        span.setAttribute("x-ms-request-id", requestId);
+        const context = getToolContext();
+        if (context) context.fabricRequestId = requestId;
+      }
+      return response;
+    } catch (error) {
+      recordHttpRequest(component, method, url, "error", Date.now() - start);
+      throw error;
+    }
+  });
+}
+
+/**
+ * fetch() with retries for throttling (429), transient gateway errors (502/503/504)
+ * and network resets. A POST is only retried on 429/503 or when the connection could
+ * not be established, since any other failure may come after the service acted on it.
+ * Honors Retry-After, otherwise uses exponential backoff with jitter.
+ * Returns the last response once attempts or the time budget are exhausted, so callers
+ * keep their normal error handling for the final failure.
+ * Unless init.signal is given, the request is bound to the current tool call's abort
+ * signal so a client-side cancellation aborts in-flight requests and pending backoff.
+ */
+export async function fetchWithRetry(
+  component: string,
+  method: string,
+  url: string,
+  init: RequestInit,
+  options: RetryOptions = {}
+): Promise<Response> {
+  const policy = options.policy ?? getRetryPolicy();
+  const context = getToolContext();
+  interceptDryRun(context, method, url, init);
+  const signal = init.signal ?? context?.signal;
+  const requestInit: RequestInit = signal ? { ...init, signal } : init;
+  const start = Date.now();
+  const idempotent = options.idempotent ?? isIdempotent(method);
+  const retryableStatuses = idempotent ? RETRYABLE_STATUS_CODES : NON_IDEMPOTENT_RETRYABLE_STATUS_CODES;
+  let attempt = 0;
+
+  while (true) {
+    attempt++;
+    let response: Response;
+    try {
+      response = await fetchAttempt(component, method, url, requestInit, attempt);
+    } catch (error) {
+      const delayMs = backoffDelay(policy, attempt);
+      if (
+        !isRetryableNetworkError(error, idempotent) ||
+        attempt >= policy.maxAttempts ||
+        Date.now() - start + delayMs > policy.maxElapsedMs
+      ) {
+        throw error;
+      }
+      logger.warn(component, `Network error on ${method} ${url}, retrying`, {
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await sleep(delayMs, signal ?? undefined);
+      continue;
+    }
+
+    if (!retryableStatuses.has(response.status)) {
+      return response;
+    }
+
+    const requestId =
+      response.headers.get("x-ms-request-id") ?? response.headers.get("requestid") ?? undefined;
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+    const delayMs = Math.min(retryAfterMs ?? backoffDelay(policy, attempt), policy.maxElapsedMs);
+
+    if (attempt >= policy.maxAttempts || Date.now() - start + delayMs > policy.maxElapsedMs) {
+      logger.warn(component, `Giving up on ${method} ${url} after ${attempt} attempt(s)`, {
+        status: response.status,
+        requestId,
+        totalMs: Date.now() - start,
+      });
+      return response;
+    }
+
+    logger.warn(component, `HTTP ${response.status} on ${method} ${url}, retrying`, {
+      attempt,
+      maxAttempts: policy.maxAttempts,
+      delayMs,
+      retryAfterMs,
+      requestId,
+    });
+    // Release the connection before waiting
+    await response.body?.cancel().catch(() => undefined);
+    await sleep(delayMs, signal ?? undefined);
+  }
+}
@@ -0,0 +1,101 @@
+import { splitQualifiedName } from "./name-resolver.js";
+import { getOperationClass } from "./tool-catalog.js";
+
+export interface ContextRef {
+  id: string;
+  displayName: string;
+}
+
+export type DefaultItemKind = "lakehouse" | "warehouse" | "semanticModel";
+
+/** Item parameters that fall back to a session default, and the default they use. */
+export const DEFAULT_ITEM_PARAMS: Record<string, DefaultItemKind> = {
+  lakehouseId: "lakehouse",
+  warehouseId: "warehouse",
+  semanticModelId: "semanticModel",
+};
+
+/** Tools that never use the defaults: the context tools themselves, and ID-only tools. */
+const EXCLUDED_TOOL_PREFIXES = ["context_", "deployment_pipeline_", "audit_"];
+
+export interface SessionContextSnapshot {
+  workspace?: ContextRef;
+  lakehouse?: ContextRef;
+  warehouse?: ContextRef;
+  semanticModel?: ContextRef;
+}
+
+export interface AppliedDefaults {
+  args: Record<string, unknown>;
+  /** Human-readable description of each default that was filled in */
+  used: string[];
+}
+
+/**
+ * Default workspace and items for one MCP session, set with context_set_workspace. Each
+ * session has its own server instance, so this lives alongside it rather than in a
+ * shared store.
+ */
+export class SessionDefaults {
+  private workspace?: ContextRef;
+  private items: Partial<Record<DefaultItemKind, ContextRef>> = {};
+
+  set(workspace: ContextRef, items: Partial<Record<DefaultItemKind, ContextRef>>): void {
+    this.workspace = workspace;
+    this.items = { ...items };
+  }
+
+  clear(): void {
+    this.workspace = undefined;
+    this.items = {};
+  }
+
+  snapshot(): SessionContextSnapshot {
+    return { workspace: this.workspace, ...this.items };
+  }
+
+  /**
+   * Fill omitted workspaceId and default-able item arguments. Item defaults only apply
+   * when the call targets the default workspace, so they never leak into another one.
+   * itemParams are the item parameters that take names: one given as "Workspace/Item"
+   * supplies the workspace, so the default workspace is not used.
+   */
+  apply(params: string[], args: Record<string, unknown>, itemParams: string[] = []): AppliedDefaults {
+    const filled = { ...args };
+    const used: string[] = [];
+    if (!this.workspace) return { args: filled, used };
+
+    const qualifiedItem = [...params, ...itemParams].some((param) =>
+      typeof filled[param] === "string" && splitQualifiedName(filled[param] as string).workspace !== undefined);
+    if (params.includes("workspaceId") && filled.workspaceId === undefined && !qualifiedItem) {
+      filled.workspaceId = this.workspace.id;
+      used.push(`workspace "${this.workspace.displayName}" (${this.workspace.id})`);
+    }
+
+    const workspaceId = typeof filled.workspaceId === "string" ? filled.workspaceId.toLowerCase() : undefined;
+    const inDefaultWorkspace = workspaceId === this.workspace.id.toLowerCase() ||
+      workspaceId === this.workspace.displayName.toLowerCase();
+    if (!inDefaultWorkspace) return { args: filled, used };
+
+    for (const param of params) {
+      const kind = DEFAULT_ITEM_PARAMS[param];
+      const item = kind ? this.items[kind] : undefined;
+      if (item && filled[param] === undefined) {
+        filled[param] = item.id;
+        used.push(`${kind} "${item.displayName}" (${item.id})`);
+      }
+    }
+    return { args: filled, used };
+  }
+}
+
+/**
+ * Parameters of a tool that can fall back to the session defaults. Deletes never do: the
+ * workspace and item to delete must always be named in the call.
+ */
+export function getDefaultableParams(toolName: string, paramNames: string[]): string[] {
+  if (EXCLUDED_TOOL_PREFIXES.some((prefix) => toolName.startsWith(prefix))) return [];
+  if (getOperationClass(toolName) === "delete") return [];
+  if (!paramNames.includes("workspaceId")) return [];
+  return paramNames.filter((name) => name === "workspaceId" || name in DEFAULT_ITEM_PARAMS);
+}
@@ -0,0 +1,163 @@
+import { logger } from "../utils/logger.js";
+
+const COMPONENT = "Sessions";
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+const DEFAULT_MAX_SESSIONS = 100;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface SessionLimits {
+  idleTimeoutMs: number;
+  maxSessions: number;
+}
+
+export interface SessionEntry<T> {
+  value: T;
+  createdAt: number;
+  lastActivityAt: number;
+  requestCount: number;
+}
+
+export interface SessionStats {
+  active: number;
+  /** Sessions whose initialize request is still being handled */
+  pending: number;
+  maxSessions: number;
+  idleTimeoutMs: number;
+  evicted: number;
+  /** Resident set size of the whole process */
+  rssBytes: number;
+  /**
+   * Process RSS growth since the store was created, divided by the active sessions. A rough
+   * process-level figure, not per-session accounting: the growth includes caches, garbage
+   * and anything else the process allocated, whether or not a session holds it.
+   */
+  rssGrowthPerSessionBytes: number;
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getSessionLimits(): SessionLimits {
+  return {
+    idleTimeoutMs: parsePositiveInt(process.env.SESSION_IDLE_TIMEOUT_MS, DEFAULT_IDLE_TIMEOUT_MS),
+    maxSessions: parsePositiveInt(process.env.MAX_SESSIONS, DEFAULT_MAX_SESSIONS),
+  };
+}
+
+/**
+ * Tracks HTTP sessions by ID, evicting ones that have been idle longer than
+ * the configured timeout. close is called on eviction and on shutdown.
+ */
+export class SessionStore<T> {
+  private sessions = new Map<string, SessionEntry<T>>();
+  private reserved = 0;
+  private evicted = 0;
+  /** Process RSS before any session existed */
+  private baselineRssBytes = process.memoryUsage.rss();
+  private timer: NodeJS.Timeout;
+
+  constructor(
+    private close: (value: T) => Promise<void>,
+    readonly limits: SessionLimits = getSessionLimits()
+  ) {
+    const interval = Math.min(MAX_SWEEP_INTERVAL_MS, Math.max(1000, Math.floor(limits.idleTimeoutMs / 2)));
+    this.timer = setInterval(() => void this.evictIdle(), interval);
+    this.timer.unref();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Claim a slot for a session that is about to be initialized, or return false at the
+   * limit. Synchronous, so concurrent initialize requests cannot all pass the check
+   * before any of them is added. Hand the slot over with add() or give it back with release().
+   */
+  reserve(): boolean {
+    if (this.sessions.size + this.reserved >= this.limits.maxSessions) return false;
+    this.reserved++;
+    return true;
+  }
+
+  release(): void {
+    if (this.reserved > 0) this.reserved--;
+  }
+
+  /** Add an initialized session, taking over the slot claimed by reserve(). */
+  add(id: string, value: T): void {
+    const now = Date.now();
+    this.release();
+    this.sessions.set(id, { value, createdAt: now, lastActivityAt: now, requestCount: 0 });
+    logger.debug(COMPONENT, `Session opened (${this.sessions.size}/${this.limits.maxSessions})`, { sessionId: id });
+  }
+
+  get(id: string): T | undefined {
+    return this.sessions.get(id)?.value;
+  }
+
+  /** Mark a session active, resetting its idle timer. */
+  touch(id: string): void {
+    const entry = this.sessions.get(id);
+    if (!entry) return;
+    entry.lastActivityAt = Date.now();
+    entry.requestCount++;
+  }
+
+  delete(id: string): void {
+    if (this.sessions.delete(id)) {
+      logger.debug(COMPONENT, `Session closed (${this.sessions.size}/${this.limits.maxSessions})`, { sessionId: id });
+    }
+  }
+
+  stats(): SessionStats {
+    const rssBytes = process.memoryUsage.rss();
+    const active = this.sessions.size;
+    return {
+      active,
+      pending: this.reserved,
+      maxSessions: this.limits.maxSessions,
+      idleTimeoutMs: this.limits.idleTimeoutMs,
+      evicted: this.evicted,
+      rssBytes,
+      rssGrowthPerSessionBytes: active > 0 ? Math.round(Math.max(0, rssBytes - this.baselineRssBytes) / active) : 0,
+    };
+  }
+
+  async evictIdle(): Promise<void> {
+    const cutoff = Date.now() - this.limits.idleTimeoutMs;
+    const idle = [...this.sessions].filter(([, entry]) => entry.lastActivityAt < cutoff);
+    for (const [id, entry] of idle) {
+      this.sessions.delete(id);
+      this.evicted++;
+      logger.info(COMPONENT, "Evicting idle session", {
+        sessionId: id,
+        idleMs: Date.now() - entry.lastActivityAt,
+        requests: entry.requestCount,
+      });
+      await this.closeQuietly(id, entry.value);
+    }
+  }
+
+  /** Close every session and stop the eviction timer. */
+  async closeAll(): Promise<void> {
+    clearInterval(this.timer);
+    const all = [...this.sessions];
+    this.sessions.clear();
+    await Promise.all(all.map(([id, entry]) => this.closeQuietly(id, entry.value)));
+  }
+
+  private async closeQuietly(id: string, value: T): Promise<void> {
+    try {
+      await this.close(value);
+    } catch (error) {
+      logger.warn(COMPONENT, "Error closing session", {
+        sessionId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
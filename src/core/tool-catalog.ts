@@ -0,0 +1,261 @@
+/**
+ * What a tool does to Fabric state. Everything other than "read" is a write for the
+ * purposes of dry-run, auditing and the workspace guard. "execute" covers running,
+ * refreshing, cancelling and exporting existing items without changing their definitions.
+ */
+export type OperationClass = "read" | "create" | "update" | "delete" | "execute" | "deploy" | "share";
+
+/** Every tool that changes state, tagged with its operation class. Unlisted tools are reads. */
+const WRITE_TOOLS: Record<string, Exclude<OperationClass, "read">> = {
+  // Workspace
+  workspace_create: "create",
+  workspace_update: "update",
+  workspace_delete: "delete",
+
+  // Generic items
+  item_create_with_definition: "create",
+  item_update_definition: "update",
+
+  // Lakehouse
+  lakehouse_create: "create",
+  lakehouse_update: "update",
+  lakehouse_delete: "delete",
+  lakehouse_update_definition: "update",
+  lakehouse_load_table: "execute",
+  lakehouse_create_shortcut: "create",
+  lakehouse_delete_shortcut: "delete",
+
+  // Warehouse
+  warehouse_create: "create",
+  warehouse_update: "update",
+  warehouse_delete: "delete",
+  warehouse_update_definition: "update",
+
+  // Notebook
+  notebook_create: "create",
+  notebook_update: "update",
+  notebook_delete: "delete",
+  notebook_update_definition: "update",
+  notebook_run: "execute",
+  notebook_cancel_run: "execute",
+
+  // Pipeline
+  pipeline_create: "create",
+  pipeline_update: "update",
+  pipeline_delete: "delete",
+  pipeline_update_definition: "update",
+  pipeline_run: "execute",
+  pipeline_cancel_run: "execute",
+  pipeline_create_schedule: "create",
+  pipeline_update_schedule: "update",
+  pipeline_delete_schedule: "delete",
+
+  // Semantic model
+  semantic_model_create_bim: "create",
+  semantic_model_create_tmdl: "create",
+  semantic_model_update_details: "update",
+  semantic_model_update_bim: "update",
+  semantic_model_update_tmdl: "update",
+  semantic_model_delete: "delete",
+  semantic_model_refresh: "execute",
+  semantic_model_take_over: "update",
+
+  // Report
+  report_create_definition: "create",
+  report_update: "update",
+  report_update_definition: "update",
+  report_delete: "delete",
+  report_clone: "create",
+  report_rebind: "update",
+  report_export: "execute",
+
+  // Dataflow
+  dataflow_create: "create",
+  dataflow_update: "update",
+  dataflow_delete: "delete",
+  dataflow_refresh: "execute",
+
+  // Eventhouse
+  eventhouse_create: "create",
+  eventhouse_update: "update",
+  eventhouse_delete: "delete",
+
+  // Eventstream
+  eventstream_create: "create",
+  eventstream_update: "update",
+  eventstream_delete: "delete",
+  eventstream_update_definition: "update",
+
+  // Reflex
+  reflex_create: "create",
+  reflex_update: "update",
+  reflex_delete: "delete",
+  reflex_update_definition: "update",
+
+  // GraphQL API
+  graphql_api_create: "create",
+  graphql_api_update: "update",
+  graphql_api_delete: "delete",
+
+  // Variable library
+  variable_library_create: "create",
+  variable_library_update: "update",
+  variable_library_delete: "delete",
+  variable_library_update_definition: "update",
+
+  // Git integration
+  git_connect: "update",
+  git_disconnect: "update",
+  git_initialize_connection: "update",
+  git_commit_to_git: "update",
+  git_update_from_git: "update",
+  git_update_credentials: "update",
+
+  // Deployment pipeline
+  deployment_pipeline_create: "create",
+  deployment_pipeline_update: "update",
+  deployment_pipeline_delete: "delete",
+  deployment_pipeline_assign_workspace: "update",
+  deployment_pipeline_unassign_workspace: "update",
+  deployment_pipeline_deploy: "deploy",
+
+  // Mirrored database
+  mirrored_database_create: "create",
+  mirrored_database_update: "update",
+  mirrored_database_delete: "delete",
+  mirrored_database_update_definition: "update",
+  mirrored_database_start_mirroring: "execute",
+  mirrored_database_stop_mirroring: "execute",
+
+  // KQL database
+  kql_database_create: "create",
+  kql_database_update: "update",
+  kql_database_delete: "delete",
+  kql_database_update_definition: "update",
+
+  // ML model / experiment
+  ml_model_create: "create",
+  ml_model_update: "update",
+  ml_model_delete: "delete",
+  ml_experiment_create: "create",
+  ml_experiment_update: "update",
+  ml_experiment_delete: "delete",
+
+  // Copy job
+  copy_job_create: "create",
+  copy_job_update: "update",
+  copy_job_delete: "delete",
+  copy_job_update_definition: "update",
+  copy_job_run: "execute",
+  copy_job_cancel_run: "execute",
+
+  // External data share
+  external_data_share_create: "share",
+  external_data_share_revoke: "share",
+};
+
+export function getOperationClass(toolName: string): OperationClass {
+  return WRITE_TOOLS[toolName] ?? "read";
+}
+
+export function isWriteTool(toolName: string): boolean {
+  return getOperationClass(toolName) !== "read";
+}
+
+/** Fabric item type each tool family acts on, keyed by tool name prefix. */
+const ITEM_TYPE_PREFIXES: Array<[prefix: string, itemType: string]> = [
+  ["lakehouse_", "Lakehouse"],
+  ["warehouse_", "Warehouse"],
+  ["notebook_", "Notebook"],
+  ["pipeline_", "DataPipeline"],
+  ["semantic_model_", "SemanticModel"],
+  ["report_", "Report"],
+  ["dataflow_", "Dataflow"],
+  ["eventhouse_", "Eventhouse"],
+  ["eventstream_", "Eventstream"],
+  ["reflex_", "Reflex"],
+  ["graphql_api_", "GraphQLApi"],
+  ["variable_library_", "VariableLibrary"],
+  ["mirrored_database_", "MirroredDatabase"],
+  ["kql_database_", "KQLDatabase"],
+  ["ml_model_", "MLModel"],
+  ["ml_experiment_", "MLExperiment"],
+  ["copy_job_", "CopyJob"],
+];
+
+/**
+ * The item type a tool acts on, or undefined for workspace-level and generic tools
+ * (workspace_*, git_*, deployment_pipeline_*, item_*, ...).
+ */
+export function getToolItemType(toolName: string): string | undefined {
+  return ITEM_TYPE_PREFIXES.find(([prefix]) => toolName.startsWith(prefix))?.[1];
+}
+
+/** Toolset (as named in FABRIC_TOOLSETS) each tool belongs to, keyed by tool name prefix. */
+const TOOLSET_PREFIXES: Array<[prefix: string, toolset: string]> = [
+  ["auth_", "auth"],
+  ["workspace_", "workspace"],
+  ["item_", "item"],
+  ["lakehouse_", "lakehouse"],
+  ["warehouse_", "warehouse"],
+  ["notebook_", "notebook"],
+  ["pipeline_", "pipeline"],
+  ["semantic_model_", "semantic-model"],
+  ["report_", "report"],
+  ["dataflow_", "dataflow"],
+  ["eventhouse_", "eventhouse"],
+  ["eventstream_", "eventstream"],
+  ["reflex_", "reflex"],
+  ["graphql_api_", "graphql-api"],
+  ["sql_endpoint_", "sql"],
+  ["variable_library_", "variable-library"],
+  ["git_", "git"],
+  ["deployment_pipeline_", "deployment-pipeline"],
+  ["mirrored_database_", "mirrored-database"],
+  ["kql_database_", "kql-database"],
+  ["ml_model_", "ml-model"],
+  ["ml_experiment_", "ml-experiment"],
+  ["copy_job_", "copy-job"],
+  ["external_data_share_", "external-data-share"],
+  ["operation_", "operation"],
+  ["audit_", "audit"],
+  ["context_", "context"],
+];
+
+export const TOOLSETS: readonly string[] = TOOLSET_PREFIXES.map(([, toolset]) => toolset);
+
+export function getToolset(toolName: string): string | undefined {
+  return TOOLSET_PREFIXES.find(([prefix]) => toolName.startsWith(prefix))?.[1];
+}
+
+/**
+ * Read tools whose effect depends on their input (a T-SQL batch, a KQL control command,
+ * a GraphQL mutation). They stay registered in read-only mode, where the workspace guard
+ * refuses their writes.
+ */
+const INPUT_DEPENDENT_TOOLS = new Set(["sql_endpoint_execute_query", "eventhouse_execute_kql_command", "graphql_api_execute_query"]);
+
+export interface ToolAnnotationHints {
+  readOnlyHint: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint: boolean;
+}
+
+/** MCP tool annotations derived from the operation class. */
+export function getToolAnnotations(toolName: string): ToolAnnotationHints {
+  const operation = getOperationClass(toolName);
+  if (INPUT_DEPENDENT_TOOLS.has(toolName)) {
+    return { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true };
+  }
+  if (operation === "read") {
+    return { readOnlyHint: true, openWorldHint: true };
+  }
+  return {
+    readOnlyHint: false,
+    // Creates only add; everything else can overwrite, remove or trigger arbitrary work
+    destructiveHint: operation !== "create",
+    idempotentHint: operation === "update" || operation === "delete",
+    openWorldHint: true,
+  };
+}
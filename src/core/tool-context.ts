@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { logger } from "../utils/logger.js";
+import type { CallerIdentity, MutationRecord } from "./audit.js";
+import type { DryRunPlan } from "./dry-run.js";
+import type { ConfirmationRequest } from "./confirmation.js";
+
+export type ProgressReporter = (progress: number, total?: number, message?: string) => Promise<void>;
+
+/**
+ * Per-call state for the tool currently executing. Propagated through async calls so
+ * core helpers (LRO polling, HTTP clients) can honor cancellation and report progress
+ * without every tool threading these through by hand.
+ */
+export interface ToolContext {
+  toolName: string;
+  /** JSON-RPC request ID of the tool call */
+  requestId: string | number;
+  /** MCP session ID (HTTP transport only) */
+  sessionId?: string;
+  signal: AbortSignal;
+  reportProgress?: ProgressReporter;
+  /** Authenticated caller (HTTP mode) */
+  caller?: CallerIdentity;
+  /** Set by the workspace guard when the call writes to a workspace; triggers an audit entry */
+  mutation?: MutationRecord;
+  /** x-ms-request-id of the most recent API response in this call */
+  fabricRequestId?: string;
+  /** Present when this is a dry run: state-changing requests are captured here instead of sent */
+  dryRun?: DryRunPlan;
+  /** Present when the call must be approved by the user before the handler runs */
+  confirmation?: ConfirmationRequest;
+}
+
+const storage = new AsyncLocalStorage<ToolContext>();
+
+export function getToolContext(): ToolContext | undefined {
+  return storage.getStore();
+}
+
+/** Run fn with context as the current ToolContext. */
+export function runWithToolContext<T>(context: ToolContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+logger.setContextProvider(() => {
+  const context = storage.getStore();
+  if (!context) return undefined;
+  return { requestId: context.requestId, toolName: context.toolName, sessionId: context.sessionId };
+});
+
+/**
+ * Sleep that rejects as soon as the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,283 @@
+import { SpanStatusCode } from "@opentelemetry/api";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger.js";
+import { recordToolCall } from "./metrics.js";
+import { withSpan } from "./tracing.js";
+import { callerFromClaims, findTarget, redactArguments, writeAuditEntry } from "./audit.js";
+import type { AuditOutcome, CallerIdentity, MutationRecord } from "./audit.js";
+import { formatDryRunResult, isGlobalDryRun } from "./dry-run.js";
+import { isWriteTool } from "./tool-catalog.js";
+import { resolveToolArguments } from "./name-resolver.js";
+import type { NameResolver } from "./name-resolver.js";
+import { formatToolError } from "./errors.js";
+import type { SessionDefaults } from "./session-defaults.js";
+import type { FabricClient } from "../client/fabric-client.js";
+import { confirmOperation, ConfirmationRequiredError, isConfirmableTool, requiresConfirmation } from "./confirmation.js";
+import type { ConfirmationRequest, ElicitAnswer } from "./confirmation.js";
+import { runWithToolContext } from "./tool-context.js";
+import type { ProgressReporter, ToolContext } from "./tool-context.js";
+import type { ToolShape } from "./tool-shape.js";
+
+const COMPONENT = "ToolHandler";
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export type ToolHandler = (...args: unknown[]) => unknown;
+
+type ToolResult = { isError?: boolean; content?: Array<{ type: string; text?: string }> } | undefined;
+
+export interface InstrumentOptions {
+  /** Identity for audit entries when the request carries no auth info (stdio mode) */
+  localCaller?: () => CallerIdentity | undefined;
+  /** Resolves display names given for workspace and item ID parameters */
+  nameResolver?: NameResolver;
+  /** Session defaults used when workspaceId (or a default-able item ID) is omitted */
+  sessionDefaults?: SessionDefaults;
+  /** Looks up the items and workspace contents shown in confirmation prompts */
+  fabricClient?: FabricClient;
+}
+
+function createElicitor(server: McpServer, extra: ToolExtra): ConfirmationRequest["elicit"] {
+  if (!server.server.getClientCapabilities()?.elicitation) return undefined;
+  return async (message) => {
+    const result = await server.server.elicitInput(
+      {
+        message,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            confirm: { type: "boolean", title: "Confirm", description: "Check to run this operation" },
+          },
+          required: ["confirm"],
+        },
+      },
+      { relatedRequestId: extra.requestId, signal: extra.signal },
+    );
+    // Accepting the form without ticking the box is not an approval
+    const answer: ElicitAnswer = result.action === "accept" && result.content?.confirm !== true ? "decline" : result.action;
+    return answer;
+  };
+}
+
+/** Say which session defaults a call used, after the tool's own output. */
+function withContextNote<T extends ToolResult>(result: T, note: { type: string; text: string } | undefined): T {
+  if (!note || !result?.content) return result;
+  return { ...result, content: [...result.content, note] };
+}
+
+function createProgressReporter(toolName: string, extra: ToolExtra): ProgressReporter | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+  return async (progress, total, message) => {
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message },
+      });
+    } catch (error) {
+      // Progress is best-effort; never fail the tool call because a notification was dropped
+      logger.debug(COMPONENT, `Failed to send progress for ${toolName}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+/**
+ * Turn arguments valid against the advertised schema into arguments valid against the
+ * tool's own: fill in session defaults, resolve names to IDs, and fail if a parameter the
+ * shape middleware relaxed is still missing.
+ */
+async function prepareArguments(
+  toolShape: ToolShape,
+  args: Record<string, unknown>,
+  options?: InstrumentOptions
+): Promise<{ args: Record<string, unknown>; usedDefaults: string[] }> {
+  let prepared = args;
+  let usedDefaults: string[] = [];
+  if (toolShape.defaultable.length > 0 && options?.sessionDefaults) {
+    const applied = options.sessionDefaults.apply(toolShape.defaultable, prepared, toolShape.resolvable.items);
+    prepared = applied.args;
+    usedDefaults = applied.used;
+  }
+  const { resolvable } = toolShape;
+  if (resolvable.workspaces.length + resolvable.items.length > 0 && options?.nameResolver) {
+    prepared = await resolveToolArguments(options.nameResolver, resolvable, prepared);
+  }
+  const missing = toolShape.relaxed.filter((name) => prepared[name] === undefined);
+  if (missing.length > 0) {
+    const verb = missing.length === 1 ? "is" : "are";
+    const hint = missing.every((name) => toolShape.defaultable.includes(name))
+      ? `: pass ${missing.length === 1 ? "it" : "them"} or set a default with context_set_workspace`
+      : "";
+    throw new Error(`${missing.join(", ")} ${verb} required${hint}`);
+  }
+  return { args: prepared, usedDefaults };
+}
+
+/**
+ * Ask the user to approve the call before its handler runs, so every confirmable tool is
+ * covered whether or not it reaches the workspace guard. A call that is not approved is
+ * audited against the workspace it named.
+ */
+async function confirmCall(context: ToolContext, args: Record<string, unknown>, options?: InstrumentOptions): Promise<void> {
+  const workspaceId = typeof args.workspaceId === "string" ? args.workspaceId : "";
+  const mutation: MutationRecord = { workspaceId };
+  if (workspaceId && options?.nameResolver) {
+    mutation.workspaceName = await options.nameResolver.getWorkspace(workspaceId).then((w) => w.displayName, () => undefined);
+  }
+  try {
+    await confirmOperation(context.toolName, options?.fabricClient, mutation, context.confirmation!);
+  } catch (error) {
+    if (error instanceof ConfirmationRequiredError) {
+      if (error.declined) mutation.declined = true;
+      else mutation.confirmationRequired = true;
+    }
+    context.mutation = mutation;
+    throw error;
+  }
+}
+
+function auditMutation(
+  context: ToolContext,
+  args: unknown,
+  outcome: AuditOutcome,
+  durationMs: number,
+  error: string | undefined,
+  options?: InstrumentOptions
+): void {
+  const mutation = context.mutation!;
+  const toolArgs = (args && typeof args === "object" ? args : {}) as Record<string, unknown>;
+  const caller = context.caller ?? options?.localCaller?.();
+  void writeAuditEntry({
+    timestamp: new Date().toISOString(),
+    tool: context.toolName,
+    requestId: context.requestId,
+    sessionId: context.sessionId,
+    caller,
+    tenantId: caller?.tenantId,
+    workspaceId: mutation.workspaceId,
+    workspaceName: mutation.workspaceName,
+    target: findTarget(toolArgs),
+    arguments: redactArguments(toolArgs) as Record<string, unknown>,
+    outcome: mutation.blocked
+      ? "blocked"
+      : mutation.declined
+        ? "declined"
+        : mutation.confirmationRequired ? "confirmation_required" : outcome,
+    error: error?.slice(0, 1000),
+    fabricRequestId: context.fabricRequestId,
+    durationMs,
+  });
+}
+
+/**
+ * Handler middleware: run the tool's handler inside a ToolContext built from the MCP
+ * request (abort signal, progress token, caller), with its arguments prepared for the
+ * tool's own schema. Dry runs return the captured request, confirmable calls are approved
+ * first, and calls that pass the workspace guard are written to the audit log.
+ */
+export function wrapToolHandler(
+  server: McpServer,
+  toolName: string,
+  toolShape: ToolShape,
+  handler: ToolHandler,
+  options?: InstrumentOptions
+): ToolHandler {
+  const writeTool = isWriteTool(toolName);
+  const confirmable = isConfirmableTool(toolName);
+  const preparesArguments = toolShape.defaultable.length > 0 || toolShape.relaxed.length > 0 ||
+    toolShape.resolvable.workspaces.length + toolShape.resolvable.items.length > 0;
+
+  return (...handlerArgs: unknown[]) => {
+    // The SDK always passes the request "extra" as the last handler argument
+    const extra = handlerArgs[handlerArgs.length - 1] as ToolExtra;
+    const context: ToolContext = {
+      toolName,
+      requestId: extra.requestId,
+      sessionId: extra.sessionId,
+      signal: extra.signal,
+      reportProgress: createProgressReporter(toolName, extra),
+    };
+    const claims = extra.authInfo?.extra?.claims as Record<string, unknown> | undefined;
+    if (claims) context.caller = callerFromClaims(claims);
+    // Tools without an input schema receive only "extra"
+    let toolArgs = (handlerArgs.length > 1 ? handlerArgs[0] : {}) as Record<string, unknown>;
+    if (writeTool && (isGlobalDryRun() || toolArgs.dryRun === true)) {
+      context.dryRun = {};
+    }
+    if (confirmable && requiresConfirmation(toolName, toolArgs)) {
+      context.confirmation = {
+        elicit: createElicitor(server, extra),
+        confirmed: toolArgs.confirm === true,
+        args: toolArgs,
+      };
+    }
+    const start = Date.now();
+    const attributes = { "mcp.tool.name": toolName, "mcp.session.id": extra.sessionId ?? "", "mcp.dry_run": !!context.dryRun };
+    return runWithToolContext(context, () =>
+      withSpan(`tool ${toolName}`, attributes, async (span) => {
+        try {
+          let usedDefaults: string[] = [];
+          if (preparesArguments) {
+            try {
+              ({ args: toolArgs, usedDefaults } = await prepareArguments(toolShape, toolArgs, options));
+            } catch (error) {
+              recordToolCall(toolName, true, Date.now() - start);
+              span.setStatus({ code: SpanStatusCode.ERROR });
+              return formatToolError(error);
+            }
+            handlerArgs[0] = toolArgs;
+            if (context.confirmation) context.confirmation.args = toolArgs;
+          }
+          if (usedDefaults.length > 0) {
+            logger.debug(COMPONENT, `Using session context for ${toolName}`, { defaults: usedDefaults });
+          }
+          if (context.confirmation && !context.dryRun) {
+            try {
+              await confirmCall(context, toolArgs, options);
+            } catch (error) {
+              const durationMs = Date.now() - start;
+              recordToolCall(toolName, true, durationMs);
+              span.setStatus({ code: SpanStatusCode.ERROR });
+              const result = formatToolError(error);
+              auditMutation(context, toolArgs, "error", durationMs, result.content[0]?.text, options);
+              return result;
+            }
+          }
+          const result = (await handler(...handlerArgs)) as ToolResult;
+          const durationMs = Date.now() - start;
+          recordToolCall(toolName, result?.isError === true, durationMs);
+          const contextNote = usedDefaults.length > 0
+            ? { type: "text", text: `Session context used: ${usedDefaults.join(", ")}` }
+            : undefined;
+          if (context.dryRun) {
+            // Nothing was changed, so nothing to audit
+            return withContextNote(formatDryRunResult(toolName, context.dryRun, result), contextNote);
+          }
+          if (result?.isError) span.setStatus({ code: SpanStatusCode.ERROR });
+          if (context.mutation) {
+            const outcome = result?.isError ? "error" : "success";
+            const error = result?.isError ? result.content?.[0]?.text : undefined;
+            auditMutation(context, toolArgs, outcome, durationMs, error, options);
+          }
+          return withContextNote(result, contextNote);
+        } catch (error) {
+          const durationMs = Date.now() - start;
+          if (context.dryRun?.request) {
+            recordToolCall(toolName, false, durationMs);
+            return formatDryRunResult(toolName, context.dryRun, undefined);
+          }
+          recordToolCall(toolName, true, durationMs);
+          if (context.mutation && !context.dryRun) {
+            const message = error instanceof Error ? error.message : String(error);
+            auditMutation(context, toolArgs, "error", durationMs, message, options);
+          }
+          throw error;
+        }
+      })
+    );
+  };
+}
@@ -0,0 +1,45 @@
+import type { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { z } from "zod";
+import { getOperationClass, getToolAnnotations, getToolset } from "./tool-catalog.js";
+import { getToolSelection, isToolSelected } from "./toolsets.js";
+import { prepareToolShape } from "./tool-shape.js";
+import { wrapToolHandler } from "./tool-handler.js";
+import type { InstrumentOptions, ToolHandler } from "./tool-handler.js";
+
+export type { InstrumentOptions } from "./tool-handler.js";
+
+/** What the register*Tools functions declare their tools on */
+export interface ToolRegistrar {
+  tool(name: string, description: string, cb: ToolCallback): void;
+  tool<Args extends z.ZodRawShape>(name: string, description: string, inputSchema: Args, cb: ToolCallback<Args>): void;
+}
+
+/**
+ * Registers tools on the server through the shape middleware (tool-shape.ts) and the
+ * handler middleware (tool-handler.ts), with the annotations and metadata from the tool
+ * catalog. Tools outside FABRIC_TOOLSETS (or writes, under READ_ONLY) are skipped, so the
+ * server never sees them.
+ */
+export function createToolRegistrar(server: McpServer, options?: InstrumentOptions): ToolRegistrar {
+  const selection = getToolSelection();
+  const tool = (toolName: string, description: string, ...rest: unknown[]): void => {
+    if (!isToolSelected(toolName, selection)) return;
+    const handler = rest.pop() as ToolHandler;
+    const toolShape = prepareToolShape(toolName, rest[0] as z.ZodRawShape | undefined, {
+      resolveNames: !!options?.nameResolver,
+      sessionDefaults: !!options?.sessionDefaults,
+    });
+    const wrapped = wrapToolHandler(server, toolName, toolShape, handler, options);
+    server.registerTool(
+      toolName,
+      {
+        description,
+        inputSchema: toolShape.shape,
+        annotations: getToolAnnotations(toolName),
+        _meta: { "fabric/toolset": getToolset(toolName), "fabric/operation": getOperationClass(toolName) },
+      },
+      wrapped as ToolCallback<z.ZodRawShape>
+    );
+  };
+  return { tool };
+}
@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { getOperationClass, isWriteTool } from "./tool-catalog.js";
+import { isConfirmableTool } from "./confirmation.js";
+import { getResolvableParams } from "./name-resolver.js";
+import type { ResolvableParams } from "./name-resolver.js";
+import { getDefaultableParams } from "./session-defaults.js";
+
+export interface ToolShapeOptions {
+  /** ID parameters accept display names */
+  resolveNames: boolean;
+  /** workspaceId and default-able item IDs fall back to the session context */
+  sessionDefaults: boolean;
+}
+
+/**
+ * The input schema a tool is advertised with, and what the handler middleware has to do
+ * to turn arguments valid against it back into arguments valid against the tool's own.
+ */
+export interface ToolShape {
+  shape?: z.ZodRawShape;
+  /** ID parameters that accept display names */
+  resolvable: ResolvableParams;
+  /** Parameters that fall back to the session context */
+  defaultable: string[];
+  /**
+   * Parameters the tool requires but the advertised schema makes optional. The handler
+   * middleware fills them in or fails the call, so handlers typed against the tool's own
+   * schema always receive them.
+   */
+  relaxed: string[];
+}
+
+const dryRunParam = z.boolean().optional()
+  .describe("Validate and return the request that would be sent (method, URL, body, guard decision) without changing anything");
+
+const confirmParam = z.boolean().optional()
+  .describe("Approve this destructive operation. Only needed when the client cannot show a confirmation prompt; set it only after the user has explicitly agreed");
+
+/**
+ * Let ID parameters accept display names. workspaceId becomes optional on tools that take
+ * an item, since "Workspace/Item" supplies it, unless relaxWorkspace is false.
+ */
+function describeResolvableParams(shape: z.ZodRawShape, params: ResolvableParams, relaxWorkspace: boolean): z.ZodRawShape {
+  const updated = { ...shape };
+  for (const name of params.workspaces) {
+    updated[name] = updated[name].describe(`${updated[name].description ?? "The workspace ID"} or display name`);
+  }
+  for (const name of params.items) {
+    updated[name] = updated[name].describe(
+      `${updated[name].description ?? "The item ID"} or display name (optionally "Workspace/Item")`
+    );
+  }
+  if (relaxWorkspace && params.items.length > 0 && updated.workspaceId && !updated.workspaceId.isOptional()) {
+    updated.workspaceId = updated.workspaceId.optional()
+      .describe(`${updated.workspaceId.description} (can be omitted when an item is given as "Workspace/Item")`);
+  }
+  return updated;
+}
+
+/** Let parameters be omitted in favor of the session context. */
+function describeDefaultableParams(shape: z.ZodRawShape, params: string[]): z.ZodRawShape {
+  const updated = { ...shape };
+  for (const name of params) {
+    updated[name] = updated[name].optional()
+      .describe(`${updated[name].description ?? name} (defaults to the session context set with context_set_workspace)`);
+  }
+  return updated;
+}
+
+/**
+ * Shape middleware: add dryRun to write tools and confirm to tools that need
+ * confirmation, and relax and describe the ID parameters that take names or session
+ * defaults.
+ */
+export function prepareToolShape(toolName: string, shape: z.ZodRawShape | undefined, options: ToolShapeOptions): ToolShape {
+  const none: ToolShape = { shape, resolvable: { workspaces: [], items: [] }, defaultable: [], relaxed: [] };
+  if (!shape) return none;
+
+  let updated = shape;
+  if (isWriteTool(toolName)) updated = { ...updated, dryRun: dryRunParam };
+  if (isConfirmableTool(toolName)) updated = { ...updated, confirm: confirmParam };
+
+  const resolvable = options.resolveNames ? getResolvableParams(toolName, Object.keys(updated)) : none.resolvable;
+  const defaultable = options.sessionDefaults ? getDefaultableParams(toolName, Object.keys(updated)) : [];
+  const required = Object.keys(updated).filter((name) => !updated[name].isOptional());
+  if (resolvable.workspaces.length + resolvable.items.length > 0) {
+    // Deletes keep workspaceId required, so the workspace is always named explicitly
+    updated = describeResolvableParams(updated, resolvable, getOperationClass(toolName) !== "delete");
+  }
+  if (defaultable.length > 0) {
+    updated = describeDefaultableParams(updated, defaultable);
+  }
+  const relaxed = required.filter((name) => updated[name].isOptional());
+  return { shape: updated, resolvable, defaultable, relaxed };
+}
@@ -0,0 +1,47 @@
+import { getToolset, isWriteTool, TOOLSETS } from "./tool-catalog.js";
+
+/** Accepted alternative names for toolsets, matching the source file names. */
+const TOOLSET_ALIASES: Record<string, string> = {
+  "sql-endpoint": "sql",
+  "git-integration": "git",
+};
+
+/** Always registered so the server can still sign in, switch accounts and set the session context. */
+const ALWAYS_ENABLED = ["auth", "context"];
+
+export interface ToolSelection {
+  /** Enabled toolsets, or undefined for all */
+  toolsets?: Set<string>;
+  readOnly: boolean;
+}
+
+export function isReadOnlyMode(): boolean {
+  return ["true", "1", "yes"].includes(process.env.READ_ONLY?.trim().toLowerCase() ?? "");
+}
+
+/**
+ * Parse FABRIC_TOOLSETS (comma-separated toolset names, or "all") and READ_ONLY. Throws on
+ * an unknown toolset name so a typo doesn't silently hide tools.
+ */
+export function getToolSelection(): ToolSelection {
+  const readOnly = isReadOnlyMode();
+  const configured = process.env.FABRIC_TOOLSETS?.trim();
+  if (!configured || configured.toLowerCase() === "all") return { readOnly };
+
+  const toolsets = new Set(ALWAYS_ENABLED);
+  for (const entry of configured.split(",").map((t) => t.trim().toLowerCase()).filter((t) => t.length > 0)) {
+    const name = TOOLSET_ALIASES[entry] ?? entry;
+    if (!TOOLSETS.includes(name)) {
+      throw new Error(`Unknown toolset "${entry}" in FABRIC_TOOLSETS. Valid toolsets: ${TOOLSETS.join(", ")}`);
+    }
+    toolsets.add(name);
+  }
+  return { toolsets, readOnly };
+}
+
+export function isToolSelected(toolName: string, selection: ToolSelection): boolean {
+  if (selection.readOnly && isWriteTool(toolName)) return false;
+  if (!selection.toolsets) return true;
+  const toolset = getToolset(toolName);
+  return toolset !== undefined && selection.toolsets.has(toolset);
+}
@@ -0,0 +1,68 @@
+import { SpanStatusCode, trace, type Attributes, type Span } from "@opentelemetry/api";
+import { logger } from "../utils/logger.js";
+
+const COMPONENT = "Tracing";
+const TRACER_NAME = "mcp-fabric-api";
+
+let shutdownProvider: (() => Promise<void>) | undefined;
+
+/**
+ * Start exporting spans over OTLP/HTTP when OTEL_EXPORTER_OTLP_ENDPOINT (or
+ * OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) is set. Without it the OpenTelemetry API
+ * stays a no-op and the SDK is never loaded. The exporter reads the standard
+ * OTEL_EXPORTER_OTLP_* variables (headers, timeout) itself.
+ */
+export async function initTracing(serviceVersion: string): Promise<void> {
+  const endpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ?? process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  if (!endpoint?.trim() || shutdownProvider) return;
+
+  const [{ NodeTracerProvider, BatchSpanProcessor }, { OTLPTraceExporter }, { resourceFromAttributes }, semconv] =
+    await Promise.all([
+      import("@opentelemetry/sdk-trace-node"),
+      import("@opentelemetry/exporter-trace-otlp-http"),
+      import("@opentelemetry/resources"),
+      import("@opentelemetry/semantic-conventions"),
+    ]);
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [semconv.ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME ?? TRACER_NAME,
+      [semconv.ATTR_SERVICE_VERSION]: serviceVersion,
+    }),
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+  });
+  provider.register();
+  shutdownProvider = () => provider.shutdown();
+  logger.info(COMPONENT, `Exporting traces to ${endpoint}`);
+}
+
+/** Flush pending spans. Safe to call when tracing is disabled. */
+export async function shutdownTracing(): Promise<void> {
+  const shutdown = shutdownProvider;
+  shutdownProvider = undefined;
+  try {
+    await shutdown?.();
+  } catch (error) {
+    logger.warn(COMPONENT, "Failed to flush traces", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Run fn inside an active span, so spans started within it (HTTP calls, polls) become
+ * its children. Exceptions are recorded and mark the span as failed.
+ */
+export function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+  return trace.getTracer(TRACER_NAME).startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
@@ -1,42 +1,161 @@
 import { FabricClient } from "../client/fabric-client.js";
+import { getToolContext } from "./tool-context.js";
+import { getAuditLogPath, type MutationRecord } from "./audit.js";
+import { getOperationClass, getToolItemType, type OperationClass } from "./tool-catalog.js";
+import { evaluatePolicy, loadWorkspacePolicy, type PolicyTarget, type WorkspacePolicy } from "./workspace-policy.js";
+import { logger } from "../utils/logger.js";
+import { isReadOnlyMode } from "./toolsets.js";
+import type { NameResolver } from "./name-resolver.js";
+
+const COMPONENT = "WorkspaceGuard";
+
+interface WorkspaceInfo {
+  displayName: string;
+  capacityId?: string;
+}
+
+export interface GuardOptions {
+  /** Item type being written, for tools that take it as an argument (e.g. item_create_with_definition) */
+  itemType?: string;
+  /** Operation class, for tools whose effect depends on their input (e.g. a T-SQL query) */
+  operation?: Exclude<OperationClass, "read">;
+}
 
 export class WorkspaceGuard {
   private patterns: string[];
   private allowAll: boolean;
-  private nameCache = new Map<string, string>();
+  private policy?: WorkspacePolicy;
 
-  constructor() {
+  /** names caches workspace details, shared with display-name resolution */
+  constructor(private names: NameResolver) {
     const env = process.env.WRITABLE_WORKSPACES?.trim();
     this.patterns = env
       ? env.split(",").map((p) => p.trim()).filter((p) => p.length > 0)
       : [];
     this.allowAll = this.patterns.includes("*");
+
+    const policyFile = process.env.WORKSPACE_POLICY_FILE?.trim();
+    if (policyFile) {
+      this.policy = loadWorkspacePolicy(policyFile);
+      logger.info(COMPONENT, `Loaded workspace policy from ${policyFile}`, {
+        rules: this.policy.rules.length,
+        default: this.policy.default,
+      });
+      if (this.patterns.length > 0) {
+        logger.warn(COMPONENT, "WORKSPACE_POLICY_FILE is set; WRITABLE_WORKSPACES is ignored");
+      }
+    }
   }
 
-  async assertWorkspaceAllowed(fabricClient: FabricClient, workspaceId: string): Promise<void> {
-    if (this.allowAll) return;
+  async assertWorkspaceAllowed(fabricClient: FabricClient, workspaceId: string, options?: GuardOptions): Promise<void> {
+    await this.enforce({ workspaceId }, () => this.names.getWorkspace(workspaceId), options);
+  }
 
-    if (this.patterns.length === 0) {
-      throw new Error(
-        "WRITABLE_WORKSPACES is not configured. Destructive actions are blocked by default. " +
-        "Set WRITABLE_WORKSPACES to a comma-separated list of workspace name patterns, or \"*\" to allow all."
-      );
+  /**
+   * workspace_create has no workspace ID yet, so rules and patterns are matched against
+   * the requested name and capacity.
+   */
+  async assertWorkspaceCreateAllowed(displayName: string, capacityId?: string): Promise<void> {
+    await this.enforce({ workspaceId: "", workspaceName: displayName }, async () => ({ displayName, capacityId }));
+  }
+
+  /**
+   * Writes to tenant-level objects that belong to no workspace (a deployment pipeline
+   * with no stage assigned). Only allowed where every workspace is writable:
+   * WRITABLE_WORKSPACES="*", or a policy rule without workspace conditions (or with "*").
+   */
+  async assertUnscopedWriteAllowed(): Promise<void> {
+    await this.enforce({ workspaceId: "" }, async () => ({ displayName: "" }), undefined, true);
+  }
+
+  private async enforce(
+    mutation: MutationRecord,
+    resolve: () => Promise<WorkspaceInfo>,
+    options?: GuardOptions,
+    unscoped = false,
+  ): Promise<void> {
+    // Mark the call as a write so it is audited, whatever the guard decides
+    const context = getToolContext();
+    if (context) context.mutation = mutation;
+
+    let denial: string | undefined;
+    if (isReadOnlyMode()) {
+      // Only input-dependent tools (T-SQL, KQL commands) are registered and reach this point
+      denial = "The server is running in read-only mode (READ_ONLY=true); nothing can be changed";
+    } else if (this.policy) {
+      denial = await this.evaluatePolicy(this.policy, mutation, resolve, options);
+    } else if (unscoped) {
+      denial = this.allowAll ? undefined :
+        "This changes an object that belongs to no workspace, which is only allowed when WRITABLE_WORKSPACES is \"*\"";
+    } else {
+      denial = await this.evaluatePatterns(mutation, resolve, !!context && (!!context.dryRun || !!getAuditLogPath()));
+    }
+
+    if (context?.dryRun) {
+      // Report the decision instead of enforcing it, so the plan is shown either way
+      context.dryRun.guard = { workspaceId: mutation.workspaceId, workspaceName: mutation.workspaceName, allowed: !denial, reason: denial };
+      return;
+    }
+    if (denial) {
+      mutation.blocked = true;
+      throw new Error(denial);
+    }
+  }
+
+  private async evaluatePolicy(
+    policy: WorkspacePolicy,
+    mutation: MutationRecord,
+    resolve: () => Promise<WorkspaceInfo>,
+    options: GuardOptions | undefined,
+  ): Promise<string | undefined> {
+    const toolName = getToolContext()?.toolName;
+    const operation = options?.operation ?? (toolName ? getOperationClass(toolName) : "read");
+    const workspace = await resolve();
+    mutation.workspaceName = workspace.displayName;
+
+    const target: PolicyTarget = {
+      workspaceId: mutation.workspaceId,
+      workspaceName: workspace.displayName,
+      capacityId: workspace.capacityId,
+      itemType: options?.itemType ?? (toolName ? getToolItemType(toolName) : undefined),
+      // A guarded tool missing from the catalog is treated as an update rather than let through
+      operation: operation === "read" ? "update" : operation,
+    };
+    const decision = evaluatePolicy(policy, target);
+    logger.debug(COMPONENT, decision.reason, { tool: toolName, ...target });
+    return decision.allowed ? undefined : decision.reason;
+  }
+
+  /**
+   * WRITABLE_WORKSPACES fallback. Returns why the write is denied, or undefined if allowed.
+   * Fills in mutation.workspaceName when it is looked up (always when patterns are
+   * configured; with "*" only if wantName).
+   */
+  private async evaluatePatterns(
+    mutation: MutationRecord,
+    resolve: () => Promise<WorkspaceInfo>,
+    wantName: boolean,
+  ): Promise<string | undefined> {
+    if (this.allowAll) {
+      if (wantName && !mutation.workspaceName) {
+        mutation.workspaceName = await resolve().then((w) => w.displayName, () => undefined);
+      }
+      return undefined;
     }
 
-    let name = this.nameCache.get(workspaceId);
-    if (!name) {
-      const response = await fabricClient.get<{ displayName: string }>(`/workspaces/${workspaceId}`);
-      name = response.data.displayName;
-      this.nameCache.set(workspaceId, name);
+    if (this.patterns.length === 0) {
+      return "WRITABLE_WORKSPACES is not configured. Destructive actions are blocked by default. " +
+        "Set WRITABLE_WORKSPACES to a comma-separated list of workspace name patterns, or \"*\" to allow all.";
     }
 
+    const name = (await resolve()).displayName;
+    mutation.workspaceName = name;
+
     for (const pattern of this.patterns) {
-      if (this.matchesPattern(name, pattern)) return;
+      if (this.matchesPattern(name, pattern)) return undefined;
     }
 
-    throw new Error(
-      `Workspace "${name}" is not in the writable workspaces list. Allowed patterns: ${this.patterns.join(", ")}`
-    );
+    return `Workspace "${name}" is not in the writable workspaces list. Allowed patterns: ${this.patterns.join(", ")}`;
   }
 
   private matchesPattern(name: string, pattern: string): boolean {
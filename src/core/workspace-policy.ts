@@ -0,0 +1,116 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type { OperationClass } from "./tool-catalog.js";
+
+const OPERATION_CLASSES = ["create", "update", "delete", "execute", "deploy", "share"] as const;
+
+const ruleSchema = z.object({
+  effect: z.enum(["allow", "deny"]),
+  /** Workspace name globs (case-insensitive) or workspace IDs */
+  workspaces: z.array(z.string()).optional(),
+  capacities: z.array(z.string()).optional(),
+  itemTypes: z.array(z.string()).optional(),
+  // "run" is accepted as an older name for "execute"
+  operations: z.array(z.enum([...OPERATION_CLASSES, "run"]))
+    .transform((ops) => ops.map((op) => (op === "run" ? "execute" : op)))
+    .optional(),
+  description: z.string().optional(),
+}).strict();
+
+const policySchema = z.object({
+  /** Decision when no rule matches */
+  default: z.enum(["allow", "deny"]).default("deny"),
+  rules: z.array(ruleSchema),
+}).strict();
+
+export type PolicyRule = z.infer<typeof ruleSchema>;
+export type WorkspacePolicy = z.infer<typeof policySchema>;
+
+/** The write being checked. itemType is undefined when the tool doesn't target a specific item type. */
+export interface PolicyTarget {
+  workspaceId: string;
+  workspaceName: string;
+  capacityId?: string;
+  itemType?: string;
+  operation: Exclude<OperationClass, "read">;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason: string;
+}
+
+/**
+ * Load a policy from a .json, .yaml or .yml file. Throws with the offending path on
+ * parse or schema errors so a bad policy stops startup instead of silently allowing writes.
+ */
+export function loadWorkspacePolicy(path: string): WorkspacePolicy {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, "utf-8");
+    const ext = extname(path).toLowerCase();
+    raw = ext === ".yaml" || ext === ".yml" ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Cannot read workspace policy ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const result = policySchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+    throw new Error(`Invalid workspace policy ${path}: ${issues}`);
+  }
+  return result.data;
+}
+
+function globMatches(value: string, pattern: string): boolean {
+  const regex = "^" + pattern.split("*").map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$";
+  return new RegExp(regex, "i").test(value);
+}
+
+/**
+ * Whether a rule applies to the target. Omitted conditions match anything. A condition on
+ * an unknown capacity or item type counts as matching for deny rules and not matching for
+ * allow rules, so missing information never widens access.
+ */
+function ruleMatches(rule: PolicyRule, target: PolicyTarget): boolean {
+  const unknownMatches = rule.effect === "deny";
+  if (rule.workspaces && !rule.workspaces.some((p) =>
+    p.toLowerCase() === target.workspaceId.toLowerCase() || globMatches(target.workspaceName, p))) {
+    return false;
+  }
+  if (rule.capacities) {
+    if (!target.capacityId) return unknownMatches;
+    if (!rule.capacities.some((c) => c.toLowerCase() === target.capacityId!.toLowerCase())) return false;
+  }
+  if (rule.itemTypes) {
+    if (!target.itemType) return unknownMatches;
+    if (!rule.itemTypes.some((t) => t.toLowerCase() === target.itemType!.toLowerCase())) return false;
+  }
+  if (rule.operations && !rule.operations.includes(target.operation)) return false;
+  return true;
+}
+
+function describeRule(rule: PolicyRule, index: number): string {
+  return rule.description ? `rule #${index + 1} (${rule.description})` : `rule #${index + 1}`;
+}
+
+/**
+ * Deny wins: any matching deny rule blocks the write; otherwise a matching allow rule
+ * permits it; otherwise the policy default applies.
+ */
+export function evaluatePolicy(policy: WorkspacePolicy, target: PolicyTarget): PolicyDecision {
+  const scope = target.workspaceName ? `in workspace "${target.workspaceName}"` : "outside any workspace";
+  const subject = `${target.operation} on ${target.itemType ?? "item"} ${scope}`;
+  const denyIndex = policy.rules.findIndex((rule) => rule.effect === "deny" && ruleMatches(rule, target));
+  if (denyIndex >= 0) {
+    return { allowed: false, reason: `Workspace policy denies ${subject} by ${describeRule(policy.rules[denyIndex], denyIndex)}` };
+  }
+  const allowIndex = policy.rules.findIndex((rule) => rule.effect === "allow" && ruleMatches(rule, target));
+  if (allowIndex >= 0) {
+    return { allowed: true, reason: `Allowed by ${describeRule(policy.rules[allowIndex], allowIndex)}` };
+  }
+  return policy.default === "allow"
+    ? { allowed: true, reason: "Allowed by policy default" }
+    : { allowed: false, reason: `Workspace policy has no rule allowing ${subject}` };
+}
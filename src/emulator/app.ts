@@ -0,0 +1,841 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
+import { logger } from "../utils/logger.js";
+import type { FabricItem, ItemDefinitionPart } from "../core/types.js";
+import { EmulatorState, type EmulatorStage } from "./state.js";
+
+const COMPONENT = "Emulator";
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Typed item collections in the Fabric REST surface, keyed by lowercased URL segment. */
+const ITEM_COLLECTIONS: Record<string, string> = {
+  lakehouses: "Lakehouse",
+  warehouses: "Warehouse",
+  notebooks: "Notebook",
+  datapipelines: "DataPipeline",
+  semanticmodels: "SemanticModel",
+  reports: "Report",
+  dataflows: "Dataflow",
+  eventhouses: "Eventhouse",
+  eventstreams: "Eventstream",
+  reflexes: "Reflex",
+  graphqlapis: "GraphQLApi",
+  sqlendpoints: "SQLEndpoint",
+  variablelibraries: "VariableLibrary",
+  mirroreddatabases: "MirroredDatabase",
+  kqldatabases: "KQLDatabase",
+  mlmodels: "MLModel",
+  mlexperiments: "MLExperiment",
+  copyjobs: "CopyJob",
+};
+
+export interface EmulatorAppOptions {
+  state?: EmulatorState;
+  /** Page size for list endpoints; lower it to exercise continuation tokens (default 100). */
+  pageSize?: number;
+}
+
+function sendError(res: Response, status: number, errorCode: string, message: string): void {
+  res.status(status).json({ requestId: res.getHeader("x-ms-request-id"), errorCode, message });
+}
+
+function baseUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+/**
+ * Respond 202 with no body and the headers FabricClient.extractLro reads.
+ */
+function sendAccepted(req: Request, res: Response, operationId: string, location?: string): void {
+  res.status(202)
+    .set("x-ms-operation-id", operationId)
+    .set("Location", location ?? `${baseUrl(req)}/v1/operations/${operationId}`)
+    .set("Retry-After", "1")
+    .set("Content-Length", "0")
+    .end();
+}
+
+/**
+ * Page a list the way Fabric does: `value` (or `data`, for lakehouse tables) plus
+ * continuationToken/continuationUri while more results remain.
+ */
+function sendPage<T>(req: Request, res: Response, all: T[], pageSize: number, resultKey = "value"): void {
+  const offset = parseInt(String(req.query.continuationToken ?? "0"), 10) || 0;
+  const value = all.slice(offset, offset + pageSize);
+  const body: Record<string, unknown> = { [resultKey]: value };
+  if (offset + pageSize < all.length) {
+    const token = String(offset + pageSize);
+    const uri = new URL(req.originalUrl, baseUrl(req));
+    uri.searchParams.set("continuationToken", token);
+    body.continuationToken = token;
+    body.continuationUri = uri.toString();
+  }
+  res.json(body);
+}
+
+function commitHash(): string {
+  return randomBytes(20).toString("hex");
+}
+
+function toParts(body: unknown): ItemDefinitionPart[] | undefined {
+  const definition = (body as { definition?: { parts?: ItemDefinitionPart[] } } | undefined)?.definition;
+  return definition?.parts;
+}
+
+export function createEmulatorApp(options?: EmulatorAppOptions): { app: Express; state: EmulatorState } {
+  const state = options?.state ?? new EmulatorState();
+  const pageSize = options?.pageSize ?? DEFAULT_PAGE_SIZE;
+  const app = express();
+
+  app.use(express.json({ limit: "50mb" }));
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const requestId = randomUUID();
+    res.set("x-ms-request-id", requestId).set("requestid", requestId);
+    logger.debug(COMPONENT, `${req.method} ${req.originalUrl}`, { requestId });
+    next();
+  });
+
+  // ── Control endpoints (not part of the Fabric API) ──
+
+  app.post("/_emulator/reset", (_req, res) => {
+    state.reset();
+    res.status(204).end();
+  });
+
+  app.post("/_emulator/throttle", (req, res) => {
+    const count = Number(req.body?.count ?? 1);
+    const retryAfterSeconds = Number(req.body?.retryAfterSeconds ?? 0);
+    const status = Number(req.body?.status ?? 429);
+    state.injectThrottle(count, retryAfterSeconds, status);
+    res.json({ count, retryAfterSeconds, status });
+  });
+
+  app.get("/_emulator/state", (_req, res) => {
+    res.json({
+      workspaces: [...state.workspaces.values()],
+      items: [...state.items.values()],
+    });
+  });
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const throttle = state.consumeThrottle();
+    if (!throttle) {
+      next();
+      return;
+    }
+    res.set("Retry-After", String(throttle.retryAfterSeconds));
+    if (throttle.status === 429) {
+      sendError(res, 429, "RequestBlocked", "Request is blocked by the upstream service until the Retry-After period");
+    } else {
+      sendError(res, throttle.status, "ServiceError", `Injected HTTP ${throttle.status}`);
+    }
+  });
+
+  // ── Fabric: workspaces ──
+
+  const fabric = express.Router();
+
+  const requireWorkspace = (req: Request, res: Response): boolean => {
+    if (state.workspaces.has(req.params.workspaceId)) return true;
+    sendError(res, 404, "WorkspaceNotFound", `Workspace ${req.params.workspaceId} not found`);
+    return false;
+  };
+
+  fabric.get("/workspaces", (req, res) => {
+    sendPage(req, res, [...state.workspaces.values()], pageSize);
+  });
+
+  fabric.post("/workspaces", (req, res) => {
+    const { displayName, description, capacityId } = req.body ?? {};
+    if (!displayName) {
+      sendError(res, 400, "InvalidInput", "displayName is required");
+      return;
+    }
+    if ([...state.workspaces.values()].some((w) => w.displayName === displayName)) {
+      sendError(res, 409, "WorkspaceNameAlreadyExists", `Workspace name ${displayName} already exists`);
+      return;
+    }
+    res.status(201).json(state.addWorkspace(displayName, description, capacityId));
+  });
+
+  fabric.get("/workspaces/:workspaceId", (req, res) => {
+    if (!requireWorkspace(req, res)) return;
+    res.json(state.workspaces.get(req.params.workspaceId));
+  });
+
+  fabric.patch("/workspaces/:workspaceId", (req, res) => {
+    if (!requireWorkspace(req, res)) return;
+    const workspace = state.workspaces.get(req.params.workspaceId)!;
+    if (req.body?.displayName !== undefined) workspace.displayName = req.body.displayName;
+    if (req.body?.description !== undefined) workspace.description = req.body.description;
+    res.json(workspace);
+  });
+
+  fabric.delete("/workspaces/:workspaceId", (req, res) => {
+    if (!requireWorkspace(req, res)) return;
+    state.deleteWorkspace(req.params.workspaceId);
+    res.status(200).set("Content-Length", "0").end();
+  });
+
+  // ── Fabric: items (generic /items and typed collections share handlers) ──
+
+  const collectionType = (req: Request): string | undefined => {
+    const collection = req.params.collection?.toLowerCase();
+    if (!collection || collection === "items") return undefined;
+    return ITEM_COLLECTIONS[collection];
+  };
+
+  const isItemCollection = (req: Request): boolean =>
+    req.params.collection.toLowerCase() === "items" || req.params.collection.toLowerCase() in ITEM_COLLECTIONS;
+
+  const findItem = (req: Request, res: Response): FabricItem | undefined => {
+    if (!requireWorkspace(req, res)) return undefined;
+    const item = state.findItem(req.params.workspaceId, req.params.itemId, collectionType(req));
+    if (!item) sendError(res, 404, "ItemNotFound", `Item ${req.params.itemId} not found`);
+    return item;
+  };
+
+  fabric.get("/workspaces/:workspaceId/:collection", (req, res, next) => {
+    if (!isItemCollection(req)) return next();
+    if (!requireWorkspace(req, res)) return;
+    const type = collectionType(req) ?? (req.query.type as string | undefined);
+    sendPage(req, res, state.listItems(req.params.workspaceId, type), pageSize);
+  });
+
+  fabric.post("/workspaces/:workspaceId/:collection", (req, res, next) => {
+    if (!isItemCollection(req)) return next();
+    if (!requireWorkspace(req, res)) return;
+    const type = collectionType(req) ?? req.body?.type;
+    const { displayName, description } = req.body ?? {};
+    if (!type || !displayName) {
+      sendError(res, 400, "InvalidInput", "type and displayName are required");
+      return;
+    }
+    if (state.listItems(req.params.workspaceId, type).some((i) => i.displayName === displayName)) {
+      sendError(res, 409, "ItemDisplayNameAlreadyInUse", `Requested '${displayName}' is already in use`);
+      return;
+    }
+    const item = state.addItem(req.params.workspaceId, type, displayName, description, toParts(req.body));
+    if (type === "Lakehouse" && req.body?.creationPayload?.enableSchemas === true) state.schemaEnabledLakehouses.add(item.id);
+    // Creating with a definition is long-running in Fabric; plain creates return the item
+    if (req.body?.definition) {
+      sendAccepted(req, res, state.createOperation(item));
+      return;
+    }
+    res.status(201).json(item);
+  });
+
+  fabric.get("/workspaces/:workspaceId/:collection/:itemId", (req, res, next) => {
+    if (!isItemCollection(req)) return next();
+    const item = findItem(req, res);
+    if (!item) return;
+    // Eventhouses point KQL clients at the emulator's Kusto endpoints
+    if (item.type === "Eventhouse") {
+      res.json({ ...item, properties: { queryServiceUri: `${baseUrl(req)}/kusto` } });
+      return;
+    }
+    // The emulator has no TDS endpoint; this only gives SQL clients a server name to try
+    if (item.type === "Lakehouse") {
+      const connectionString = `${item.id}.datawarehouse.emulator.local`;
+      res.json({ ...item, properties: { sqlEndpointProperties: { connectionString, provisioningStatus: "Success" } } });
+      return;
+    }
+    res.json(item);
+  });
+
+  fabric.patch("/workspaces/:workspaceId/:collection/:itemId", (req, res, next) => {
+    if (!isItemCollection(req)) return next();
+    const item = findItem(req, res);
+    if (!item) return;
+    if (req.body?.displayName !== undefined) item.displayName = req.body.displayName;
+    if (req.body?.description !== undefined) item.description = req.body.description;
+    res.json(item);
+  });
+
+  fabric.delete("/workspaces/:workspaceId/:collection/:itemId", (req, res, next) => {
+    if (!isItemCollection(req)) return next();
+    const item = findItem(req, res);
+    if (!item) return;
+    state.deleteItem(item.id);
+    res.status(200).set("Content-Length", "0").end();
+  });
+
+  fabric.post("/workspaces/:workspaceId/:collection/:itemId/getDefinition", (req, res, next) => {
+    if (!isItemCollection(req)) return next();
+    const item = findItem(req, res);
+    if (!item) return;
+    sendAccepted(req, res, state.createOperation({ definition: { parts: state.getDefinition(item) } }));
+  });
+
+  fabric.post("/workspaces/:workspaceId/:collection/:itemId/updateDefinition", (req, res, next) => {
+    if (!isItemCollection(req)) return next();
+    const item = findItem(req, res);
+    if (!item) return;
+    const parts = toParts(req.body);
+    if (!parts) {
+      sendError(res, 400, "InvalidDefinition", "definition.parts is required");
+      return;
+    }
+    state.definitions.set(item.id, parts);
+    sendAccepted(req, res, state.createOperation());
+  });
+
+  // ── Fabric: job scheduler ──
+
+  fabric.post("/workspaces/:workspaceId/items/:itemId/jobs/instances", (req, res) => {
+    const item = findItem(req, res);
+    if (!item) return;
+    const jobType = req.query.jobType as string | undefined;
+    if (!jobType) {
+      sendError(res, 400, "InvalidJobType", "jobType query parameter is required");
+      return;
+    }
+    const job = state.createJob(req.params.workspaceId, item.id, jobType);
+    // runOnDemandJob extracts the instance ID from the Location header
+    sendAccepted(
+      req,
+      res,
+      job.id,
+      `${baseUrl(req)}/v1/workspaces/${req.params.workspaceId}/items/${item.id}/jobs/instances/${job.id}`
+    );
+  });
+
+  fabric.get("/workspaces/:workspaceId/items/:itemId/jobs/instances", (req, res) => {
+    const item = findItem(req, res);
+    if (item) sendPage(req, res, state.listJobs(item.id), pageSize);
+  });
+
+  fabric.get("/workspaces/:workspaceId/items/:itemId/jobs/instances/:jobInstanceId", (req, res) => {
+    const item = findItem(req, res);
+    if (!item) return;
+    const job = state.pollJob(item.id, req.params.jobInstanceId);
+    if (!job) {
+      sendError(res, 404, "ItemJobInstanceNotFound", `Job instance ${req.params.jobInstanceId} not found`);
+      return;
+    }
+    res.json(job);
+  });
+
+  fabric.post("/workspaces/:workspaceId/items/:itemId/jobs/instances/:jobInstanceId/cancel", (req, res) => {
+    const item = findItem(req, res);
+    if (!item) return;
+    if (!state.cancelJob(item.id, req.params.jobInstanceId)) {
+      sendError(res, 404, "ItemJobInstanceNotFound", `Job instance ${req.params.jobInstanceId} not found`);
+      return;
+    }
+    res.status(202).set("Content-Length", "0").end();
+  });
+
+  // ── Fabric: lakehouse tables ──
+
+  fabric.get("/workspaces/:workspaceId/lakehouses/:itemId/tables", (req, res) => {
+    const item = state.findItem(req.params.workspaceId, req.params.itemId, "Lakehouse");
+    if (!item) {
+      sendError(res, 404, "ItemNotFound", `Lakehouse ${req.params.itemId} not found`);
+      return;
+    }
+    if (state.schemaEnabledLakehouses.has(item.id)) {
+      sendError(res, 400, "UnsupportedOperationForSchemasEnabledLakehouse", "The operation is not supported for a lakehouse with schemas enabled");
+      return;
+    }
+    sendPage(req, res, state.tables.get(item.id) ?? [], pageSize, "data");
+  });
+
+  fabric.post("/workspaces/:workspaceId/lakehouses/:itemId/tables/:tableName/load", (req, res) => {
+    const item = state.findItem(req.params.workspaceId, req.params.itemId, "Lakehouse");
+    if (!item) {
+      sendError(res, 404, "ItemNotFound", `Lakehouse ${req.params.itemId} not found`);
+      return;
+    }
+    if (!req.body?.relativePath || !req.body?.pathType) {
+      sendError(res, 400, "InvalidInput", "relativePath and pathType are required");
+      return;
+    }
+    const tables = state.tables.get(item.id) ?? [];
+    if (!tables.some((t) => t.name === req.params.tableName)) {
+      tables.push({
+        name: req.params.tableName,
+        type: "Managed",
+        location: `abfss://${req.params.workspaceId}@onelake.dfs.fabric.microsoft.com/${item.id}/Tables/${req.params.tableName}`,
+        format: "delta",
+      });
+    }
+    state.tables.set(item.id, tables);
+    sendAccepted(req, res, state.createOperation());
+  });
+
+  // ── Fabric: OneLake shortcuts ──
+
+  fabric.get("/workspaces/:workspaceId/items/:itemId/shortcuts", (req, res) => {
+    const item = findItem(req, res);
+    if (item) sendPage(req, res, state.shortcuts.get(item.id) ?? [], pageSize);
+  });
+
+  fabric.post("/workspaces/:workspaceId/items/:itemId/shortcuts", (req, res) => {
+    const item = findItem(req, res);
+    if (!item) return;
+    const { name, path, target } = req.body ?? {};
+    if (!name || !path || !target) {
+      sendError(res, 400, "InvalidInput", "name, path and target are required");
+      return;
+    }
+    const shortcuts = state.shortcuts.get(item.id) ?? [];
+    const existing = shortcuts.findIndex((s) => s.path === path && s.name === name);
+    if (existing >= 0) {
+      if (req.query.shortcutConflictPolicy !== "CreateOrOverwrite") {
+        sendError(res, 409, "ItemDisplayNameAlreadyInUse", `Shortcut ${path}/${name} already exists`);
+        return;
+      }
+      shortcuts.splice(existing, 1);
+    }
+    const connectionId = Object.values(target as Record<string, { connectionId?: string }>)[0]?.connectionId;
+    if (connectionId && !state.connections.has(connectionId)) {
+      sendError(res, 400, "ConnectionNotFound", `Connection ${connectionId} not found`);
+      return;
+    }
+    const shortcut = { name, path, target };
+    shortcuts.push(shortcut);
+    state.shortcuts.set(item.id, shortcuts);
+    res.status(201).json(shortcut);
+  });
+
+  // The shortcut path can contain slashes; the last segment is the shortcut name
+  const findShortcut = (req: Request, res: Response) => {
+    const item = findItem(req, res);
+    if (!item) return undefined;
+    const fullPath = (req.params as Record<string, string>)[0];
+    const slash = fullPath.lastIndexOf("/");
+    const path = fullPath.slice(0, slash);
+    const name = fullPath.slice(slash + 1);
+    const shortcuts = state.shortcuts.get(item.id) ?? [];
+    const index = shortcuts.findIndex((s) => s.path === path && s.name === name);
+    if (index < 0) {
+      sendError(res, 404, "EntityNotFound", `Shortcut ${fullPath} not found`);
+      return undefined;
+    }
+    return { shortcuts, index };
+  };
+
+  fabric.get("/workspaces/:workspaceId/items/:itemId/shortcuts/*", (req, res) => {
+    const found = findShortcut(req, res);
+    if (found) res.json(found.shortcuts[found.index]);
+  });
+
+  fabric.delete("/workspaces/:workspaceId/items/:itemId/shortcuts/*", (req, res) => {
+    const found = findShortcut(req, res);
+    if (!found) return;
+    found.shortcuts.splice(found.index, 1);
+    res.status(200).set("Content-Length", "0").end();
+  });
+
+  // ── Fabric: external data shares ──
+
+  fabric.get("/workspaces/:workspaceId/items/:itemId/externalDataShares", (req, res) => {
+    const item = findItem(req, res);
+    if (!item) return;
+    const shares = [...state.externalDataShares.values()].filter((share) => share.itemId === item.id);
+    sendPage(req, res, shares, pageSize);
+  });
+
+  fabric.post("/workspaces/:workspaceId/items/:itemId/externalDataShares", (req, res) => {
+    const item = findItem(req, res);
+    if (!item) return;
+    const { paths, recipient } = req.body ?? {};
+    if (!Array.isArray(paths) || paths.length === 0 || !recipient?.userPrincipalName) {
+      sendError(res, 400, "InvalidInput", "paths and recipient.userPrincipalName are required");
+      return;
+    }
+    res.status(201).json(state.addExternalDataShare(req.params.workspaceId, item.id, paths, recipient.userPrincipalName));
+  });
+
+  const findShare = (req: Request, res: Response) => {
+    const item = findItem(req, res);
+    if (!item) return undefined;
+    const share = state.externalDataShares.get(req.params.shareId);
+    if (!share || share.itemId !== item.id) {
+      sendError(res, 404, "ExternalDataShareNotFound", `External data share ${req.params.shareId} not found`);
+      return undefined;
+    }
+    return share;
+  };
+
+  fabric.get("/workspaces/:workspaceId/items/:itemId/externalDataShares/:shareId", (req, res) => {
+    const share = findShare(req, res);
+    if (share) res.json(share);
+  });
+
+  fabric.post("/workspaces/:workspaceId/items/:itemId/externalDataShares/:shareId/revoke", (req, res) => {
+    const share = findShare(req, res);
+    if (!share) return;
+    share.status = "Revoked";
+    res.status(200).set("Content-Length", "0").end();
+  });
+
+  // ── Fabric: Git integration ──
+
+  const requireGitConnection = (req: Request, res: Response, initialized: boolean) => {
+    if (!requireWorkspace(req, res)) return undefined;
+    const connection = state.gitConnections.get(req.params.workspaceId);
+    if (!connection) {
+      sendError(res, 400, "WorkspaceNotConnectedToGit", "The workspace is not connected to Git");
+      return undefined;
+    }
+    if (initialized && connection.gitConnectionState !== "ConnectedAndInitialized") {
+      sendError(res, 400, "WorkspaceGitConnectionNotInitialized", "The workspace Git connection is not initialized");
+      return undefined;
+    }
+    return connection;
+  };
+
+  fabric.get("/workspaces/:workspaceId/git/connection", (req, res) => {
+    if (!requireWorkspace(req, res)) return;
+    res.json(state.gitConnections.get(req.params.workspaceId) ?? { gitConnectionState: "NotConnected" });
+  });
+
+  fabric.post("/workspaces/:workspaceId/git/connect", (req, res) => {
+    if (!requireWorkspace(req, res)) return;
+    if (state.gitConnections.has(req.params.workspaceId)) {
+      sendError(res, 409, "WorkspaceAlreadyConnectedToGit", "The workspace is already connected to Git");
+      return;
+    }
+    if (!req.body?.gitProviderDetails) {
+      sendError(res, 400, "InvalidInput", "gitProviderDetails is required");
+      return;
+    }
+    state.gitConnections.set(req.params.workspaceId, { gitProviderDetails: req.body.gitProviderDetails, gitConnectionState: "Connected" });
+    res.status(200).set("Content-Length", "0").end();
+  });
+
+  fabric.post("/workspaces/:workspaceId/git/disconnect", (req, res) => {
+    if (!requireGitConnection(req, res, false)) return;
+    state.gitConnections.delete(req.params.workspaceId);
+    res.status(200).set("Content-Length", "0").end();
+  });
+
+  fabric.post("/workspaces/:workspaceId/git/initializeConnection", (req, res) => {
+    const connection = requireGitConnection(req, res, false);
+    if (!connection) return;
+    const head = commitHash();
+    connection.gitConnectionState = "ConnectedAndInitialized";
+    connection.gitSyncDetails = { head, lastSyncTime: new Date().toISOString() };
+    sendAccepted(req, res, state.createOperation({ requiredAction: "None", workspaceHead: head, remoteCommitHash: head }));
+  });
+
+  fabric.get("/workspaces/:workspaceId/git/status", (req, res) => {
+    const connection = requireGitConnection(req, res, true);
+    if (!connection) return;
+    const head = connection.gitSyncDetails!.head;
+    res.json({ workspaceHead: head, remoteCommitHash: head, changes: [] });
+  });
+
+  fabric.post("/workspaces/:workspaceId/git/commitToGit", (req, res) => {
+    const connection = requireGitConnection(req, res, true);
+    if (!connection) return;
+    if (!req.body?.mode) {
+      sendError(res, 400, "InvalidInput", "mode is required");
+      return;
+    }
+    connection.gitSyncDetails = { head: commitHash(), lastSyncTime: new Date().toISOString() };
+    sendAccepted(req, res, state.createOperation());
+  });
+
+  fabric.post("/workspaces/:workspaceId/git/updateFromGit", (req, res) => {
+    const connection = requireGitConnection(req, res, true);
+    if (!connection) return;
+    if (!req.body?.remoteCommitHash) {
+      sendError(res, 400, "InvalidInput", "remoteCommitHash is required");
+      return;
+    }
+    connection.gitSyncDetails = { head: req.body.remoteCommitHash, lastSyncTime: new Date().toISOString() };
+    sendAccepted(req, res, state.createOperation());
+  });
+
+  fabric.get("/workspaces/:workspaceId/git/myGitCredentials", (req, res) => {
+    if (!requireGitConnection(req, res, false)) return;
+    res.json(state.gitCredentials.get(req.params.workspaceId) ?? { source: "Automatic" });
+  });
+
+  fabric.patch("/workspaces/:workspaceId/git/myGitCredentials", (req, res) => {
+    if (!requireGitConnection(req, res, false)) return;
+    const { source, connectionId } = req.body ?? {};
+    if (!source) {
+      sendError(res, 400, "InvalidInput", "source is required");
+      return;
+    }
+    if (source === "ConfiguredConnection" && !state.connections.has(connectionId)) {
+      sendError(res, 400, "ConnectionNotFound", `Connection ${connectionId} not found`);
+      return;
+    }
+    const credentials = connectionId ? { source, connectionId } : { source };
+    state.gitCredentials.set(req.params.workspaceId, credentials);
+    res.json(credentials);
+  });
+
+  // ── Fabric: connections ──
+
+  fabric.get("/connections", (req, res) => {
+    sendPage(req, res, [...state.connections.values()], pageSize);
+  });
+
+  fabric.post("/connections", (req, res) => {
+    const { displayName, connectionDetails, credentialDetails } = req.body ?? {};
+    if (!displayName || !connectionDetails?.type || !connectionDetails?.parameters) {
+      sendError(res, 400, "InvalidInput", "displayName, connectionDetails.type and connectionDetails.parameters are required");
+      return;
+    }
+    if ([...state.connections.values()].some((c) => c.displayName === displayName)) {
+      sendError(res, 409, "DuplicateConnectionName", `Connection name ${displayName} already exists`);
+      return;
+    }
+    const path = (connectionDetails.parameters as Array<{ value: string }>).map((p) => p.value).join(";");
+    const connection = state.addConnection(displayName, connectionDetails.type, path, credentialDetails?.credentials?.credentialType);
+    res.status(201).json(connection);
+  });
+
+  const findConnection = (req: Request, res: Response) => {
+    const connection = state.connections.get(req.params.connectionId);
+    if (!connection) sendError(res, 404, "ConnectionNotFound", `Connection ${req.params.connectionId} not found`);
+    return connection;
+  };
+
+  fabric.get("/connections/:connectionId", (req, res) => {
+    const connection = findConnection(req, res);
+    if (connection) res.json(connection);
+  });
+
+  fabric.delete("/connections/:connectionId", (req, res) => {
+    if (!findConnection(req, res)) return;
+    state.connections.delete(req.params.connectionId);
+    res.status(200).set("Content-Length", "0").end();
+  });
+
+  // ── Fabric: deployment pipelines ──
+
+  const findPipeline = (req: Request, res: Response) => {
+    const pipeline = state.deploymentPipelines.get(req.params.pipelineId);
+    if (!pipeline) sendError(res, 404, "DeploymentPipelineNotFound", `Deployment pipeline ${req.params.pipelineId} not found`);
+    return pipeline;
+  };
+
+  const findStage = (req: Request, res: Response, stageId: string): EmulatorStage | undefined => {
+    const stage = state.stages.get(req.params.pipelineId)?.find((s) => s.id === stageId);
+    if (!stage) sendError(res, 404, "DeploymentPipelineStageNotFound", `Stage ${stageId} not found`);
+    return stage;
+  };
+
+  fabric.get("/deploymentPipelines", (req, res) => {
+    sendPage(req, res, [...state.deploymentPipelines.values()], pageSize);
+  });
+
+  fabric.post("/deploymentPipelines", (req, res) => {
+    const { displayName, description, stages } = req.body ?? {};
+    if (!displayName) {
+      sendError(res, 400, "InvalidInput", "displayName is required");
+      return;
+    }
+    const stageNames = Array.isArray(stages) ? stages.map((stage: { displayName: string }) => stage.displayName) : undefined;
+    const pipeline = state.addDeploymentPipeline(displayName, description, stageNames);
+    res.status(201).json({ ...pipeline, stages: state.stages.get(pipeline.id) });
+  });
+
+  fabric.get("/deploymentPipelines/:pipelineId", (req, res) => {
+    const pipeline = findPipeline(req, res);
+    if (pipeline) res.json(pipeline);
+  });
+
+  fabric.patch("/deploymentPipelines/:pipelineId", (req, res) => {
+    const pipeline = findPipeline(req, res);
+    if (!pipeline) return;
+    if (req.body?.displayName !== undefined) pipeline.displayName = req.body.displayName;
+    if (req.body?.description !== undefined) pipeline.description = req.body.description;
+    res.json(pipeline);
+  });
+
+  fabric.delete("/deploymentPipelines/:pipelineId", (req, res) => {
+    if (!findPipeline(req, res)) return;
+    state.deleteDeploymentPipeline(req.params.pipelineId);
+    res.status(200).set("Content-Length", "0").end();
+  });
+
+  fabric.get("/deploymentPipelines/:pipelineId/stages", (req, res) => {
+    if (findPipeline(req, res)) sendPage(req, res, state.stages.get(req.params.pipelineId)!, pageSize);
+  });
+
+  fabric.get("/deploymentPipelines/:pipelineId/stages/:stageId/items", (req, res) => {
+    if (!findPipeline(req, res)) return;
+    const stage = findStage(req, res, req.params.stageId);
+    if (!stage) return;
+    const items = stage.workspaceId
+      ? state.listItems(stage.workspaceId).map((item) => ({ itemId: item.id, itemDisplayName: item.displayName, itemType: item.type }))
+      : [];
+    sendPage(req, res, items, pageSize);
+  });
+
+  fabric.post("/deploymentPipelines/:pipelineId/stages/:stageId/assignWorkspace", (req, res) => {
+    if (!findPipeline(req, res)) return;
+    const stage = findStage(req, res, req.params.stageId);
+    if (!stage) return;
+    const workspaceId = req.body?.workspaceId as string | undefined;
+    if (!workspaceId || !state.workspaces.has(workspaceId)) {
+      sendError(res, 404, "WorkspaceNotFound", `Workspace ${workspaceId} not found`);
+      return;
+    }
+    state.assignStageWorkspace(req.params.pipelineId, stage.id, workspaceId);
+    res.status(200).set("Content-Length", "0").end();
+  });
+
+  fabric.post("/deploymentPipelines/:pipelineId/stages/:stageId/unassignWorkspace", (req, res) => {
+    if (!findPipeline(req, res)) return;
+    const stage = findStage(req, res, req.params.stageId);
+    if (!stage) return;
+    state.assignStageWorkspace(req.params.pipelineId, stage.id, undefined);
+    res.status(200).set("Content-Length", "0").end();
+  });
+
+  fabric.post("/deploymentPipelines/:pipelineId/deploy", (req, res) => {
+    if (!findPipeline(req, res)) return;
+    const source = findStage(req, res, req.body?.sourceStageId);
+    if (!source) return;
+    const stages = state.stages.get(req.params.pipelineId)!;
+    const target = req.body?.targetStageId
+      ? findStage(req, res, req.body.targetStageId)
+      : stages.find((stage) => stage.order === source.order + 1);
+    if (!target) {
+      if (!res.headersSent) sendError(res, 400, "InvalidTargetStage", "The source stage has no next stage");
+      return;
+    }
+    if (!source.workspaceId || !target.workspaceId) {
+      sendError(res, 400, "StageWorkspaceNotAssigned", "Both stages need an assigned workspace");
+      return;
+    }
+    const itemIds = Array.isArray(req.body?.items)
+      ? (req.body.items as Array<{ sourceItemId: string }>).map((item) => item.sourceItemId)
+      : undefined;
+    const operation = state.deploy(req.params.pipelineId, source, target, itemIds, req.body?.note);
+    sendAccepted(req, res, state.createOperation(operation));
+  });
+
+  fabric.get("/deploymentPipelines/:pipelineId/operations", (req, res) => {
+    if (findPipeline(req, res)) sendPage(req, res, state.deploymentOperations.get(req.params.pipelineId)!, pageSize);
+  });
+
+  fabric.get("/deploymentPipelines/:pipelineId/operations/:operationId", (req, res) => {
+    if (!findPipeline(req, res)) return;
+    const operation = state.deploymentOperations.get(req.params.pipelineId)!.find((op) => op.id === req.params.operationId);
+    if (!operation) {
+      sendError(res, 404, "OperationNotFound", `Operation ${req.params.operationId} not found`);
+      return;
+    }
+    res.json(operation);
+  });
+
+  // ── Fabric: long-running operations ──
+
+  fabric.get("/operations/:operationId", (req, res) => {
+    const operation = state.pollOperation(req.params.operationId);
+    if (!operation) {
+      sendError(res, 404, "OperationNotFound", `Operation ${req.params.operationId} not found`);
+      return;
+    }
+    res.json(operation);
+  });
+
+  fabric.get("/operations/:operationId/result", (req, res) => {
+    const operation = state.getOperation(req.params.operationId);
+    if (!operation) {
+      sendError(res, 404, "OperationNotFound", `Operation ${req.params.operationId} not found`);
+      return;
+    }
+    if (operation.state.status !== "Succeeded") {
+      sendError(res, 400, "OperationNotSucceeded", `Operation ${req.params.operationId} has not succeeded`);
+      return;
+    }
+    if (operation.result === undefined) {
+      sendError(res, 404, "OperationHasNoResult", `Operation ${req.params.operationId} has no result`);
+      return;
+    }
+    res.json(operation.result);
+  });
+
+  app.use("/v1", fabric);
+
+  // ── Power BI (subset used by the semantic model and report tools) ──
+
+  const powerBI = express.Router();
+
+  const findDataset = (req: Request, res: Response): FabricItem | undefined => {
+    const item = state.findItem(req.params.workspaceId, req.params.datasetId, "SemanticModel");
+    if (!item) res.status(404).json({ error: { code: "ItemNotFound", message: `Dataset ${req.params.datasetId} not found` } });
+    return item;
+  };
+
+  powerBI.post("/groups/:workspaceId/datasets/:datasetId/refreshes", (req, res) => {
+    const item = findDataset(req, res);
+    if (!item) return;
+    const now = new Date().toISOString();
+    const refreshes = state.refreshes.get(item.id) ?? [];
+    refreshes.unshift({ requestId: randomUUID(), refreshType: "ViaApi", startTime: now, endTime: now, status: "Completed" });
+    state.refreshes.set(item.id, refreshes);
+    res.status(202).set("Content-Length", "0").end();
+  });
+
+  powerBI.get("/groups/:workspaceId/datasets/:datasetId/refreshes", (req, res) => {
+    const item = findDataset(req, res);
+    if (!item) return;
+    const top = parseInt(String(req.query.$top ?? ""), 10);
+    const refreshes = state.refreshes.get(item.id) ?? [];
+    res.json({ value: Number.isFinite(top) ? refreshes.slice(0, top) : refreshes });
+  });
+
+  powerBI.post("/groups/:workspaceId/datasets/:datasetId/executeQueries", (req, res) => {
+    if (!findDataset(req, res)) return;
+    res.json({ results: [{ tables: [{ rows: [] }] }] });
+  });
+
+  powerBI.get("/groups/:workspaceId/datasets/:datasetId/datasources", (req, res) => {
+    if (!findDataset(req, res)) return;
+    res.json({ value: [] });
+  });
+
+  app.use("/powerbi/v1.0/myorg", powerBI);
+
+  // ── Kusto (eventhouse query service); echoes the request text back as a one-row result ──
+
+  const kusto = express.Router();
+
+  const readKqlRequest = (req: Request, res: Response): { database: string; csl: string } | undefined => {
+    const { db, csl } = req.body ?? {};
+    if (typeof db !== "string" || typeof csl !== "string") {
+      res.status(400).json({ error: { code: "BadRequest", message: "db and csl are required" } });
+      return undefined;
+    }
+    return { database: db, csl };
+  };
+
+  kusto.post("/v1/rest/mgmt", (req, res) => {
+    const request = readKqlRequest(req, res);
+    if (!request) return;
+    state.kqlRequests.push({ endpoint: "mgmt", ...request });
+    res.json({ Tables: [{ TableName: "Table_0", Columns: [{ ColumnName: "Command" }], Rows: [[request.csl]] }] });
+  });
+
+  kusto.post("/v2/rest/query", (req, res) => {
+    const request = readKqlRequest(req, res);
+    if (!request) return;
+    state.kqlRequests.push({ endpoint: "query", ...request });
+    res.json([
+      { FrameType: "DataSetHeader" },
+      { FrameType: "DataTable", TableKind: "PrimaryResult", Columns: [{ ColumnName: "Query", ColumnType: "string" }], Rows: [[request.csl]] },
+      { FrameType: "DataSetCompletion" },
+    ]);
+  });
+
+  app.use("/kusto", kusto);
+
+  app.use((req: Request, res: Response) => {
+    sendError(res, 404, "EntityNotFound", `The emulator does not implement ${req.method} ${req.path}`);
+  });
+
+  return { app, state };
+}
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+
+import { startEmulator } from "./index.js";
+
+const port = parseInt(process.env.EMULATOR_PORT ?? "5000", 10);
+const pageSize = process.env.EMULATOR_PAGE_SIZE ? parseInt(process.env.EMULATOR_PAGE_SIZE, 10) : undefined;
+
+const emulator = await startEmulator(port, { pageSize });
+const workspace = emulator.state.addWorkspace("Emulator Workspace", "Seeded by the local emulator");
+
+console.error(`Fabric API emulator listening on ${emulator.url}`);
+console.error(`Seeded workspace "${workspace.displayName}" (${workspace.id})`);
+console.error(`Point the server at it with FABRIC_CLOUD_CONFIG='{"fabricBaseUrl":"${emulator.url}/v1","powerBIBaseUrl":"${emulator.url}/powerbi/v1.0/myorg"}'`);
@@ -0,0 +1,57 @@
+import type { AddressInfo } from "node:net";
+import type { TokenCredential } from "@azure/identity";
+import { TokenManager } from "../auth/token-manager.js";
+import { CLOUD_PROFILES, type CloudProfile } from "../core/cloud-config.js";
+import { createEmulatorApp, type EmulatorAppOptions } from "./app.js";
+import { EmulatorState, type EmulatorStateOptions } from "./state.js";
+
+export { createEmulatorApp, EmulatorState };
+export type { EmulatorAppOptions, EmulatorStateOptions };
+
+export interface RunningEmulator {
+  url: string;
+  state: EmulatorState;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the emulator on the given port (0 picks a free port).
+ */
+export function startEmulator(port = 0, options?: EmulatorAppOptions): Promise<RunningEmulator> {
+  const { app, state } = createEmulatorApp(options);
+  return new Promise((resolve, reject) => {
+    const httpServer = app.listen(port, "127.0.0.1", () => {
+      const { port: boundPort } = httpServer.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${boundPort}`,
+        state,
+        close: () => new Promise((done, fail) => httpServer.close((err) => (err ? fail(err) : done()))),
+      });
+    });
+    httpServer.on("error", reject);
+  });
+}
+
+/**
+ * Cloud profile that points FabricClient and PowerBIClient at an emulator.
+ */
+export function createEmulatorCloudProfile(url: string): CloudProfile {
+  return {
+    ...CLOUD_PROFILES.Public,
+    name: "Emulator",
+    fabricBaseUrl: `${url}/v1`,
+    powerBIBaseUrl: `${url}/powerbi/v1.0/myorg`,
+  };
+}
+
+/** Credential that hands out a fixed token; the emulator does not validate tokens. */
+export const emulatorCredential: TokenCredential = {
+  getToken: async () => ({ token: "emulator-token", expiresOnTimestamp: Date.now() + 60 * 60 * 1000 }),
+};
+
+/**
+ * TokenManager wired to an emulator, for `createServer({ tokenManager })`.
+ */
+export function createEmulatorTokenManager(url: string): TokenManager {
+  return new TokenManager(undefined, { cloud: createEmulatorCloudProfile(url), credential: emulatorCredential });
+}
@@ -0,0 +1,439 @@
+import { randomUUID } from "node:crypto";
+import type { FabricItem, ItemDefinitionPart, JobInstance, OperationState } from "../core/types.js";
+
+export interface EmulatorWorkspace {
+  id: string;
+  displayName: string;
+  description?: string;
+  type: "Workspace";
+  capacityId?: string;
+}
+
+interface EmulatorOperation {
+  state: OperationState;
+  pollsRemaining: number;
+  result?: unknown;
+}
+
+interface EmulatorJob {
+  instance: JobInstance;
+  workspaceId: string;
+  pollsRemaining: number;
+}
+
+export interface EmulatorRefresh {
+  requestId: string;
+  refreshType: string;
+  startTime: string;
+  endTime: string;
+  status: "Completed";
+}
+
+export interface EmulatorStage {
+  id: string;
+  order: number;
+  displayName: string;
+  description?: string;
+  isPublic: boolean;
+  workspaceId?: string;
+  workspaceName?: string;
+}
+
+export interface EmulatorDeploymentPipeline {
+  id: string;
+  displayName: string;
+  description?: string;
+}
+
+export interface EmulatorDeploymentOperation {
+  id: string;
+  type: "Deploy";
+  status: "Succeeded";
+  sourceStageId: string;
+  targetStageId: string;
+  executionStartTime: string;
+  executionEndTime: string;
+  note?: { content: string };
+}
+
+export interface EmulatorGitConnection {
+  gitProviderDetails: Record<string, unknown>;
+  gitConnectionState: "Connected" | "ConnectedAndInitialized";
+  gitSyncDetails?: { head: string; lastSyncTime: string };
+}
+
+export interface EmulatorExternalDataShare {
+  id: string;
+  workspaceId: string;
+  itemId: string;
+  paths: string[];
+  recipient: { userPrincipalName: string };
+  status: "Pending" | "Revoked";
+  expirationTimeUtc: string;
+  invitationUrl: string;
+}
+
+export interface EmulatorTable {
+  name: string;
+  type: "Managed";
+  location: string;
+  format: "delta";
+}
+
+export interface EmulatorShortcut {
+  name: string;
+  path: string;
+  target: Record<string, unknown>;
+}
+
+export interface EmulatorConnection {
+  id: string;
+  displayName: string;
+  connectivityType: "ShareableCloud" | "PersonalCloud";
+  connectionDetails: { type: string; path: string };
+  privacyLevel: "None" | "Organizational" | "Private" | "Public";
+  credentialDetails: { credentialType: string; singleSignOnType: "None" };
+}
+
+export interface EmulatorKqlRequest {
+  /** "query" for /v2/rest/query, "mgmt" for control commands sent to /v1/rest/mgmt */
+  endpoint: "query" | "mgmt";
+  database: string;
+  csl: string;
+}
+
+export interface EmulatorStateOptions {
+  /** Number of status polls before an LRO reports Succeeded (default 1). */
+  operationPolls?: number;
+  /** Number of status polls before a job instance reports Completed (default 1). */
+  jobPolls?: number;
+}
+
+/**
+ * In-memory store behind the emulator. Exposed so in-process callers can seed data
+ * and inspect what the tools did.
+ */
+export class EmulatorState {
+  readonly workspaces = new Map<string, EmulatorWorkspace>();
+  readonly items = new Map<string, FabricItem>();
+  readonly definitions = new Map<string, ItemDefinitionPart[]>();
+  readonly refreshes = new Map<string, EmulatorRefresh[]>();
+  readonly deploymentPipelines = new Map<string, EmulatorDeploymentPipeline>();
+  readonly stages = new Map<string, EmulatorStage[]>();
+  readonly deploymentOperations = new Map<string, EmulatorDeploymentOperation[]>();
+  readonly gitConnections = new Map<string, EmulatorGitConnection>();
+  readonly gitCredentials = new Map<string, Record<string, unknown>>();
+  readonly externalDataShares = new Map<string, EmulatorExternalDataShare>();
+  /** Keyed by lakehouse ID */
+  readonly tables = new Map<string, EmulatorTable[]>();
+  /** Lakehouses created with enableSchemas; their tables API is unsupported, as in Fabric */
+  readonly schemaEnabledLakehouses = new Set<string>();
+  /** Keyed by item ID */
+  readonly shortcuts = new Map<string, EmulatorShortcut[]>();
+  readonly connections = new Map<string, EmulatorConnection>();
+  /** KQL queries and commands received, oldest first */
+  readonly kqlRequests: EmulatorKqlRequest[] = [];
+  private operations = new Map<string, EmulatorOperation>();
+  private jobs = new Map<string, EmulatorJob>();
+  private throttleRemaining = 0;
+  private throttleRetryAfterSeconds = 0;
+  private throttleStatus = 429;
+  private operationPolls: number;
+  private jobPolls: number;
+
+  constructor(options?: EmulatorStateOptions) {
+    this.operationPolls = options?.operationPolls ?? 1;
+    this.jobPolls = options?.jobPolls ?? 1;
+  }
+
+  reset(): void {
+    this.workspaces.clear();
+    this.items.clear();
+    this.definitions.clear();
+    this.refreshes.clear();
+    this.deploymentPipelines.clear();
+    this.stages.clear();
+    this.deploymentOperations.clear();
+    this.gitConnections.clear();
+    this.gitCredentials.clear();
+    this.externalDataShares.clear();
+    this.tables.clear();
+    this.schemaEnabledLakehouses.clear();
+    this.shortcuts.clear();
+    this.connections.clear();
+    this.kqlRequests.length = 0;
+    this.operations.clear();
+    this.jobs.clear();
+    this.throttleRemaining = 0;
+  }
+
+  // ── Workspaces ──
+
+  addWorkspace(displayName: string, description?: string, capacityId?: string): EmulatorWorkspace {
+    const workspace: EmulatorWorkspace = { id: randomUUID(), displayName, description, type: "Workspace", capacityId };
+    this.workspaces.set(workspace.id, workspace);
+    return workspace;
+  }
+
+  deleteWorkspace(workspaceId: string): void {
+    this.workspaces.delete(workspaceId);
+    this.gitConnections.delete(workspaceId);
+    this.gitCredentials.delete(workspaceId);
+    for (const item of this.listItems(workspaceId)) {
+      this.deleteItem(item.id);
+    }
+  }
+
+  // ── Items ──
+
+  addItem(
+    workspaceId: string,
+    type: string,
+    displayName: string,
+    description?: string,
+    parts?: ItemDefinitionPart[]
+  ): FabricItem {
+    const item: FabricItem = { id: randomUUID(), displayName, description, type, workspaceId };
+    this.items.set(item.id, item);
+    if (parts) this.definitions.set(item.id, parts);
+    return item;
+  }
+
+  findItem(workspaceId: string, itemId: string, type?: string): FabricItem | undefined {
+    const item = this.items.get(itemId);
+    if (!item || item.workspaceId !== workspaceId) return undefined;
+    if (type && item.type.toLowerCase() !== type.toLowerCase()) return undefined;
+    return item;
+  }
+
+  listItems(workspaceId: string, type?: string): FabricItem[] {
+    return [...this.items.values()].filter(
+      (item) => item.workspaceId === workspaceId && (!type || item.type.toLowerCase() === type.toLowerCase())
+    );
+  }
+
+  deleteItem(itemId: string): void {
+    this.items.delete(itemId);
+    this.definitions.delete(itemId);
+    this.refreshes.delete(itemId);
+    this.tables.delete(itemId);
+    this.shortcuts.delete(itemId);
+    for (const share of this.externalDataShares.values()) {
+      if (share.itemId === itemId) this.externalDataShares.delete(share.id);
+    }
+  }
+
+  // ── Deployment pipelines ──
+
+  addDeploymentPipeline(
+    displayName: string,
+    description?: string,
+    stageNames: string[] = ["Development", "Test", "Production"]
+  ): EmulatorDeploymentPipeline {
+    const pipeline: EmulatorDeploymentPipeline = { id: randomUUID(), displayName, description };
+    this.deploymentPipelines.set(pipeline.id, pipeline);
+    this.stages.set(pipeline.id, stageNames.map((name, order) => ({
+      id: randomUUID(),
+      order,
+      displayName: name,
+      isPublic: false,
+    })));
+    this.deploymentOperations.set(pipeline.id, []);
+    return pipeline;
+  }
+
+  deleteDeploymentPipeline(pipelineId: string): void {
+    this.deploymentPipelines.delete(pipelineId);
+    this.stages.delete(pipelineId);
+    this.deploymentOperations.delete(pipelineId);
+  }
+
+  assignStageWorkspace(pipelineId: string, stageId: string, workspaceId: string | undefined): EmulatorStage | undefined {
+    const stage = this.stages.get(pipelineId)?.find((s) => s.id === stageId);
+    if (!stage) return undefined;
+    stage.workspaceId = workspaceId;
+    stage.workspaceName = workspaceId ? this.workspaces.get(workspaceId)?.displayName : undefined;
+    return stage;
+  }
+
+  /**
+   * Copy the source stage's items into the target stage's workspace, creating those
+   * whose name and type don't exist there yet.
+   */
+  deploy(pipelineId: string, source: EmulatorStage, target: EmulatorStage, itemIds?: string[], note?: string): EmulatorDeploymentOperation {
+    const sourceItems = this.listItems(source.workspaceId!).filter((item) => !itemIds || itemIds.includes(item.id));
+    const targetItems = this.listItems(target.workspaceId!);
+    for (const item of sourceItems) {
+      if (!targetItems.some((t) => t.type === item.type && t.displayName === item.displayName)) {
+        this.addItem(target.workspaceId!, item.type, item.displayName, item.description, this.definitions.get(item.id));
+      }
+    }
+    const now = new Date().toISOString();
+    const operation: EmulatorDeploymentOperation = {
+      id: randomUUID(),
+      type: "Deploy",
+      status: "Succeeded",
+      sourceStageId: source.id,
+      targetStageId: target.id,
+      executionStartTime: now,
+      executionEndTime: now,
+      note: note ? { content: note } : undefined,
+    };
+    this.deploymentOperations.get(pipelineId)?.unshift(operation);
+    return operation;
+  }
+
+  // ── External data shares ──
+
+  addExternalDataShare(workspaceId: string, itemId: string, paths: string[], userPrincipalName: string): EmulatorExternalDataShare {
+    const id = randomUUID();
+    const share: EmulatorExternalDataShare = {
+      id,
+      workspaceId,
+      itemId,
+      paths,
+      recipient: { userPrincipalName },
+      status: "Pending",
+      expirationTimeUtc: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString(),
+      invitationUrl: `https://app.fabric.microsoft.com/externaldatasharing/invitations/${id}`,
+    };
+    this.externalDataShares.set(id, share);
+    return share;
+  }
+
+  // ── Connections ──
+
+  addConnection(displayName: string, type: string, path: string, credentialType = "OAuth2"): EmulatorConnection {
+    const connection: EmulatorConnection = {
+      id: randomUUID(),
+      displayName,
+      connectivityType: "ShareableCloud",
+      connectionDetails: { type, path },
+      privacyLevel: "Organizational",
+      credentialDetails: { credentialType, singleSignOnType: "None" },
+    };
+    this.connections.set(connection.id, connection);
+    return connection;
+  }
+
+  /**
+   * Stored definition parts, or a minimal .platform part for items that never had one.
+   */
+  getDefinition(item: FabricItem): ItemDefinitionPart[] {
+    const stored = this.definitions.get(item.id);
+    if (stored) return stored;
+    const platform = {
+      $schema: "https://developer.microsoft.com/json-schemas/fabric/gitIntegration/platformProperties/2.0.0/schema.json",
+      metadata: { type: item.type, displayName: item.displayName },
+      config: { version: "2.0", logicalId: "00000000-0000-0000-0000-000000000000" },
+    };
+    return [{
+      path: ".platform",
+      payload: Buffer.from(JSON.stringify(platform, null, 2), "utf-8").toString("base64"),
+      payloadType: "InlineBase64",
+    }];
+  }
+
+  // ── Long-running operations ──
+
+  createOperation(result?: unknown): string {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    this.operations.set(id, {
+      state: { id, status: "NotStarted", createdTimeUtc: now, lastUpdatedTimeUtc: now, percentComplete: 0 },
+      pollsRemaining: this.operationPolls,
+      result,
+    });
+    return id;
+  }
+
+  /**
+   * Return the operation state, advancing it one step per poll so callers observe
+   * NotStarted/Running before Succeeded.
+   */
+  pollOperation(operationId: string): OperationState | undefined {
+    const operation = this.operations.get(operationId);
+    if (!operation) return undefined;
+    const { state } = operation;
+    if (state.status === "NotStarted" || state.status === "Running") {
+      if (operation.pollsRemaining <= 0) {
+        state.status = "Succeeded";
+        state.percentComplete = 100;
+      } else {
+        state.status = "Running";
+        state.percentComplete = Math.round(100 * (1 - operation.pollsRemaining / (this.operationPolls + 1)));
+        operation.pollsRemaining--;
+      }
+      state.lastUpdatedTimeUtc = new Date().toISOString();
+    }
+    return { ...state };
+  }
+
+  getOperation(operationId: string): { state: OperationState; result?: unknown } | undefined {
+    const operation = this.operations.get(operationId);
+    return operation ? { state: { ...operation.state }, result: operation.result } : undefined;
+  }
+
+  // ── Job instances ──
+
+  createJob(workspaceId: string, itemId: string, jobType: string): JobInstance {
+    const instance: JobInstance = {
+      id: randomUUID(),
+      itemId,
+      jobType,
+      invokeType: "OnDemand",
+      status: "NotStarted",
+      startTimeUtc: new Date().toISOString(),
+    };
+    this.jobs.set(instance.id, { instance, workspaceId, pollsRemaining: this.jobPolls });
+    return instance;
+  }
+
+  pollJob(itemId: string, jobInstanceId: string): JobInstance | undefined {
+    const job = this.jobs.get(jobInstanceId);
+    if (!job || job.instance.itemId !== itemId) return undefined;
+    const { instance } = job;
+    if (instance.status === "NotStarted" || instance.status === "InProgress") {
+      if (job.pollsRemaining <= 0) {
+        instance.status = "Completed";
+        instance.endTimeUtc = new Date().toISOString();
+      } else {
+        instance.status = "InProgress";
+        job.pollsRemaining--;
+      }
+    }
+    return { ...instance };
+  }
+
+  cancelJob(itemId: string, jobInstanceId: string): boolean {
+    const job = this.jobs.get(jobInstanceId);
+    if (!job || job.instance.itemId !== itemId) return false;
+    if (job.instance.status === "NotStarted" || job.instance.status === "InProgress") {
+      job.instance.status = "Cancelled";
+      job.instance.endTimeUtc = new Date().toISOString();
+    }
+    return true;
+  }
+
+  listJobs(itemId: string): JobInstance[] {
+    return [...this.jobs.values()].filter((job) => job.instance.itemId === itemId).map((job) => ({ ...job.instance }));
+  }
+
+  // ── Throttling ──
+
+  /**
+   * Make the next `count` API requests fail with 429 (or another status, e.g. 502 to
+   * simulate a gateway error) and the given Retry-After.
+   */
+  injectThrottle(count: number, retryAfterSeconds = 0, status = 429): void {
+    this.throttleRemaining = count;
+    this.throttleRetryAfterSeconds = retryAfterSeconds;
+    this.throttleStatus = status;
+  }
+
+  consumeThrottle(): { status: number; retryAfterSeconds: number } | undefined {
+    if (this.throttleRemaining <= 0) return undefined;
+    this.throttleRemaining--;
+    return { status: this.throttleStatus, retryAfterSeconds: this.throttleRetryAfterSeconds };
+  }
+}
@@ -1,24 +1,35 @@
 #!/usr/bin/env node
 
-import { createServer } from "./server.js";
+import { createServer, SERVER_VERSION } from "./server.js";
 import { logger } from "./utils/logger.js";
+import type { Response } from "express";
+import type { AuthenticatedRequest } from "./auth/oauth-handler.js";
+import type { OnBehalfOfUserCredential } from "./auth/obo-credential.js";
 
 const transport = process.env.TRANSPORT ?? "stdio";
 
 async function startStdio() {
+  const { initTracing, shutdownTracing } = await import("./core/tracing.js");
+  await initTracing(SERVER_VERSION);
   const { StdioServerTransport } = await import(
     "@modelcontextprotocol/sdk/server/stdio.js"
   );
+  const { startMetricsFileDump } = await import("./core/metrics.js");
   const server = createServer();
   const stdioTransport = new StdioServerTransport();
+  // Flush buffered spans when the client disconnects
+  server.server.onclose = () => void shutdownTracing();
   await server.connect(stdioTransport);
   console.error("MCP Fabric API server running on stdio");
+  startMetricsFileDump();
   if (logger.isDebug()) {
     logger.info("Server", "Debug logging enabled — set LOG_LEVEL=info or remove LOG_LEVEL to disable");
   }
 }
 
 async function startHttp() {
+  const { initTracing, shutdownTracing } = await import("./core/tracing.js");
+  await initTracing(SERVER_VERSION);
   const { default: express } = await import("express");
   const { StreamableHTTPServerTransport } = await import(
     "@modelcontextprotocol/sdk/server/streamableHttp.js"
@@ -28,7 +39,12 @@ async function startHttp() {
     getOAuthConfig,
     createOAuthMetadataHandler,
     createTokenValidationMiddleware,
+    createReadinessHandler,
+    sessionOwner,
   } = await import("./auth/oauth-handler.js");
+  const { createOnBehalfOfTokenManager } = await import("./auth/obo-credential.js");
+  const { SessionStore } = await import("./core/session-store.js");
+  const { renderMetrics, registerGauge } = await import("./core/metrics.js");
 
   const config = getOAuthConfig();
   const port = parseInt(process.env.PORT ?? "3000", 10);
@@ -42,67 +58,139 @@ async function startHttp() {
     createOAuthMetadataHandler(config)
   );
 
+  // Liveness and readiness probes for load balancers (unauthenticated)
+  app.get("/healthz", (_req, res) => {
+    res.json({ status: "ok", uptimeSeconds: Math.round(process.uptime()), sessions: sessions.stats() });
+  });
+  app.get("/readyz", createReadinessHandler(config));
+
+  // Prometheus scrape endpoint (unauthenticated — expose only on an internal network)
+  app.get("/metrics", (_req, res) => {
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
+  });
+
   // Token validation middleware for MCP endpoint
   app.use("/mcp", createTokenValidationMiddleware(config));
 
-  // Map to store transports by session ID
-  const transports = new Map<string, InstanceType<typeof StreamableHTTPServerTransport>>();
+  interface Session {
+    server: ReturnType<typeof createServer>;
+    transport: InstanceType<typeof StreamableHTTPServerTransport>;
+    /** Exchanges the caller's token for Fabric/Power BI/SQL/Kusto tokens (OBO) */
+    credential: OnBehalfOfUserCredential;
+    /** sessionOwner() of the user who opened the session */
+    owner: string;
+  }
 
-  // Handle MCP requests
-  app.post("/mcp", async (req, res) => {
+  // Sessions by ID; idle ones are evicted so abandoned clients don't leak a server each
+  const sessions = new SessionStore<Session>((session) => session.server.close());
+  registerGauge("sessions_active", "Open MCP sessions", () => sessions.size);
+  registerGauge(
+    "session_rss_growth_bytes",
+    "Process RSS growth since startup divided by open MCP sessions; a rough process-level figure, not per-session memory",
+    () => sessions.stats().rssGrowthPerSessionBytes
+  );
+
+  // Resolve a session for the caller, rejecting requests from anyone but its owner
+  const getSession = (req: AuthenticatedRequest, res: Response): Session | undefined => {
     const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      res.status(400).json({ error: "Invalid or missing session ID" });
+      return undefined;
+    }
+    const owner = sessionOwner(req.authClaims);
+    if (!owner || session.owner !== owner) {
+      logger.warn("Server", "Rejected request for a session owned by another user", { sessionId });
+      res.status(403).json({ error: "Session belongs to another user" });
+      return undefined;
+    }
+    sessions.touch(sessionId!);
+    // The client refreshes its token over the life of the session; OBO must use the current one
+    session.credential.setUserAssertion(req.userToken!);
+    return session;
+  };
 
-    if (sessionId && transports.has(sessionId)) {
-      const sessionTransport = transports.get(sessionId)!;
-      await sessionTransport.handleRequest(req, res, req.body);
+  // Handle MCP requests
+  app.post("/mcp", async (req: AuthenticatedRequest, res) => {
+    if (req.headers["mcp-session-id"]) {
+      const session = getSession(req, res);
+      if (session) await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    // A token without oid or sub+tid can't be tied to a user, so it can't own a session
+    const owner = sessionOwner(req.authClaims);
+    if (!owner) {
+      logger.warn("Server", "Rejected new session: the token identifies no user (no oid, sub or tid claim)");
+      res.status(403).json({ error: "Token does not identify a user" });
       return;
     }
 
+    if (!sessions.reserve()) {
+      logger.warn("Server", `Session limit reached (${sessions.limits.maxSessions}) — rejecting new session`);
+      res.status(503).set("Retry-After", "30").json({ error: "Too many active sessions, retry later" });
+      return;
+    }
+
+    let initialized = false;
+    const { tokenManager, credential } = createOnBehalfOfTokenManager(config, req.userToken!);
+    const server = createServer({ tokenManager });
     const sessionTransport = new StreamableHTTPServerTransport({
       sessionIdGenerator: () => randomUUID(),
       onsessioninitialized: (newSessionId) => {
-        transports.set(newSessionId, sessionTransport);
+        initialized = true;
+        sessions.add(newSessionId, { server, transport: sessionTransport, credential, owner });
       },
     });
 
     sessionTransport.onclose = () => {
       const sid = sessionTransport.sessionId;
-      if (sid) transports.delete(sid);
+      if (sid) sessions.delete(sid);
     };
 
-    const server = createServer();
-    await server.connect(sessionTransport);
-    await sessionTransport.handleRequest(req, res, req.body);
+    try {
+      await server.connect(sessionTransport);
+      await sessionTransport.handleRequest(req, res, req.body);
+    } finally {
+      // Not an initialize request, or it failed: free the slot and the unused server
+      if (!initialized) {
+        sessions.release();
+        await server.close().catch(() => undefined);
+      }
+    }
   });
 
   // Handle SSE for server-to-client notifications
-  app.get("/mcp", async (req, res) => {
-    const sessionId = req.headers["mcp-session-id"] as string | undefined;
-    if (!sessionId || !transports.has(sessionId)) {
-      res.status(400).json({ error: "Invalid or missing session ID" });
-      return;
-    }
-    const sessionTransport = transports.get(sessionId)!;
-    await sessionTransport.handleRequest(req, res);
+  app.get("/mcp", async (req: AuthenticatedRequest, res) => {
+    const session = getSession(req, res);
+    if (session) await session.transport.handleRequest(req, res);
   });
 
   // Handle session deletion
-  app.delete("/mcp", async (req, res) => {
-    const sessionId = req.headers["mcp-session-id"] as string | undefined;
-    if (!sessionId || !transports.has(sessionId)) {
-      res.status(400).json({ error: "Invalid or missing session ID" });
-      return;
-    }
-    const sessionTransport = transports.get(sessionId)!;
-    await sessionTransport.handleRequest(req, res);
+  app.delete("/mcp", async (req: AuthenticatedRequest, res) => {
+    const session = getSession(req, res);
+    if (session) await session.transport.handleRequest(req, res);
   });
 
-  app.listen(port, () => {
+  const httpServer = app.listen(port, () => {
     console.error(`MCP Fabric API server running on http://localhost:${port}/mcp`);
+    if (!process.env.ALLOWED_FILE_ROOTS?.trim()) {
+      logger.warn("Server", "ALLOWED_FILE_ROOTS is not set — file-based tools can read and write anywhere this process can");
+    }
     if (logger.isDebug()) {
       logger.info("Server", "Debug logging enabled — set LOG_LEVEL=info or remove LOG_LEVEL to disable");
     }
   });
+
+  const shutdown = () => {
+    logger.info("Server", "Shutting down — closing sessions");
+    httpServer.close();
+    sessions.closeAll()
+      .then(() => shutdownTracing())
+      .finally(() => process.exit(0));
+  };
+  process.once("SIGTERM", shutdown);
+  process.once("SIGINT", shutdown);
 }
 
 if (transport === "http") {
@@ -3,6 +3,7 @@ import { TokenManager } from "./auth/token-manager.js";
 import { FabricClient } from "./client/fabric-client.js";
 import { PowerBIClient } from "./client/powerbi-client.js";
 import { registerWorkspaceTools } from "./tools/workspace.js";
+import { registerItemTools } from "./tools/item.js";
 import { registerLakehouseTools } from "./tools/lakehouse.js";
 import { registerNotebookTools } from "./tools/notebook.js";
 import { registerPipelineTools } from "./tools/pipeline.js";
@@ -25,51 +26,83 @@ import { registerMlModelTools } from "./tools/ml-model.js";
 import { registerMlExperimentTools } from "./tools/ml-experiment.js";
 import { registerCopyJobTools } from "./tools/copy-job.js";
 import { registerExternalDataShareTools } from "./tools/external-data-share.js";
+import { registerOperationTools } from "./tools/operation.js";
+import { registerAuditTools } from "./tools/audit.js";
+import { registerContextTools } from "./tools/context.js";
 import { SqlClient } from "./client/sql-client.js";
 import { KustoClient } from "./client/kusto-client.js";
 import { WorkspaceGuard } from "./core/workspace-guard.js";
+import { createToolRegistrar } from "./core/tool-registration.js";
+import { NameResolver } from "./core/name-resolver.js";
+import { SessionDefaults } from "./core/session-defaults.js";
+import { callerFromToken } from "./core/audit.js";
+import type { CloudProfile } from "./core/cloud-config.js";
+
+export const SERVER_VERSION = "2.5.0";
 
 export interface CreateServerOptions {
   tokenManager?: TokenManager;
+  /** Cloud endpoints for a newly created TokenManager. Ignored when tokenManager is given. */
+  cloud?: CloudProfile;
+  /** SQL endpoint client, e.g. a stand-in for tests against the emulator (which has no TDS endpoint) */
+  sqlClient?: SqlClient;
 }
 
 export function createServer(options?: CreateServerOptions): McpServer {
   const server = new McpServer({
     name: "mcp-fabric-api",
-    version: "2.5.0",
+    version: SERVER_VERSION,
   });
 
-  const tokenManager = options?.tokenManager ?? new TokenManager();
+  const tokenManager = options?.tokenManager ?? new TokenManager(undefined, { cloud: options?.cloud });
   const fabricClient = new FabricClient(tokenManager);
   const powerBIClient = new PowerBIClient(tokenManager);
-  const sqlClient = new SqlClient(tokenManager);
+  const sqlClient = options?.sqlClient ?? new SqlClient(tokenManager);
   const kustoClient = new KustoClient(tokenManager);
-  const workspaceGuard = new WorkspaceGuard();
+  const nameResolver = new NameResolver(fabricClient);
+  const workspaceGuard = new WorkspaceGuard(nameResolver);
+  // One server per MCP session, so these defaults are per session
+  const sessionDefaults = new SessionDefaults();
+
+  const registrar = createToolRegistrar(server, {
+    // Outside HTTP mode the caller is whoever the Fabric token was issued to
+    localCaller: () => {
+      const token = tokenManager.getCachedToken("fabric");
+      return token ? callerFromToken(token.token) : undefined;
+    },
+    nameResolver,
+    sessionDefaults,
+    fabricClient,
+  });
 
   // Register all domain tools
-  registerWorkspaceTools(server, fabricClient, workspaceGuard);
-  registerLakehouseTools(server, fabricClient, sqlClient, workspaceGuard);
-  registerWarehouseTools(server, fabricClient, workspaceGuard);
-  registerNotebookTools(server, fabricClient, workspaceGuard);
-  registerPipelineTools(server, fabricClient, workspaceGuard);
-  registerSemanticModelTools(server, fabricClient, powerBIClient, workspaceGuard);
-  registerReportTools(server, fabricClient, powerBIClient, workspaceGuard);
-  registerDataflowTools(server, fabricClient, workspaceGuard);
-  registerEventhouseTools(server, fabricClient, kustoClient, workspaceGuard);
-  registerEventstreamTools(server, fabricClient, workspaceGuard);
-  registerReflexTools(server, fabricClient, workspaceGuard);
-  registerGraphQLApiTools(server, fabricClient, powerBIClient, workspaceGuard);
-  registerSqlEndpointTools(server, fabricClient, sqlClient);
-  registerVariableLibraryTools(server, fabricClient, workspaceGuard);
-  registerGitIntegrationTools(server, fabricClient, workspaceGuard);
-  registerDeploymentPipelineTools(server, fabricClient, workspaceGuard);
-  registerMirroredDatabaseTools(server, fabricClient, workspaceGuard);
-  registerKqlDatabaseTools(server, fabricClient, workspaceGuard);
-  registerMlModelTools(server, fabricClient, workspaceGuard);
-  registerMlExperimentTools(server, fabricClient, workspaceGuard);
-  registerCopyJobTools(server, fabricClient, workspaceGuard);
-  registerExternalDataShareTools(server, fabricClient, workspaceGuard);
-  registerAuthTools(server, tokenManager);
+  registerWorkspaceTools(registrar, fabricClient, workspaceGuard);
+  registerItemTools(registrar, fabricClient, workspaceGuard);
+  registerLakehouseTools(registrar, fabricClient, sqlClient, workspaceGuard);
+  registerWarehouseTools(registrar, fabricClient, workspaceGuard);
+  registerNotebookTools(registrar, fabricClient, workspaceGuard);
+  registerPipelineTools(registrar, fabricClient, workspaceGuard);
+  registerSemanticModelTools(registrar, fabricClient, powerBIClient, workspaceGuard);
+  registerReportTools(registrar, fabricClient, powerBIClient, workspaceGuard);
+  registerDataflowTools(registrar, fabricClient, workspaceGuard);
+  registerEventhouseTools(registrar, fabricClient, kustoClient, workspaceGuard);
+  registerEventstreamTools(registrar, fabricClient, workspaceGuard);
+  registerReflexTools(registrar, fabricClient, workspaceGuard);
+  registerGraphQLApiTools(registrar, fabricClient, powerBIClient, workspaceGuard);
+  registerSqlEndpointTools(registrar, fabricClient, sqlClient, workspaceGuard);
+  registerVariableLibraryTools(registrar, fabricClient, workspaceGuard);
+  registerGitIntegrationTools(registrar, fabricClient, workspaceGuard);
+  registerDeploymentPipelineTools(registrar, fabricClient, workspaceGuard);
+  registerMirroredDatabaseTools(registrar, fabricClient, workspaceGuard);
+  registerKqlDatabaseTools(registrar, fabricClient, workspaceGuard);
+  registerMlModelTools(registrar, fabricClient, workspaceGuard);
+  registerMlExperimentTools(registrar, fabricClient, workspaceGuard);
+  registerCopyJobTools(registrar, fabricClient, workspaceGuard);
+  registerExternalDataShareTools(registrar, fabricClient, workspaceGuard);
+  registerOperationTools(registrar, fabricClient);
+  registerAuditTools(registrar);
+  registerContextTools(registrar, fabricClient, nameResolver, sessionDefaults);
+  registerAuthTools(registrar, tokenManager);
 
   return server;
 }
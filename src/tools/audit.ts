@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { formatToolError } from "../core/errors.js";
+import { callerFromClaims, getAuditAdminRoles, queryAuditLog } from "../core/audit.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+function parseTime(value: string | undefined, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${name} must be an ISO 8601 timestamp, got "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * In HTTP mode the log holds every user's calls, so callers only see their own entries
+ * unless their token carries one of AUDIT_ADMIN_ROLES. Returns the object ID to filter
+ * by, or undefined for no filter (stdio mode, or an admin).
+ */
+function callerScope(claims: Record<string, unknown> | undefined): string | undefined {
+  if (!claims) return undefined;
+  const roles = Array.isArray(claims.roles) ? claims.roles : [];
+  if (getAuditAdminRoles().some((role) => roles.includes(role))) return undefined;
+  const objectId = callerFromClaims(claims).objectId;
+  if (!objectId) {
+    throw new Error("Cannot identify the caller: the access token has no oid claim");
+  }
+  return objectId;
+}
+
+export function registerAuditTools(server: ToolRegistrar) {
+  server.tool(
+    "audit_query",
+    "Search the audit log of mutating tool calls (creates, updates, deletes, deployments), newest first. Each entry records the caller, workspace, target item, redacted arguments, outcome and Fabric request ID. In HTTP mode only your own entries are returned unless you hold an audit admin role.",
+    {
+      workspaceId: z.string().optional().describe("Only entries for this workspace ID"),
+      workspaceName: z.string().optional().describe("Only entries for this workspace name (case-insensitive)"),
+      tool: z.string().optional().describe("Only entries for this tool, e.g. workspace_delete"),
+      outcome: z.enum(["success", "error", "blocked", "declined", "confirmation_required"]).optional().describe("Only entries with this outcome"),
+      since: z.string().optional().describe("Only entries at or after this ISO 8601 timestamp"),
+      until: z.string().optional().describe("Only entries at or before this ISO 8601 timestamp"),
+      limit: z.number().min(1).max(MAX_LIMIT).optional()
+        .describe(`Maximum entries to return (default ${DEFAULT_LIMIT}, max ${MAX_LIMIT})`),
+    },
+    async ({ workspaceId, workspaceName, tool, outcome, since, until, limit }, extra) => {
+      try {
+        const callerObjectId = callerScope(extra.authInfo?.extra?.claims as Record<string, unknown> | undefined);
+        const entries = await queryAuditLog({
+          workspaceId,
+          workspaceName,
+          tool,
+          outcome,
+          since: parseTime(since, "since"),
+          until: parseTime(until, "until"),
+          callerObjectId,
+          limit: limit ?? DEFAULT_LIMIT,
+        });
+        return { content: [{ type: "text", text: JSON.stringify({ count: entries.length, entries }, null, 2) }] };
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
@@ -1,9 +1,9 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
 import { TokenManager } from "../auth/token-manager.js";
 import { formatToolError } from "../core/errors.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
 
 const execFileAsync = promisify(execFile);
 
@@ -16,7 +16,7 @@ function decodeJwtPayload(token: string): Record<string, unknown> {
   return JSON.parse(payload);
 }
 
-export function registerAuthTools(server: McpServer, tokenManager: TokenManager) {
+export function registerAuthTools(server: ToolRegistrar, tokenManager: TokenManager) {
   server.tool(
     "auth_get_current_account",
     "Show the current Azure identity, tenant, and token expiry by decoding the Fabric JWT",
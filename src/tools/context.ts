@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { FabricClient } from "../client/fabric-client.js";
+import { formatToolError } from "../core/errors.js";
+import { NameResolver } from "../core/name-resolver.js";
+import { SessionDefaults } from "../core/session-defaults.js";
+import type { ContextRef, DefaultItemKind } from "../core/session-defaults.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+
+const ITEM_TYPES: Record<DefaultItemKind, string> = {
+  lakehouse: "Lakehouse",
+  warehouse: "Warehouse",
+  semanticModel: "SemanticModel",
+};
+
+async function getItemRef(fabricClient: FabricClient, workspaceId: string, itemId: string, kind: DefaultItemKind): Promise<ContextRef> {
+  const response = await fabricClient.get<{ id: string; displayName: string; type: string }>(`/workspaces/${workspaceId}/items/${itemId}`);
+  if (response.data.type !== ITEM_TYPES[kind]) {
+    throw new Error(`Item ${itemId} is a ${response.data.type}, not a ${ITEM_TYPES[kind]}`);
+  }
+  return { id: itemId, displayName: response.data.displayName };
+}
+
+export function registerContextTools(
+  server: ToolRegistrar,
+  fabricClient: FabricClient,
+  nameResolver: NameResolver,
+  sessionDefaults: SessionDefaults,
+) {
+  server.tool(
+    "context_set_workspace",
+    "Set the default workspace for this session, and optionally a default lakehouse, warehouse and semantic model in it. Tools use these when workspaceId (or the matching item ID) is omitted, and say so in their output.",
+    {
+      workspaceId: z.string().describe("The workspace ID"),
+      lakehouseId: z.string().optional().describe("Default lakehouse ID"),
+      warehouseId: z.string().optional().describe("Default warehouse ID"),
+      semanticModelId: z.string().optional().describe("Default semantic model ID"),
+    },
+    async ({ workspaceId, lakehouseId, warehouseId, semanticModelId }) => {
+      try {
+        const workspace = await nameResolver.getWorkspace(workspaceId);
+        const items: Partial<Record<DefaultItemKind, ContextRef>> = {};
+        if (lakehouseId) items.lakehouse = await getItemRef(fabricClient, workspaceId, lakehouseId, "lakehouse");
+        if (warehouseId) items.warehouse = await getItemRef(fabricClient, workspaceId, warehouseId, "warehouse");
+        if (semanticModelId) {
+          items.semanticModel = await getItemRef(fabricClient, workspaceId, semanticModelId, "semanticModel");
+        }
+        sessionDefaults.set({ id: workspace.id, displayName: workspace.displayName }, items);
+        return { content: [{ type: "text", text: JSON.stringify(sessionDefaults.snapshot(), null, 2) }] };
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "context_get",
+    "Show the default workspace and items set for this session with context_set_workspace",
+    {},
+    async () => {
+      try {
+        const snapshot = sessionDefaults.snapshot();
+        const result = snapshot.workspace ? snapshot : { message: "No default workspace is set for this session" };
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "context_clear",
+    "Clear the session's default workspace and items, so tools again require workspaceId",
+    {},
+    async () => {
+      try {
+        sessionDefaults.clear();
+        return { content: [{ type: "text", text: "Session context cleared" }] };
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
@@ -1,24 +1,24 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { runOnDemandJob, getJobInstance, cancelJobInstance, listJobInstances } from "../core/job-scheduler.js";
-import { encodeBase64, decodeBase64 } from "../utils/base64.js";
+import { noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory, submitItemDefinition, encodeDefinitionParts } from "../core/item-definition.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { runOnDemandJob, getJobInstance, cancelJobInstance } from "../core/job-scheduler.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { resolveFilesOrDirectory, writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { resolveFilesOrDirectory } from "../utils/file-utils.js";
 import type { FileEntry } from "../utils/file-utils.js";
 
-export function registerCopyJobTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerCopyJobTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "copy_job_list",
     "List all copy jobs in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const items = await paginateAll(fabricClient, `/workspaces/${workspaceId}/items?type=CopyJob`);
-        return { content: [{ type: "text", text: JSON.stringify(items, null, 2) }] };
+        const items = await listPage(fabricClient, `/workspaces/${workspaceId}/items?type=CopyJob`, query);
+        return formatListResult(items);
       } catch (error) {
         return formatToolError(error);
       }
@@ -111,33 +111,17 @@ export function registerCopyJobTools(server: McpServer, fabricClient: FabricClie
       workspaceId: z.string().describe("The workspace ID"),
       copyJobId: z.string().describe("The copy job ID"),
       outputDirectoryPath: z.string().describe("Directory path where definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, copyJobId, outputDirectoryPath }) => {
+    async ({ workspaceId, copyJobId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/items/${copyJobId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/items/${copyJobId}`,
+          outputDirectoryPath,
+          "Copy job definition",
+          { noWait }
         );
-        type DefPart = { path: string; payload: string; payloadType: string };
-        let parts: DefPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `Copy job definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -155,29 +139,19 @@ export function registerCopyJobTools(server: McpServer, fabricClient: FabricClie
         content: z.string().describe("The file content as a string"),
       })).optional().describe("Array of definition parts to upload"),
       partsDirectoryPath: z.string().optional().describe("Path to a directory containing definition files"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, copyJobId, parts, partsDirectoryPath }) => {
+    async ({ workspaceId, copyJobId, parts, partsDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved: FileEntry[] = await resolveFilesOrDirectory(parts, partsDirectoryPath);
-        const body = {
-          definition: {
-            parts: resolved.map((part) => ({
-              path: part.path,
-              payload: encodeBase64(part.content),
-              payloadType: "InlineBase64",
-            })),
-          },
-        };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/items/${copyJobId}/updateDefinition`,
-          body
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/items/${copyJobId}`,
+          encodeDefinitionParts(resolved),
+          "Copy job definition",
+          { noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "Copy job definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -193,6 +167,7 @@ export function registerCopyJobTools(server: McpServer, fabricClient: FabricClie
     },
     async ({ workspaceId, copyJobId }) => {
       try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const job = await runOnDemandJob(fabricClient, workspaceId, copyJobId, "CopyJob");
         return { content: [{ type: "text", text: JSON.stringify(job, null, 2) }] };
       } catch (error) {
@@ -229,6 +204,7 @@ export function registerCopyJobTools(server: McpServer, fabricClient: FabricClie
     },
     async ({ workspaceId, copyJobId, jobInstanceId }) => {
       try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         await cancelJobInstance(fabricClient, workspaceId, copyJobId, jobInstanceId);
         return { content: [{ type: "text", text: `Copy job run ${jobInstanceId} cancelled successfully` }] };
       } catch (error) {
@@ -243,11 +219,12 @@ export function registerCopyJobTools(server: McpServer, fabricClient: FabricClie
     {
       workspaceId: z.string().describe("The workspace ID"),
       copyJobId: z.string().describe("The copy job ID"),
+      ...listQueryParams,
     },
-    async ({ workspaceId, copyJobId }) => {
+    async ({ workspaceId, copyJobId, ...query }) => {
       try {
-        const jobs = await listJobInstances(fabricClient, workspaceId, copyJobId);
-        return { content: [{ type: "text", text: JSON.stringify(jobs, null, 2) }] };
+        const jobs = await listPage(fabricClient, `/workspaces/${workspaceId}/items/${copyJobId}/jobs/instances`, query);
+        return formatListResult(jobs);
       } catch (error) {
         return formatToolError(error);
       }
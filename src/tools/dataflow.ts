@@ -1,23 +1,22 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { decodeBase64 } from "../utils/base64.js";
-import { runOnDemandJob, getJobInstance, cancelJobInstance } from "../core/job-scheduler.js";
+import { noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory } from "../core/item-definition.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { runOnDemandJob, getJobInstance } from "../core/job-scheduler.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
 
-export function registerDataflowTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerDataflowTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "dataflow_list",
     "List all Dataflow Gen2 items in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const items = await paginateAll(fabricClient, `/workspaces/${workspaceId}/items?type=DataflowGen2`);
-        return { content: [{ type: "text", text: JSON.stringify(items, null, 2) }] };
+        const items = await listPage(fabricClient, `/workspaces/${workspaceId}/items?type=DataflowGen2`, query);
+        return formatListResult(items);
       } catch (error) {
         return formatToolError(error);
       }
@@ -112,6 +111,7 @@ export function registerDataflowTools(server: McpServer, fabricClient: FabricCli
     },
     async ({ workspaceId, dataflowId }) => {
       try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const job = await runOnDemandJob(fabricClient, workspaceId, dataflowId, "Refresh");
         return { content: [{ type: "text", text: JSON.stringify(job, null, 2) }] };
       } catch (error) {
@@ -145,33 +145,17 @@ export function registerDataflowTools(server: McpServer, fabricClient: FabricCli
       workspaceId: z.string().describe("The workspace ID"),
       dataflowId: z.string().describe("The dataflow ID"),
       outputDirectoryPath: z.string().describe("Directory path where definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, dataflowId, outputDirectoryPath }) => {
+    async ({ workspaceId, dataflowId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/items/${dataflowId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/items/${dataflowId}`,
+          outputDirectoryPath,
+          "Dataflow definition",
+          { noWait }
         );
-        type DefPart = { path: string; payload: string; payloadType: string };
-        let parts: DefPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `Dataflow definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
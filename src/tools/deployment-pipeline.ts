@@ -1,20 +1,75 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
 import { paginateAll } from "../core/pagination.js";
-import { pollOperation } from "../core/lro.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { pollOperation, formatOperationAccepted, noWaitParam } from "../core/lro.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
 
-export function registerDeploymentPipelineTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+interface DeploymentPipelineStage {
+  id: string;
+  order: number;
+  displayName: string;
+  workspaceId?: string;
+}
+
+/**
+ * The workspace a deployment writes to: the target stage's, or when no target is given,
+ * the stage after the source (Fabric's default).
+ */
+async function resolveTargetWorkspace(
+  fabricClient: FabricClient,
+  pipelineId: string,
+  sourceStageId: string,
+  targetStageId: string | undefined,
+): Promise<string> {
+  const stages = await paginateAll<DeploymentPipelineStage>(fabricClient, `/deploymentPipelines/${pipelineId}/stages`);
+  let target: DeploymentPipelineStage | undefined;
+  if (targetStageId) {
+    target = stages.find((stage) => stage.id === targetStageId);
+    if (!target) throw new Error(`Stage ${targetStageId} not found in deployment pipeline ${pipelineId}`);
+  } else {
+    const source = stages.find((stage) => stage.id === sourceStageId);
+    if (!source) throw new Error(`Stage ${sourceStageId} not found in deployment pipeline ${pipelineId}`);
+    target = stages.find((stage) => stage.order === source.order + 1);
+    if (!target) throw new Error(`Stage "${source.displayName}" is the last stage of deployment pipeline ${pipelineId}; specify targetStageId`);
+  }
+  if (!target.workspaceId) {
+    throw new Error(`Target stage "${target.displayName}" has no workspace assigned`);
+  }
+  return target.workspaceId;
+}
+
+/**
+ * Guard a change to the pipeline itself against every workspace assigned to its stages;
+ * a pipeline with no assigned workspace is a tenant-level object.
+ */
+async function assertPipelineWriteAllowed(
+  fabricClient: FabricClient,
+  workspaceGuard: WorkspaceGuard,
+  pipelineId: string,
+): Promise<void> {
+  const stages = await paginateAll<DeploymentPipelineStage>(fabricClient, `/deploymentPipelines/${pipelineId}/stages`);
+  const workspaceIds = stages.map((stage) => stage.workspaceId).filter((id): id is string => !!id);
+  if (workspaceIds.length === 0) {
+    await workspaceGuard.assertUnscopedWriteAllowed();
+    return;
+  }
+  for (const workspaceId of workspaceIds) {
+    await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
+  }
+}
+
+export function registerDeploymentPipelineTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "deployment_pipeline_list",
     "List all deployment pipelines accessible to the user",
-    {},
-    async () => {
+    { ...listQueryParams },
+    async (query) => {
       try {
-        const pipelines = await paginateAll(fabricClient, `/deploymentPipelines`);
-        return { content: [{ type: "text", text: JSON.stringify(pipelines, null, 2) }] };
+        const pipelines = await listPage(fabricClient, `/deploymentPipelines`, query);
+        return formatListResult(pipelines);
       } catch (error) {
         return formatToolError(error);
       }
@@ -44,6 +99,7 @@ export function registerDeploymentPipelineTools(server: McpServer, fabricClient:
     },
     async ({ displayName, description }) => {
       try {
+        await workspaceGuard.assertUnscopedWriteAllowed();
         const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
         const response = await fabricClient.post(`/deploymentPipelines`, body);
@@ -64,6 +120,7 @@ export function registerDeploymentPipelineTools(server: McpServer, fabricClient:
     },
     async ({ pipelineId, displayName, description }) => {
       try {
+        await assertPipelineWriteAllowed(fabricClient, workspaceGuard, pipelineId);
         const body: Record<string, unknown> = {};
         if (displayName !== undefined) body.displayName = displayName;
         if (description !== undefined) body.description = description;
@@ -81,6 +138,7 @@ export function registerDeploymentPipelineTools(server: McpServer, fabricClient:
     { pipelineId: z.string().describe("The deployment pipeline ID") },
     async ({ pipelineId }) => {
       try {
+        await assertPipelineWriteAllowed(fabricClient, workspaceGuard, pipelineId);
         await fabricClient.delete(`/deploymentPipelines/${pipelineId}`);
         return { content: [{ type: "text", text: `Deployment pipeline ${pipelineId} deleted successfully` }] };
       } catch (error) {
@@ -92,11 +150,11 @@ export function registerDeploymentPipelineTools(server: McpServer, fabricClient:
   server.tool(
     "deployment_pipeline_list_stages",
     "List all stages in a deployment pipeline",
-    { pipelineId: z.string().describe("The deployment pipeline ID") },
-    async ({ pipelineId }) => {
+    { pipelineId: z.string().describe("The deployment pipeline ID"), ...listQueryParams },
+    async ({ pipelineId, ...query }) => {
       try {
-        const stages = await paginateAll(fabricClient, `/deploymentPipelines/${pipelineId}/stages`);
-        return { content: [{ type: "text", text: JSON.stringify(stages, null, 2) }] };
+        const stages = await listPage(fabricClient, `/deploymentPipelines/${pipelineId}/stages`, query);
+        return formatListResult(stages);
       } catch (error) {
         return formatToolError(error);
       }
@@ -109,11 +167,12 @@ export function registerDeploymentPipelineTools(server: McpServer, fabricClient:
     {
       pipelineId: z.string().describe("The deployment pipeline ID"),
       stageId: z.string().describe("The stage ID"),
+      ...listQueryParams,
     },
-    async ({ pipelineId, stageId }) => {
+    async ({ pipelineId, stageId, ...query }) => {
       try {
-        const items = await paginateAll(fabricClient, `/deploymentPipelines/${pipelineId}/stages/${stageId}/items`);
-        return { content: [{ type: "text", text: JSON.stringify(items, null, 2) }] };
+        const items = await listPage(fabricClient, `/deploymentPipelines/${pipelineId}/stages/${stageId}/items`, query);
+        return formatListResult(items);
       } catch (error) {
         return formatToolError(error);
       }
@@ -176,19 +235,19 @@ export function registerDeploymentPipelineTools(server: McpServer, fabricClient:
         targetItemId: z.string().optional().describe("The target item ID (for updating existing items)"),
       })).optional().describe("Specific items to deploy (deploys all if omitted)"),
       note: z.string().optional().describe("Deployment note"),
-      workspaceId: z.string().optional().describe("The workspace ID (for workspace guard validation)"),
+      noWait: noWaitParam,
     },
-    async ({ pipelineId, sourceStageId, targetStageId, items, note, workspaceId }) => {
+    async ({ pipelineId, sourceStageId, targetStageId, items, note, noWait }) => {
       try {
-        if (workspaceId) {
-          await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
-        }
+        const targetWorkspaceId = await resolveTargetWorkspace(fabricClient, pipelineId, sourceStageId, targetStageId);
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, targetWorkspaceId);
         const body: Record<string, unknown> = { sourceStageId };
         if (targetStageId) body.targetStageId = targetStageId;
         if (items) body.items = items;
         if (note) body.note = note;
         const response = await fabricClient.post(`/deploymentPipelines/${pipelineId}/deploy`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
         }
@@ -202,11 +261,11 @@ export function registerDeploymentPipelineTools(server: McpServer, fabricClient:
   server.tool(
     "deployment_pipeline_list_operations",
     "List operations (deployment history) for a deployment pipeline",
-    { pipelineId: z.string().describe("The deployment pipeline ID") },
-    async ({ pipelineId }) => {
+    { pipelineId: z.string().describe("The deployment pipeline ID"), ...listQueryParams },
+    async ({ pipelineId, ...query }) => {
       try {
-        const operations = await paginateAll(fabricClient, `/deploymentPipelines/${pipelineId}/operations`);
-        return { content: [{ type: "text", text: JSON.stringify(operations, null, 2) }] };
+        const operations = await listPage(fabricClient, `/deploymentPipelines/${pipelineId}/operations`, query);
+        return formatListResult(operations);
       } catch (error) {
         return formatToolError(error);
       }
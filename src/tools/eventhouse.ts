@@ -1,21 +1,40 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { KustoClient } from "../client/kusto-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { pollOperation, getOperationResult, formatOperationAccepted, noWaitParam } from "../core/lro.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
+import type { OperationClass } from "../core/tool-catalog.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { classifyKql } from "../utils/kql.js";
 
-export function registerEventhouseTools(server: McpServer, fabricClient: FabricClient, kustoClient: KustoClient, workspaceGuard: WorkspaceGuard) {
+const NO_QUERY_SERVICE_URI = "The eventhouse does not have a query service URI. It may still be provisioning. Use eventhouse_get_sql_endpoint to check status.";
+
+async function getQueryServiceUri(fabricClient: FabricClient, workspaceId: string, eventhouseId: string): Promise<string | undefined> {
+  const response = await fabricClient.get<Record<string, unknown>>(`/workspaces/${workspaceId}/eventhouses/${eventhouseId}`);
+  const properties = response.data.properties as Record<string, unknown> | undefined;
+  return properties?.queryServiceUri as string | undefined;
+}
+
+/** Operation class a mutating control command counts as for the workspace guard. */
+function operationForCommand(verb: string): Exclude<OperationClass, "read"> {
+  if (verb.startsWith("create")) return "create";
+  if (["drop", "purge", "delete", "clear"].some((v) => verb.startsWith(v))) return "delete";
+  if (["execute", "export", "cancel"].includes(verb)) return "execute";
+  if (verb === "add") return "share";
+  return "update";
+}
+
+export function registerEventhouseTools(server: ToolRegistrar, fabricClient: FabricClient, kustoClient: KustoClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "eventhouse_list",
     "List all eventhouses in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const eventhouses = await paginateAll(fabricClient, `/workspaces/${workspaceId}/eventhouses`);
-        return { content: [{ type: "text", text: JSON.stringify(eventhouses, null, 2) }] };
+        const eventhouses = await listPage(fabricClient, `/workspaces/${workspaceId}/eventhouses`, query);
+        return formatListResult(eventhouses);
       } catch (error) {
         return formatToolError(error);
       }
@@ -46,14 +65,16 @@ export function registerEventhouseTools(server: McpServer, fabricClient: FabricC
       workspaceId: z.string().describe("The workspace ID"),
       displayName: z.string().describe("Display name for the eventhouse"),
       description: z.string().optional().describe("Description of the eventhouse"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description }) => {
+    async ({ workspaceId, displayName, description, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
         const response = await fabricClient.post(`/workspaces/${workspaceId}/eventhouses`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           const result = await getOperationResult(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
@@ -146,16 +167,57 @@ export function registerEventhouseTools(server: McpServer, fabricClient: FabricC
     },
     async ({ workspaceId, eventhouseId, database, query, maxRows }) => {
       try {
-        const response = await fabricClient.get<Record<string, unknown>>(`/workspaces/${workspaceId}/eventhouses/${eventhouseId}`);
-        const properties = response.data.properties as Record<string, unknown> | undefined;
-        const queryServiceUri = properties?.queryServiceUri as string | undefined;
+        const classification = classifyKql(query);
+        if (!classification.readOnly) {
+          return {
+            content: [{ type: "text", text: `.${classification.verb} is a control command that changes the database. Use eventhouse_execute_kql_command to run it.` }],
+            isError: true,
+          };
+        }
+        const queryServiceUri = await getQueryServiceUri(fabricClient, workspaceId, eventhouseId);
         if (!queryServiceUri) {
+          return { content: [{ type: "text", text: NO_QUERY_SERVICE_URI }], isError: true };
+        }
+        // .show commands are only accepted by the management endpoint
+        const result = classification.isCommand
+          ? await kustoClient.executeCommand(queryServiceUri, database, query, maxRows)
+          : await kustoClient.executeQuery(queryServiceUri, database, query, maxRows);
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "eventhouse_execute_kql_command",
+    "Execute a KQL control command (.show, .create, .alter, .drop, .ingest, .set-or-replace, ...) against an eventhouse's KQL database. Commands other than .show require the workspace to be writable.",
+    {
+      workspaceId: z.string().describe("The workspace ID"),
+      eventhouseId: z.string().describe("The eventhouse ID"),
+      database: z.string().describe("KQL database name"),
+      command: z.string().describe("Control command text, starting with '.'"),
+      maxRows: z.number().optional().describe("Maximum number of result rows to return (default 1000)"),
+    },
+    async ({ workspaceId, eventhouseId, database, command, maxRows }) => {
+      try {
+        const classification = classifyKql(command);
+        if (!classification.isCommand) {
           return {
-            content: [{ type: "text", text: "The eventhouse does not have a query service URI. It may still be provisioning. Use eventhouse_get_sql_endpoint to check status." }],
+            content: [{ type: "text", text: "Not a control command (commands start with '.'). Use eventhouse_execute_kql for queries." }],
             isError: true,
           };
         }
-        const result = await kustoClient.executeQuery(queryServiceUri, database, query, maxRows);
+        if (!classification.readOnly) {
+          await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId, {
+            operation: operationForCommand(classification.verb!),
+          });
+        }
+        const queryServiceUri = await getQueryServiceUri(fabricClient, workspaceId, eventhouseId);
+        if (!queryServiceUri) {
+          return { content: [{ type: "text", text: NO_QUERY_SERVICE_URI }], isError: true };
+        }
+        const result = await kustoClient.executeCommand(queryServiceUri, database, command, maxRows);
         return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
       } catch (error) {
         return formatToolError(error);
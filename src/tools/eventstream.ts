@@ -1,22 +1,22 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { decodeBase64, encodeBase64 } from "../utils/base64.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { pollOperation, getOperationResult, formatOperationAccepted, noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory, submitItemDefinition, encodeDefinitionParts } from "../core/item-definition.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { readFilesFromDirectory, writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { readFilesFromDirectory } from "../utils/file-utils.js";
 
-export function registerEventstreamTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerEventstreamTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "eventstream_list",
     "List all eventstreams in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const eventstreams = await paginateAll(fabricClient, `/workspaces/${workspaceId}/eventstreams`);
-        return { content: [{ type: "text", text: JSON.stringify(eventstreams, null, 2) }] };
+        const eventstreams = await listPage(fabricClient, `/workspaces/${workspaceId}/eventstreams`, query);
+        return formatListResult(eventstreams);
       } catch (error) {
         return formatToolError(error);
       }
@@ -47,14 +47,16 @@ export function registerEventstreamTools(server: McpServer, fabricClient: Fabric
       workspaceId: z.string().describe("The workspace ID"),
       displayName: z.string().describe("Display name for the eventstream"),
       description: z.string().optional().describe("Description of the eventstream"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description }) => {
+    async ({ workspaceId, displayName, description, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
         const response = await fabricClient.post(`/workspaces/${workspaceId}/eventstreams`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           const result = await getOperationResult(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
@@ -114,33 +116,17 @@ export function registerEventstreamTools(server: McpServer, fabricClient: Fabric
       workspaceId: z.string().describe("The workspace ID"),
       eventstreamId: z.string().describe("The eventstream ID"),
       outputDirectoryPath: z.string().describe("Directory path where eventstream definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, eventstreamId, outputDirectoryPath }) => {
+    async ({ workspaceId, eventstreamId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/eventstreams/${eventstreamId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/eventstreams/${eventstreamId}`,
+          outputDirectoryPath,
+          "Eventstream definition",
+          { noWait }
         );
-        type DefPart = { path: string; payload: string; payloadType: string };
-        let parts: DefPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `Eventstream definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -154,29 +140,19 @@ export function registerEventstreamTools(server: McpServer, fabricClient: Fabric
       workspaceId: z.string().describe("The workspace ID"),
       eventstreamId: z.string().describe("The eventstream ID"),
       definitionDirectoryPath: z.string().describe("Path to a directory containing eventstream definition files"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, eventstreamId, definitionDirectoryPath }) => {
+    async ({ workspaceId, eventstreamId, definitionDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved = await readFilesFromDirectory(definitionDirectoryPath);
-        const body = {
-          definition: {
-            parts: resolved.map((part) => ({
-              path: part.path,
-              payload: encodeBase64(part.content),
-              payloadType: "InlineBase64",
-            })),
-          },
-        };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/eventstreams/${eventstreamId}/updateDefinition`,
-          body
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/eventstreams/${eventstreamId}`,
+          encodeDefinitionParts(resolved),
+          "Eventstream definition",
+          { noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "Eventstream definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -1,22 +1,23 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
 
-export function registerExternalDataShareTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerExternalDataShareTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "external_data_share_list",
     "List all external data shares for an item",
     {
       workspaceId: z.string().describe("The workspace ID"),
       itemId: z.string().describe("The item ID"),
+      ...listQueryParams,
     },
-    async ({ workspaceId, itemId }) => {
+    async ({ workspaceId, itemId, ...query }) => {
       try {
-        const shares = await paginateAll(fabricClient, `/workspaces/${workspaceId}/items/${itemId}/externalDataShares`);
-        return { content: [{ type: "text", text: JSON.stringify(shares, null, 2) }] };
+        const shares = await listPage(fabricClient, `/workspaces/${workspaceId}/items/${itemId}/externalDataShares`, query);
+        return formatListResult(shares);
       } catch (error) {
         return formatToolError(error);
       }
@@ -1,11 +1,11 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { pollOperation } from "../core/lro.js";
+import { pollOperation, formatOperationAccepted, noWaitParam } from "../core/lro.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
 
-export function registerGitIntegrationTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerGitIntegrationTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "git_get_connection",
     "Get the Git connection details for a workspace",
@@ -80,12 +80,14 @@ export function registerGitIntegrationTools(server: McpServer, fabricClient: Fab
     {
       workspaceId: z.string().describe("The workspace ID"),
       initializationStrategy: z.enum(["PreferWorkspace", "PreferRemote"]).describe("Strategy for resolving conflicts during initialization"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, initializationStrategy }) => {
+    async ({ workspaceId, initializationStrategy, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const response = await fabricClient.post(`/workspaces/${workspaceId}/git/initializeConnection`, { initializationStrategy });
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
         }
@@ -108,8 +110,9 @@ export function registerGitIntegrationTools(server: McpServer, fabricClient: Fab
         logicalId: z.string().optional().describe("The item logical ID"),
       })).optional().describe("Items to commit (required when mode is Selective)"),
       workspaceHead: z.string().optional().describe("Workspace head object ID for concurrency control"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, mode, comment, items, workspaceHead }) => {
+    async ({ workspaceId, mode, comment, items, workspaceHead, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { mode };
@@ -118,6 +121,7 @@ export function registerGitIntegrationTools(server: McpServer, fabricClient: Fab
         if (workspaceHead) body.workspaceHead = workspaceHead;
         const response = await fabricClient.post(`/workspaces/${workspaceId}/git/commitToGit`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
         }
@@ -142,8 +146,9 @@ export function registerGitIntegrationTools(server: McpServer, fabricClient: Fab
       options: z.object({
         allowOverrideItems: z.boolean().optional().describe("Allow overriding workspace items"),
       }).optional().describe("Update options"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, remoteCommitHash, conflictResolution, workspaceHead, options }) => {
+    async ({ workspaceId, remoteCommitHash, conflictResolution, workspaceHead, options, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { remoteCommitHash };
@@ -152,6 +157,7 @@ export function registerGitIntegrationTools(server: McpServer, fabricClient: Fab
         if (options) body.options = options;
         const response = await fabricClient.post(`/workspaces/${workspaceId}/git/updateFromGit`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
         }
@@ -1,23 +1,23 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { PowerBIClient } from "../client/powerbi-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { decodeBase64 } from "../utils/base64.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { pollOperation, getOperationResult, formatOperationAccepted, noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory } from "../core/item-definition.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { classifyGraphQL } from "../utils/graphql.js";
 
-export function registerGraphQLApiTools(server: McpServer, fabricClient: FabricClient, powerBIClient: PowerBIClient, workspaceGuard: WorkspaceGuard) {
+export function registerGraphQLApiTools(server: ToolRegistrar, fabricClient: FabricClient, powerBIClient: PowerBIClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "graphql_api_list",
     "List all GraphQL API items in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const items = await paginateAll(fabricClient, `/workspaces/${workspaceId}/graphQLApis`);
-        return { content: [{ type: "text", text: JSON.stringify(items, null, 2) }] };
+        const items = await listPage(fabricClient, `/workspaces/${workspaceId}/graphQLApis`, query);
+        return formatListResult(items);
       } catch (error) {
         return formatToolError(error);
       }
@@ -48,14 +48,16 @@ export function registerGraphQLApiTools(server: McpServer, fabricClient: FabricC
       workspaceId: z.string().describe("The workspace ID"),
       displayName: z.string().describe("Display name for the GraphQL API"),
       description: z.string().optional().describe("Description of the GraphQL API"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description }) => {
+    async ({ workspaceId, displayName, description, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
         const response = await fabricClient.post(`/workspaces/${workspaceId}/graphQLApis`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           const result = await getOperationResult(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
@@ -115,33 +117,17 @@ export function registerGraphQLApiTools(server: McpServer, fabricClient: FabricC
       workspaceId: z.string().describe("The workspace ID"),
       graphqlApiId: z.string().describe("The GraphQL API ID"),
       outputDirectoryPath: z.string().describe("Directory path where GraphQL definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, graphqlApiId, outputDirectoryPath }) => {
+    async ({ workspaceId, graphqlApiId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/graphQLApis/${graphqlApiId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/graphQLApis/${graphqlApiId}`,
+          outputDirectoryPath,
+          "GraphQL API definition",
+          { noWait }
         );
-        type DefPart = { path: string; payload: string; payloadType: string };
-        let parts: DefPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `GraphQL API definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -150,7 +136,7 @@ export function registerGraphQLApiTools(server: McpServer, fabricClient: FabricC
 
   server.tool(
     "graphql_api_execute_query",
-    "Execute a GraphQL query against a GraphQL API endpoint. Uses the Power BI scope token.",
+    "Execute a GraphQL query against a GraphQL API endpoint. Uses the Power BI scope token. Documents containing a mutation must pass the workspace guard.",
     {
       workspaceId: z.string().describe("The workspace ID"),
       graphqlApiId: z.string().describe("The GraphQL API ID"),
@@ -159,6 +145,10 @@ export function registerGraphQLApiTools(server: McpServer, fabricClient: FabricC
     },
     async ({ workspaceId, graphqlApiId, query, variables }) => {
       try {
+        if (!classifyGraphQL(query).readOnly) {
+          // Mutation resolvers can do anything the API's data sources allow
+          await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId, { operation: "update" });
+        }
         const body: Record<string, unknown> = { query };
         if (variables) body.variables = variables;
         // GraphQL API endpoint uses the Fabric base URL with Power BI scope
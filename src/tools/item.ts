@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { FabricClient } from "../client/fabric-client.js";
+import { formatToolError } from "../core/errors.js";
+import { noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory, submitItemDefinition, submitItemWithDefinition, encodeDefinitionParts } from "../core/item-definition.js";
+import { WorkspaceGuard } from "../core/workspace-guard.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { resolveFilesOrDirectory } from "../utils/file-utils.js";
+
+const formatParam = z.string().optional()
+  .describe("Definition format, e.g. TMDL, TMSL, ipynb, FabricGitSource, PBIR. Omit to use the item type's default.");
+const partsParam = z.array(z.object({
+  path: z.string().describe("The definition part path"),
+  content: z.string().describe("The file content as a string"),
+})).optional().describe("Array of definition parts to upload");
+const partsDirectoryParam = z.string().optional().describe("Path to a directory containing definition files");
+
+export function registerItemTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+  server.tool(
+    "item_get_definition",
+    "Get the definition of any Fabric item by ID (long-running). Works for every item type that supports definitions, including types without dedicated tools (Environment, SparkJobDefinition, KQLDashboard, SQLDatabase, ...). Writes definition files to the specified output directory.",
+    {
+      workspaceId: z.string().describe("The workspace ID"),
+      itemId: z.string().describe("The item ID"),
+      outputDirectoryPath: z.string().describe("Directory path where definition files will be written"),
+      format: formatParam,
+      noWait: noWaitParam,
+    },
+    async ({ workspaceId, itemId, outputDirectoryPath, format, noWait }) => {
+      try {
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/items/${itemId}`,
+          outputDirectoryPath,
+          "Item definition",
+          { format, noWait }
+        );
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "item_update_definition",
+    "Update the definition of any Fabric item by ID (long-running). Accepts definition parts inline or a directory path.",
+    {
+      workspaceId: z.string().describe("The workspace ID"),
+      itemId: z.string().describe("The item ID"),
+      parts: partsParam,
+      partsDirectoryPath: partsDirectoryParam,
+      format: formatParam,
+      updateMetadata: z.boolean().optional().describe("Also update the item's display name and description from the .platform part"),
+      noWait: noWaitParam,
+    },
+    async ({ workspaceId, itemId, parts, partsDirectoryPath, format, updateMetadata, noWait }) => {
+      try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
+        const resolved = await resolveFilesOrDirectory(parts, partsDirectoryPath);
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/items/${itemId}`,
+          encodeDefinitionParts(resolved),
+          "Item definition",
+          { format, updateMetadata, noWait }
+        );
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "item_create_with_definition",
+    "Create a Fabric item of any type with a definition (long-running). Accepts definition parts inline or a directory path.",
+    {
+      workspaceId: z.string().describe("The workspace ID"),
+      type: z.string().describe("The Fabric item type, e.g. Notebook, Environment, SparkJobDefinition, KQLDashboard, SQLDatabase"),
+      displayName: z.string().describe("Display name for the item"),
+      description: z.string().optional().describe("Description of the item"),
+      parts: partsParam,
+      partsDirectoryPath: partsDirectoryParam,
+      format: formatParam,
+      noWait: noWaitParam,
+    },
+    async ({ workspaceId, type, displayName, description, parts, partsDirectoryPath, format, noWait }) => {
+      try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId, { itemType: type });
+        const resolved = await resolveFilesOrDirectory(parts, partsDirectoryPath);
+        const body: Record<string, unknown> = { type, displayName };
+        if (description) body.description = description;
+        return await submitItemWithDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/items`,
+          body,
+          encodeDefinitionParts(resolved),
+          { format, noWait }
+        );
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
@@ -1,23 +1,23 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { encodeBase64, decodeBase64 } from "../utils/base64.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { pollOperation, getOperationResult, formatOperationAccepted, noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory, submitItemDefinition, encodeDefinitionParts } from "../core/item-definition.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { resolveFilesOrDirectory, writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { resolveFilesOrDirectory } from "../utils/file-utils.js";
 import type { FileEntry } from "../utils/file-utils.js";
 
-export function registerKqlDatabaseTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerKqlDatabaseTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "kql_database_list",
     "List all KQL databases in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const items = await paginateAll(fabricClient, `/workspaces/${workspaceId}/kqlDatabases`);
-        return { content: [{ type: "text", text: JSON.stringify(items, null, 2) }] };
+        const items = await listPage(fabricClient, `/workspaces/${workspaceId}/kqlDatabases`, query);
+        return formatListResult(items);
       } catch (error) {
         return formatToolError(error);
       }
@@ -50,8 +50,9 @@ export function registerKqlDatabaseTools(server: McpServer, fabricClient: Fabric
       description: z.string().optional().describe("Description of the KQL database"),
       databaseType: z.enum(["ReadWrite", "ReadOnlyShortcut"]).describe("Database type"),
       parentEventhouseItemId: z.string().describe("Parent eventhouse item ID"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description, databaseType, parentEventhouseItemId }) => {
+    async ({ workspaceId, displayName, description, databaseType, parentEventhouseItemId, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = {
@@ -61,6 +62,7 @@ export function registerKqlDatabaseTools(server: McpServer, fabricClient: Fabric
         if (description) body.description = description;
         const response = await fabricClient.post(`/workspaces/${workspaceId}/kqlDatabases`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           const result = await getOperationResult(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
@@ -120,33 +122,17 @@ export function registerKqlDatabaseTools(server: McpServer, fabricClient: Fabric
       workspaceId: z.string().describe("The workspace ID"),
       kqlDatabaseId: z.string().describe("The KQL database ID"),
       outputDirectoryPath: z.string().describe("Directory path where definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, kqlDatabaseId, outputDirectoryPath }) => {
+    async ({ workspaceId, kqlDatabaseId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/kqlDatabases/${kqlDatabaseId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/kqlDatabases/${kqlDatabaseId}`,
+          outputDirectoryPath,
+          "KQL database definition",
+          { noWait }
         );
-        type DefPart = { path: string; payload: string; payloadType: string };
-        let parts: DefPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `KQL database definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -164,29 +150,19 @@ export function registerKqlDatabaseTools(server: McpServer, fabricClient: Fabric
         content: z.string().describe("The file content as a string"),
       })).optional().describe("Array of definition parts to upload"),
       partsDirectoryPath: z.string().optional().describe("Path to a directory containing definition files"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, kqlDatabaseId, parts, partsDirectoryPath }) => {
+    async ({ workspaceId, kqlDatabaseId, parts, partsDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved: FileEntry[] = await resolveFilesOrDirectory(parts, partsDirectoryPath);
-        const body = {
-          definition: {
-            parts: resolved.map((part) => ({
-              path: part.path,
-              payload: encodeBase64(part.content),
-              payloadType: "InlineBase64",
-            })),
-          },
-        };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/kqlDatabases/${kqlDatabaseId}/updateDefinition`,
-          body
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/kqlDatabases/${kqlDatabaseId}`,
+          encodeDefinitionParts(resolved),
+          "KQL database definition",
+          { noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "KQL database definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -1,29 +1,52 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { SqlClient } from "../client/sql-client.js";
 import { FabricApiError, formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { encodeBase64, decodeBase64 } from "../utils/base64.js";
+import { listEntries, listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { isCursorFor } from "../core/pagination.js";
+import { pollOperation, formatOperationAccepted, noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory, submitItemDefinition, encodeDefinitionParts } from "../core/item-definition.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { resolveFilesOrDirectory, writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { resolveFilesOrDirectory } from "../utils/file-utils.js";
 import type { FileEntry } from "../utils/file-utils.js";
 
+/** Rows fetched per INFORMATION_SCHEMA query; the fallback keeps fetching until a chunk comes back short */
+const SCHEMA_TABLES_CHUNK = 10000;
+
 function isSchemaEnabledError(error: unknown): boolean {
   return error instanceof FabricApiError &&
     error.errorCode === "UnsupportedOperationForSchemasEnabledLakehouse";
 }
 
-export function registerLakehouseTools(server: McpServer, fabricClient: FabricClient, sqlClient: SqlClient, workspaceGuard: WorkspaceGuard) {
+/**
+ * Every row of INFORMATION_SCHEMA.TABLES, fetched in OFFSET/FETCH chunks so a lakehouse
+ * with more tables than one query returns is never cut short.
+ */
+async function queryInformationSchemaTables(sqlClient: SqlClient, server: string, database: string): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (let offset = 0; ; offset += SCHEMA_TABLES_CHUNK) {
+    const result = await sqlClient.executeQuery(
+      server,
+      database,
+      "SELECT TABLE_SCHEMA, TABLE_NAME, TABLE_TYPE FROM INFORMATION_SCHEMA.TABLES ORDER BY TABLE_SCHEMA, TABLE_NAME " +
+        `OFFSET ${offset} ROWS FETCH NEXT ${SCHEMA_TABLES_CHUNK} ROWS ONLY`,
+      SCHEMA_TABLES_CHUNK
+    );
+    rows.push(...result.rows);
+    if (result.rows.length < SCHEMA_TABLES_CHUNK) return rows;
+  }
+}
+
+export function registerLakehouseTools(server: ToolRegistrar, fabricClient: FabricClient, sqlClient: SqlClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "lakehouse_list",
     "List all lakehouses in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const lakehouses = await paginateAll(fabricClient, `/workspaces/${workspaceId}/lakehouses`);
-        return { content: [{ type: "text", text: JSON.stringify(lakehouses, null, 2) }] };
+        const lakehouses = await listPage(fabricClient, `/workspaces/${workspaceId}/lakehouses`, query);
+        return formatListResult(lakehouses);
       } catch (error) {
         return formatToolError(error);
       }
@@ -55,8 +78,9 @@ export function registerLakehouseTools(server: McpServer, fabricClient: FabricCl
       displayName: z.string().describe("Display name for the lakehouse"),
       description: z.string().optional().describe("Description of the lakehouse"),
       enableSchemas: z.boolean().default(true).describe("Create a schema-enabled lakehouse (preview). Defaults to true. Set to false for a classic lakehouse without schema support."),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description, enableSchemas }) => {
+    async ({ workspaceId, displayName, description, enableSchemas, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { displayName };
@@ -64,6 +88,7 @@ export function registerLakehouseTools(server: McpServer, fabricClient: FabricCl
         if (enableSchemas) body.creationPayload = { enableSchemas: true };
         const response = await fabricClient.post(`/workspaces/${workspaceId}/lakehouses`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: response.data }, null, 2) }] };
         }
@@ -117,52 +142,48 @@ export function registerLakehouseTools(server: McpServer, fabricClient: FabricCl
 
   server.tool(
     "lakehouse_list_tables",
-    "List all tables in a lakehouse. For schema-enabled lakehouses, automatically falls back to querying INFORMATION_SCHEMA via the SQL endpoint.",
+    "List all tables in a lakehouse. For schema-enabled lakehouses, automatically falls back to querying INFORMATION_SCHEMA via the SQL endpoint, returning schema, name and type for each table.",
     {
       workspaceId: z.string().describe("The workspace ID"),
       lakehouseId: z.string().describe("The lakehouse ID"),
+      ...listQueryParams,
     },
-    async ({ workspaceId, lakehouseId }) => {
+    async ({ workspaceId, lakehouseId, ...query }) => {
+      const tablesPath = `/workspaces/${workspaceId}/lakehouses/${lakehouseId}/tables`;
+      const fallbackPath = `${tablesPath}#information_schema`;
       try {
-        const tables = await paginateAll(fabricClient, `/workspaces/${workspaceId}/lakehouses/${lakehouseId}/tables`, "data");
-        return { content: [{ type: "text", text: JSON.stringify(tables, null, 2) }] };
-      } catch (error) {
-        if (!isSchemaEnabledError(error)) {
-          return formatToolError(error);
+        // A cursor from an earlier fallback call continues the SQL listing, not the API one
+        if (!query.cursor || !isCursorFor(query.cursor, fallbackPath)) {
+          try {
+            const tables = await listPage(fabricClient, tablesPath, query, "data");
+            return formatListResult(tables);
+          } catch (error) {
+            if (!isSchemaEnabledError(error)) throw error;
+          }
         }
         // Fallback: query INFORMATION_SCHEMA via SQL endpoint for schema-enabled lakehouses
-        try {
-          const response = await fabricClient.get<Record<string, unknown>>(
-            `/workspaces/${workspaceId}/lakehouses/${lakehouseId}`
-          );
-          const displayName = response.data.displayName as string | undefined;
-          const properties = response.data.properties as Record<string, unknown> | undefined;
-          const sqlEndpointProps = properties?.sqlEndpointProperties as Record<string, unknown> | undefined;
-          const connectionString = sqlEndpointProps?.connectionString as string | undefined;
-
-          if (!connectionString) {
-            return {
-              content: [{ type: "text", text: "This is a schema-enabled lakehouse and its SQL endpoint is not yet available. The endpoint may still be provisioning. Try again shortly or use sql_endpoint_execute_query once it's ready." }],
-              isError: true,
-            };
-          }
+        const response = await fabricClient.get<Record<string, unknown>>(
+          `/workspaces/${workspaceId}/lakehouses/${lakehouseId}`
+        );
+        const displayName = response.data.displayName as string | undefined;
+        const properties = response.data.properties as Record<string, unknown> | undefined;
+        const sqlEndpointProps = properties?.sqlEndpointProperties as Record<string, unknown> | undefined;
+        const connectionString = sqlEndpointProps?.connectionString as string | undefined;
 
-          const server = connectionString.replace(/^.*?:\/\//, "").replace(/,.*$/, "").replace(/;.*$/, "");
-          const dbName = displayName ?? lakehouseId;
-          const result = await sqlClient.executeQuery(
-            server,
-            dbName,
-            "SELECT TABLE_SCHEMA, TABLE_NAME, TABLE_TYPE FROM INFORMATION_SCHEMA.TABLES ORDER BY TABLE_SCHEMA, TABLE_NAME"
-          );
+        if (!connectionString) {
           return {
-            content: [{
-              type: "text",
-              text: `Schema-enabled lakehouse — tables retrieved via SQL endpoint:\n${JSON.stringify(result, null, 2)}`,
-            }],
+            content: [{ type: "text", text: "This is a schema-enabled lakehouse and its SQL endpoint is not yet available. The endpoint may still be provisioning. Try again shortly or use sql_endpoint_execute_query once it's ready." }],
+            isError: true,
           };
-        } catch (fallbackError) {
-          return formatToolError(fallbackError);
         }
+
+        const server = connectionString.replace(/^.*?:\/\//, "").replace(/,.*$/, "").replace(/;.*$/, "");
+        const rows = await queryInformationSchemaTables(sqlClient, server, displayName ?? lakehouseId);
+        // Same field names as the tables API, so fields and filter work the same way
+        const tables = rows.map((row) => ({ schema: row.TABLE_SCHEMA, name: row.TABLE_NAME, type: row.TABLE_TYPE }));
+        return formatListResult(listEntries(tables, fallbackPath, query));
+      } catch (error) {
+        return formatToolError(error);
       }
     }
   );
@@ -182,8 +203,9 @@ export function registerLakehouseTools(server: McpServer, fabricClient: FabricCl
         header: z.boolean().optional().describe("Whether CSV has a header row"),
         delimiter: z.string().optional().describe("CSV delimiter character"),
       }).optional().describe("Format options for the source file"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, lakehouseId, tableName, relativePath, pathType, mode, formatOptions }) => {
+    async ({ workspaceId, lakehouseId, tableName, relativePath, pathType, mode, formatOptions, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { relativePath, pathType };
@@ -194,6 +216,7 @@ export function registerLakehouseTools(server: McpServer, fabricClient: FabricCl
           body
         );
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
         }
@@ -332,33 +355,17 @@ export function registerLakehouseTools(server: McpServer, fabricClient: FabricCl
       workspaceId: z.string().describe("The workspace ID"),
       lakehouseId: z.string().describe("The lakehouse ID"),
       outputDirectoryPath: z.string().describe("Directory path where definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, lakehouseId, outputDirectoryPath }) => {
+    async ({ workspaceId, lakehouseId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/lakehouses/${lakehouseId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/lakehouses/${lakehouseId}`,
+          outputDirectoryPath,
+          "Lakehouse definition",
+          { noWait }
         );
-        type DefPart = { path: string; payload: string; payloadType: string };
-        let parts: DefPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `Lakehouse definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -376,29 +383,19 @@ export function registerLakehouseTools(server: McpServer, fabricClient: FabricCl
         content: z.string().describe("The file content as a string"),
       })).optional().describe("Array of definition parts to upload"),
       partsDirectoryPath: z.string().optional().describe("Path to a directory containing definition files"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, lakehouseId, parts, partsDirectoryPath }) => {
+    async ({ workspaceId, lakehouseId, parts, partsDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved: FileEntry[] = await resolveFilesOrDirectory(parts, partsDirectoryPath);
-        const body = {
-          definition: {
-            parts: resolved.map((part) => ({
-              path: part.path,
-              payload: encodeBase64(part.content),
-              payloadType: "InlineBase64",
-            })),
-          },
-        };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/lakehouses/${lakehouseId}/updateDefinition`,
-          body
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/lakehouses/${lakehouseId}`,
+          encodeDefinitionParts(resolved),
+          "Lakehouse definition",
+          { noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "Lakehouse definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -411,11 +408,12 @@ export function registerLakehouseTools(server: McpServer, fabricClient: FabricCl
     {
       workspaceId: z.string().describe("The workspace ID"),
       lakehouseId: z.string().describe("The lakehouse ID"),
+      ...listQueryParams,
     },
-    async ({ workspaceId, lakehouseId }) => {
+    async ({ workspaceId, lakehouseId, ...query }) => {
       try {
-        const shortcuts = await paginateAll(fabricClient, `/workspaces/${workspaceId}/items/${lakehouseId}/shortcuts`);
-        return { content: [{ type: "text", text: JSON.stringify(shortcuts, null, 2) }] };
+        const shortcuts = await listPage(fabricClient, `/workspaces/${workspaceId}/items/${lakehouseId}/shortcuts`, query);
+        return formatListResult(shortcuts);
       } catch (error) {
         return formatToolError(error);
       }
@@ -1,20 +1,20 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { pollOperation, getOperationResult, formatOperationAccepted, noWaitParam } from "../core/lro.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
 
-export function registerMlExperimentTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerMlExperimentTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "ml_experiment_list",
     "List all ML experiments in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const experiments = await paginateAll(fabricClient, `/workspaces/${workspaceId}/mlExperiments`);
-        return { content: [{ type: "text", text: JSON.stringify(experiments, null, 2) }] };
+        const experiments = await listPage(fabricClient, `/workspaces/${workspaceId}/mlExperiments`, query);
+        return formatListResult(experiments);
       } catch (error) {
         return formatToolError(error);
       }
@@ -45,14 +45,16 @@ export function registerMlExperimentTools(server: McpServer, fabricClient: Fabri
       workspaceId: z.string().describe("The workspace ID"),
       displayName: z.string().describe("Display name for the ML experiment"),
       description: z.string().optional().describe("Description of the ML experiment"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description }) => {
+    async ({ workspaceId, displayName, description, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
         const response = await fabricClient.post(`/workspaces/${workspaceId}/mlExperiments`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           const result = await getOperationResult(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
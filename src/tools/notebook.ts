@@ -1,23 +1,23 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { pollOperation, getOperationResult, formatOperationAccepted, noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory, submitItemDefinition, encodeDefinitionParts } from "../core/item-definition.js";
 import { runOnDemandJob, getJobInstance, cancelJobInstance } from "../core/job-scheduler.js";
-import { decodeBase64, encodeBase64 } from "../utils/base64.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { readFilesFromDirectory, writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { readFilesFromDirectory } from "../utils/file-utils.js";
 
-export function registerNotebookTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerNotebookTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "notebook_list",
     "List all notebooks in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const notebooks = await paginateAll(fabricClient, `/workspaces/${workspaceId}/notebooks`);
-        return { content: [{ type: "text", text: JSON.stringify(notebooks, null, 2) }] };
+        const notebooks = await listPage(fabricClient, `/workspaces/${workspaceId}/notebooks`, query);
+        return formatListResult(notebooks);
       } catch (error) {
         return formatToolError(error);
       }
@@ -48,14 +48,16 @@ export function registerNotebookTools(server: McpServer, fabricClient: FabricCli
       workspaceId: z.string().describe("The workspace ID"),
       displayName: z.string().describe("Display name for the notebook"),
       description: z.string().optional().describe("Description of the notebook"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description }) => {
+    async ({ workspaceId, displayName, description, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
         const response = await fabricClient.post(`/workspaces/${workspaceId}/notebooks`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           const result = await getOperationResult(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
@@ -115,33 +117,17 @@ export function registerNotebookTools(server: McpServer, fabricClient: FabricCli
       workspaceId: z.string().describe("The workspace ID"),
       notebookId: z.string().describe("The notebook ID"),
       outputDirectoryPath: z.string().describe("Directory path where notebook definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, notebookId, outputDirectoryPath }) => {
+    async ({ workspaceId, notebookId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/notebooks/${notebookId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/notebooks/${notebookId}`,
+          outputDirectoryPath,
+          "Notebook definition",
+          { noWait }
         );
-        type DefPart = { path: string; payload: string; payloadType: string };
-        let parts: DefPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `Notebook definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -155,29 +141,19 @@ export function registerNotebookTools(server: McpServer, fabricClient: FabricCli
       workspaceId: z.string().describe("The workspace ID"),
       notebookId: z.string().describe("The notebook ID"),
       definitionDirectoryPath: z.string().describe("Path to a directory containing notebook definition files"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, notebookId, definitionDirectoryPath }) => {
+    async ({ workspaceId, notebookId, definitionDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved = await readFilesFromDirectory(definitionDirectoryPath);
-        const body = {
-          definition: {
-            parts: resolved.map((part) => ({
-              path: part.path,
-              payload: encodeBase64(part.content),
-              payloadType: "InlineBase64",
-            })),
-          },
-        };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/notebooks/${notebookId}/updateDefinition`,
-          body
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/notebooks/${notebookId}`,
+          encodeDefinitionParts(resolved),
+          "Notebook definition",
+          { noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "Notebook definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -194,6 +170,7 @@ export function registerNotebookTools(server: McpServer, fabricClient: FabricCli
     },
     async ({ workspaceId, notebookId, parameters }) => {
       try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const executionData = parameters ? { parameters } : undefined;
         const job = await runOnDemandJob(fabricClient, workspaceId, notebookId, "RunNotebook", executionData);
         return { content: [{ type: "text", text: JSON.stringify(job, null, 2) }] };
@@ -231,6 +208,7 @@ export function registerNotebookTools(server: McpServer, fabricClient: FabricCli
     },
     async ({ workspaceId, notebookId, jobInstanceId }) => {
       try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         await cancelJobInstance(fabricClient, workspaceId, notebookId, jobInstanceId);
         return { content: [{ type: "text", text: `Notebook run ${jobInstanceId} cancelled successfully` }] };
       } catch (error) {
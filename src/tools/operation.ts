@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { FabricClient } from "../client/fabric-client.js";
+import { FabricApiError, formatToolError } from "../core/errors.js";
+import { pollOperation, getOperationResult, getOperationState } from "../core/lro.js";
+import { decodeDefinitionParts } from "../core/item-definition.js";
+import { writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ItemDefinitionPart } from "../core/types.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+
+const DEFAULT_WAIT_SECONDS = 60;
+const MAX_WAIT_SECONDS = 240;
+
+export function registerOperationTools(server: ToolRegistrar, fabricClient: FabricClient) {
+  server.tool(
+    "operation_get_status",
+    "Get the current status of a long-running operation started with noWait",
+    { operationId: z.string().describe("The operation ID returned by a noWait tool call") },
+    async ({ operationId }) => {
+      try {
+        const state = await getOperationState(fabricClient, operationId);
+        return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "operation_wait",
+    "Wait a bounded amount of time for a long-running operation to finish. Returns the final state, or the current state with completed=false if it is still running.",
+    {
+      operationId: z.string().describe("The operation ID returned by a noWait tool call"),
+      maxWaitSeconds: z.number().min(1).max(MAX_WAIT_SECONDS).optional()
+        .describe(`Maximum time to wait in seconds (default ${DEFAULT_WAIT_SECONDS}, max ${MAX_WAIT_SECONDS})`),
+    },
+    async ({ operationId, maxWaitSeconds }) => {
+      try {
+        const timeoutMs = (maxWaitSeconds ?? DEFAULT_WAIT_SECONDS) * 1000;
+        try {
+          const state = await pollOperation(fabricClient, operationId, { timeoutMs });
+          return { content: [{ type: "text", text: JSON.stringify({ completed: true, operation: state }, null, 2) }] };
+        } catch (error) {
+          if (!(error instanceof FabricApiError) || error.errorCode !== "OperationTimeout") {
+            throw error;
+          }
+          const state = await getOperationState(fabricClient, operationId);
+          return { content: [{ type: "text", text: JSON.stringify({ completed: false, operation: state }, null, 2) }] };
+        }
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "operation_get_result",
+    "Get the result of a completed long-running operation. For get-definition operations, provide outputDirectoryPath to write the definition files to disk instead of returning them inline.",
+    {
+      operationId: z.string().describe("The operation ID returned by a noWait tool call"),
+      outputDirectoryPath: z.string().optional().describe("Directory path where definition files will be written (for get-definition operations)"),
+    },
+    async ({ operationId, outputDirectoryPath }) => {
+      try {
+        const state = await getOperationState(fabricClient, operationId);
+        if (state.status !== "Succeeded") {
+          return {
+            content: [{ type: "text", text: `Operation ${operationId} has status ${state.status}; a result is only available once it has succeeded.\n${JSON.stringify(state, null, 2)}` }],
+            isError: state.status === "Failed" || state.status === "Cancelled",
+          };
+        }
+        const result = await getOperationResult<Record<string, unknown>>(fabricClient, operationId);
+        if (result === undefined) {
+          return { content: [{ type: "text", text: `Operation ${operationId} succeeded and returned no result` }] };
+        }
+        const parts = (result.definition as { parts?: ItemDefinitionPart[] } | undefined)?.parts;
+        if (outputDirectoryPath && parts) {
+          const written = await writeFilesToDirectory(outputDirectoryPath, decodeDefinitionParts(parts));
+          return { content: [{ type: "text", text: `Definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
+        }
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (error) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
@@ -1,23 +1,23 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { encodeBase64, decodeBase64 } from "../utils/base64.js";
-import { runOnDemandJob, getJobInstance, cancelJobInstance, listJobInstances } from "../core/job-scheduler.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { pollOperation, getOperationResult, formatOperationAccepted, noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory, submitItemDefinition, encodeDefinitionParts } from "../core/item-definition.js";
+import { runOnDemandJob, getJobInstance, cancelJobInstance } from "../core/job-scheduler.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { readFilesFromDirectory, writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { readFilesFromDirectory } from "../utils/file-utils.js";
 
-export function registerPipelineTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerPipelineTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "pipeline_list",
     "List all data pipelines in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const pipelines = await paginateAll(fabricClient, `/workspaces/${workspaceId}/dataPipelines`);
-        return { content: [{ type: "text", text: JSON.stringify(pipelines, null, 2) }] };
+        const pipelines = await listPage(fabricClient, `/workspaces/${workspaceId}/dataPipelines`, query);
+        return formatListResult(pipelines);
       } catch (error) {
         return formatToolError(error);
       }
@@ -48,14 +48,16 @@ export function registerPipelineTools(server: McpServer, fabricClient: FabricCli
       workspaceId: z.string().describe("The workspace ID"),
       displayName: z.string().describe("Display name for the pipeline"),
       description: z.string().optional().describe("Description of the pipeline"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description }) => {
+    async ({ workspaceId, displayName, description, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
         const response = await fabricClient.post(`/workspaces/${workspaceId}/dataPipelines`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           const result = await getOperationResult(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
@@ -118,6 +120,7 @@ export function registerPipelineTools(server: McpServer, fabricClient: FabricCli
     },
     async ({ workspaceId, pipelineId, parameters }) => {
       try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const executionData = parameters ? { parameters } : undefined;
         const job = await runOnDemandJob(fabricClient, workspaceId, pipelineId, "Pipeline", executionData);
         return { content: [{ type: "text", text: JSON.stringify(job, null, 2) }] };
@@ -155,6 +158,7 @@ export function registerPipelineTools(server: McpServer, fabricClient: FabricCli
     },
     async ({ workspaceId, pipelineId, jobInstanceId }) => {
       try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         await cancelJobInstance(fabricClient, workspaceId, pipelineId, jobInstanceId);
         return { content: [{ type: "text", text: `Pipeline run ${jobInstanceId} cancelled successfully` }] };
       } catch (error) {
@@ -169,11 +173,12 @@ export function registerPipelineTools(server: McpServer, fabricClient: FabricCli
     {
       workspaceId: z.string().describe("The workspace ID"),
       pipelineId: z.string().describe("The pipeline ID"),
+      ...listQueryParams,
     },
-    async ({ workspaceId, pipelineId }) => {
+    async ({ workspaceId, pipelineId, ...query }) => {
       try {
-        const jobs = await listJobInstances(fabricClient, workspaceId, pipelineId);
-        return { content: [{ type: "text", text: JSON.stringify(jobs, null, 2) }] };
+        const jobs = await listPage(fabricClient, `/workspaces/${workspaceId}/items/${pipelineId}/jobs/instances`, query);
+        return formatListResult(jobs);
       } catch (error) {
         return formatToolError(error);
       }
@@ -187,13 +192,12 @@ export function registerPipelineTools(server: McpServer, fabricClient: FabricCli
     {
       workspaceId: z.string().describe("The workspace ID"),
       pipelineId: z.string().describe("The pipeline ID"),
+      ...listQueryParams,
     },
-    async ({ workspaceId, pipelineId }) => {
+    async ({ workspaceId, pipelineId, ...query }) => {
       try {
-        const response = await fabricClient.get(
-          `/workspaces/${workspaceId}/items/${pipelineId}/jobSchedules`
-        );
-        return { content: [{ type: "text", text: JSON.stringify(response.data, null, 2) }] };
+        const schedules = await listPage(fabricClient, `/workspaces/${workspaceId}/items/${pipelineId}/jobSchedules`, query);
+        return formatListResult(schedules);
       } catch (error) {
         return formatToolError(error);
       }
@@ -295,33 +299,17 @@ export function registerPipelineTools(server: McpServer, fabricClient: FabricCli
       workspaceId: z.string().describe("The workspace ID"),
       pipelineId: z.string().describe("The pipeline ID"),
       outputDirectoryPath: z.string().describe("Directory path where definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, pipelineId, outputDirectoryPath }) => {
+    async ({ workspaceId, pipelineId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/dataPipelines/${pipelineId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/dataPipelines/${pipelineId}`,
+          outputDirectoryPath,
+          "Pipeline definition",
+          { noWait }
         );
-        type DefPart = { path: string; payload: string; payloadType: string };
-        let parts: DefPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `Pipeline definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -335,29 +323,19 @@ export function registerPipelineTools(server: McpServer, fabricClient: FabricCli
       workspaceId: z.string().describe("The workspace ID"),
       pipelineId: z.string().describe("The pipeline ID"),
       definitionDirectoryPath: z.string().describe("Path to a directory containing pipeline definition files"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, pipelineId, definitionDirectoryPath }) => {
+    async ({ workspaceId, pipelineId, definitionDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved = await readFilesFromDirectory(definitionDirectoryPath);
-        const body = {
-          definition: {
-            parts: resolved.map((part) => ({
-              path: part.path,
-              payload: encodeBase64(part.content),
-              payloadType: "InlineBase64",
-            })),
-          },
-        };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/dataPipelines/${pipelineId}/updateDefinition`,
-          body
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/dataPipelines/${pipelineId}`,
+          encodeDefinitionParts(resolved),
+          "Pipeline definition",
+          { noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "Pipeline definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
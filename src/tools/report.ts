@@ -1,23 +1,23 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { PowerBIClient } from "../client/powerbi-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { encodeBase64, decodeBase64 } from "../utils/base64.js";
+import { noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory, submitItemDefinition, submitItemWithDefinition, encodeDefinitionParts } from "../core/item-definition.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { readFilesFromDirectory, writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { readFilesFromDirectory } from "../utils/file-utils.js";
 
-export function registerReportTools(server: McpServer, fabricClient: FabricClient, powerBIClient: PowerBIClient, workspaceGuard: WorkspaceGuard) {
+export function registerReportTools(server: ToolRegistrar, fabricClient: FabricClient, powerBIClient: PowerBIClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "report_list",
     "List all reports in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const reports = await paginateAll(fabricClient, `/workspaces/${workspaceId}/reports`);
-        return { content: [{ type: "text", text: JSON.stringify(reports, null, 2) }] };
+        const reports = await listPage(fabricClient, `/workspaces/${workspaceId}/reports`, query);
+        return formatListResult(reports);
       } catch (error) {
         return formatToolError(error);
       }
@@ -49,29 +49,21 @@ export function registerReportTools(server: McpServer, fabricClient: FabricClien
       displayName: z.string().describe("Display name for the report"),
       description: z.string().optional().describe("Description of the report"),
       definitionDirectoryPath: z.string().describe("Path to a directory containing report definition files (PBIR format)"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description, definitionDirectoryPath }) => {
+    async ({ workspaceId, displayName, description, definitionDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved = await readFilesFromDirectory(definitionDirectoryPath);
-        const body: Record<string, unknown> = {
-          displayName,
-          definition: {
-            parts: resolved.map((part) => ({
-              path: part.path,
-              payload: encodeBase64(part.content),
-              payloadType: "InlineBase64",
-            })),
-          },
-        };
+        const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
-        const response = await fabricClient.post(`/workspaces/${workspaceId}/reports`, body);
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: JSON.stringify(response.data, null, 2) }] };
+        return await submitItemWithDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/reports`,
+          body,
+          encodeDefinitionParts(resolved),
+          { noWait }
+        );
       } catch (error) {
         return formatToolError(error);
       }
@@ -156,6 +148,7 @@ export function registerReportTools(server: McpServer, fabricClient: FabricClien
     },
     async ({ workspaceId, reportId, format }) => {
       try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const response = await powerBIClient.post<Record<string, unknown>>(
           `/groups/${workspaceId}/reports/${reportId}/ExportTo`,
           { format }
@@ -194,33 +187,17 @@ export function registerReportTools(server: McpServer, fabricClient: FabricClien
       workspaceId: z.string().describe("The workspace ID"),
       reportId: z.string().describe("The report ID"),
       outputDirectoryPath: z.string().describe("Directory path where report definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, reportId, outputDirectoryPath }) => {
+    async ({ workspaceId, reportId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/reports/${reportId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/reports/${reportId}`,
+          outputDirectoryPath,
+          "Report definition",
+          { noWait }
         );
-        type DefPart = { path: string; payload: string; payloadType: string };
-        let parts: DefPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `Report definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -234,29 +211,19 @@ export function registerReportTools(server: McpServer, fabricClient: FabricClien
       workspaceId: z.string().describe("The workspace ID"),
       reportId: z.string().describe("The report ID"),
       definitionDirectoryPath: z.string().describe("Path to a directory containing report definition files (PBIR format)"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, reportId, definitionDirectoryPath }) => {
+    async ({ workspaceId, reportId, definitionDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved = await readFilesFromDirectory(definitionDirectoryPath);
-        const body = {
-          definition: {
-            parts: resolved.map((part) => ({
-              path: part.path,
-              payload: encodeBase64(part.content),
-              payloadType: "InlineBase64",
-            })),
-          },
-        };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/reports/${reportId}/updateDefinition`,
-          body
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/reports/${reportId}`,
+          encodeDefinitionParts(resolved),
+          "Report definition",
+          { noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "Report definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
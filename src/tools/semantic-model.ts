@@ -1,25 +1,25 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { PowerBIClient } from "../client/powerbi-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { encodeBase64, decodeBase64 } from "../utils/base64.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { formatOperationAccepted, noWaitParam } from "../core/lro.js";
+import { getItemDefinition, submitItemDefinition, submitItemWithDefinition, encodeDefinitionParts } from "../core/item-definition.js";
+import { decodeBase64 } from "../utils/base64.js";
 import { decodeTmdlParts, encodeTmdlParts } from "../utils/tmdl.js";
-import type { DefinitionPart } from "../utils/tmdl.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
 import { readContentFromFile, readFilesFromDirectory, writeContentToFile, writeFilesToDirectory } from "../utils/file-utils.js";
 
-export function registerSemanticModelTools(server: McpServer, fabricClient: FabricClient, powerBIClient: PowerBIClient, workspaceGuard: WorkspaceGuard) {
+export function registerSemanticModelTools(server: ToolRegistrar, fabricClient: FabricClient, powerBIClient: PowerBIClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "semantic_model_list",
     "List all semantic models in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const models = await paginateAll(fabricClient, `/workspaces/${workspaceId}/semanticModels`);
-        return { content: [{ type: "text", text: JSON.stringify(models, null, 2) }] };
+        const models = await listPage(fabricClient, `/workspaces/${workspaceId}/semanticModels`, query);
+        return formatListResult(models);
       } catch (error) {
         return formatToolError(error);
       }
@@ -51,36 +51,19 @@ export function registerSemanticModelTools(server: McpServer, fabricClient: Fabr
       displayName: z.string().describe("Display name for the semantic model"),
       description: z.string().optional().describe("Description of the semantic model"),
       definitionFilePath: z.string().describe("Path to a file containing the model.bim JSON"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description, definitionFilePath }) => {
+    async ({ workspaceId, displayName, description, definitionFilePath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved = await readContentFromFile(definitionFilePath);
-        const body: Record<string, unknown> = {
-          displayName,
-          definition: {
-            parts: [
-              {
-                path: "model.bim",
-                payload: encodeBase64(resolved),
-                payloadType: "InlineBase64",
-              },
-              {
-                path: "definition.pbism",
-                payload: encodeBase64(JSON.stringify({ version: "1.0", settings: {} })),
-                payloadType: "InlineBase64",
-              },
-            ],
-          },
-        };
+        const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
-        const response = await fabricClient.post(`/workspaces/${workspaceId}/semanticModels`, body);
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: JSON.stringify(response.data, null, 2) }] };
+        const parts = encodeDefinitionParts([
+          { path: "model.bim", content: resolved },
+          { path: "definition.pbism", content: JSON.stringify({ version: "1.0", settings: {} }) },
+        ]);
+        return await submitItemWithDefinition(fabricClient, `/workspaces/${workspaceId}/semanticModels`, body, parts, { noWait });
       } catch (error) {
         return formatToolError(error);
       }
@@ -95,8 +78,9 @@ export function registerSemanticModelTools(server: McpServer, fabricClient: Fabr
       displayName: z.string().describe("Display name for the semantic model"),
       description: z.string().optional().describe("Description of the semantic model"),
       filesDirectoryPath: z.string().describe("Path to a directory containing .tmdl and .pbism files"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description, filesDirectoryPath }) => {
+    async ({ workspaceId, displayName, description, filesDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved = await readFilesFromDirectory(filesDirectoryPath, [".tmdl", ".pbism"]);
@@ -108,18 +92,15 @@ export function registerSemanticModelTools(server: McpServer, fabricClient: Fabr
             payloadType: "InlineBase64",
           });
         }
-        const body: Record<string, unknown> = {
-          displayName,
-          definition: { parts },
-        };
+        const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
-        const response = await fabricClient.post(`/workspaces/${workspaceId}/semanticModels?format=TMDL`, body);
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: JSON.stringify(response.data, null, 2) }] };
+        return await submitItemWithDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/semanticModels`,
+          body,
+          parts,
+          { format: "TMDL", noWait }
+        );
       } catch (error) {
         return formatToolError(error);
       }
@@ -176,6 +157,7 @@ export function registerSemanticModelTools(server: McpServer, fabricClient: Fabr
     },
     async ({ workspaceId, semanticModelId }) => {
       try {
+        await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const response = await powerBIClient.post(
           `/groups/${workspaceId}/datasets/${semanticModelId}/refreshes`,
           { notifyOption: "NoNotification" }
@@ -218,23 +200,17 @@ export function registerSemanticModelTools(server: McpServer, fabricClient: Fabr
       workspaceId: z.string().describe("The workspace ID"),
       semanticModelId: z.string().describe("The semantic model ID"),
       outputFilePath: z.string().describe("File path where the model.bim JSON will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, semanticModelId, outputFilePath }) => {
+    async ({ workspaceId, semanticModelId, outputFilePath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/semanticModels/${semanticModelId}/getDefinition`
+        const result = await getItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/semanticModels/${semanticModelId}`,
+          { noWait }
         );
-        let parts: DefinitionPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefinitionPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefinitionPart[] }).parts;
-        }
+        if ("accepted" in result) return formatOperationAccepted(result.accepted);
+        const parts = result.parts;
         if (!parts) {
           return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
         }
@@ -258,23 +234,17 @@ export function registerSemanticModelTools(server: McpServer, fabricClient: Fabr
       workspaceId: z.string().describe("The workspace ID"),
       semanticModelId: z.string().describe("The semantic model ID"),
       outputDirectoryPath: z.string().describe("Directory path where TMDL files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, semanticModelId, outputDirectoryPath }) => {
+    async ({ workspaceId, semanticModelId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/semanticModels/${semanticModelId}/getDefinition?format=TMDL`
+        const result = await getItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/semanticModels/${semanticModelId}`,
+          { format: "TMDL", noWait }
         );
-        let parts: DefinitionPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefinitionPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefinitionPart[] }).parts;
-        }
+        if ("accepted" in result) return formatOperationAccepted(result.accepted);
+        const parts = result.parts;
         if (!parts) {
           return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
         }
@@ -294,36 +264,23 @@ export function registerSemanticModelTools(server: McpServer, fabricClient: Fabr
       workspaceId: z.string().describe("The workspace ID"),
       semanticModelId: z.string().describe("The semantic model ID"),
       definitionFilePath: z.string().describe("Path to a file containing the model.bim JSON"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, semanticModelId, definitionFilePath }) => {
+    async ({ workspaceId, semanticModelId, definitionFilePath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved = await readContentFromFile(definitionFilePath);
-        const body = {
-          definition: {
-            parts: [
-              {
-                path: "model.bim",
-                payload: encodeBase64(resolved),
-                payloadType: "InlineBase64",
-              },
-              {
-                path: "definition.pbism",
-                payload: encodeBase64(JSON.stringify({ version: "1.0", settings: {} })),
-                payloadType: "InlineBase64",
-              },
-            ],
-          },
-        };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/semanticModels/${semanticModelId}/updateDefinition`,
-          body
+        const parts = encodeDefinitionParts([
+          { path: "model.bim", content: resolved },
+          { path: "definition.pbism", content: JSON.stringify({ version: "1.0", settings: {} }) },
+        ]);
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/semanticModels/${semanticModelId}`,
+          parts,
+          "Semantic model definition",
+          { noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "Semantic model definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -337,8 +294,9 @@ export function registerSemanticModelTools(server: McpServer, fabricClient: Fabr
       workspaceId: z.string().describe("The workspace ID"),
       semanticModelId: z.string().describe("The semantic model ID"),
       filesDirectoryPath: z.string().describe("Path to a directory containing .tmdl and .pbism files"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, semanticModelId, filesDirectoryPath }) => {
+    async ({ workspaceId, semanticModelId, filesDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved = await readFilesFromDirectory(filesDirectoryPath, [".tmdl", ".pbism"]);
@@ -350,18 +308,13 @@ export function registerSemanticModelTools(server: McpServer, fabricClient: Fabr
             payloadType: "InlineBase64",
           });
         }
-        const body = {
-          definition: { parts },
-        };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/semanticModels/${semanticModelId}/updateDefinition?format=TMDL`,
-          body
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/semanticModels/${semanticModelId}`,
+          parts,
+          "Semantic model TMDL definition",
+          { format: "TMDL", noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "Semantic model TMDL definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -1,19 +1,42 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { SqlClient } from "../client/sql-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { WorkspaceGuard } from "../core/workspace-guard.js";
+import type { OperationClass } from "../core/tool-catalog.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { classifyTsql, describeTsqlWrites, type TsqlWrite } from "../utils/tsql.js";
 
-export function registerSqlEndpointTools(server: McpServer, fabricClient: FabricClient, sqlClient: SqlClient) {
+/** Operation class a T-SQL write counts as for the workspace guard. */
+function operationForWrite(write: TsqlWrite): Exclude<OperationClass, "read"> {
+  switch (write.keyword) {
+    case "CREATE":
+    case "SELECT INTO":
+      return "create";
+    case "DROP":
+    case "DELETE":
+    case "TRUNCATE":
+      return "delete";
+  }
+  if (write.category === "exec") return "execute";
+  if (write.category === "dcl") return "share";
+  return "update";
+}
+
+function isReadOnlyTransactionEnabled(): boolean {
+  return ["true", "1", "yes"].includes(process.env.SQL_READ_ONLY_TRANSACTIONS?.trim().toLowerCase() ?? "");
+}
+
+export function registerSqlEndpointTools(server: ToolRegistrar, fabricClient: FabricClient, sqlClient: SqlClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "sql_endpoint_list",
     "List all SQL endpoints in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const endpoints = await paginateAll(fabricClient, `/workspaces/${workspaceId}/sqlEndpoints`);
-        return { content: [{ type: "text", text: JSON.stringify(endpoints, null, 2) }] };
+        const endpoints = await listPage(fabricClient, `/workspaces/${workspaceId}/sqlEndpoints`, query);
+        return formatListResult(endpoints);
       } catch (error) {
         return formatToolError(error);
       }
@@ -65,7 +88,7 @@ export function registerSqlEndpointTools(server: McpServer, fabricClient: Fabric
 
   server.tool(
     "sql_endpoint_execute_query",
-    "Execute a T-SQL query against a lakehouse or warehouse SQL endpoint",
+    "Execute a T-SQL query against a lakehouse or warehouse SQL endpoint. Statements other than queries (DML, DDL, EXEC) require the workspace to be writable.",
     {
       query: z.string().describe("T-SQL query to execute"),
       workspaceId: z.string().describe("The workspace ID containing the resource"),
@@ -76,6 +99,19 @@ export function registerSqlEndpointTools(server: McpServer, fabricClient: Fabric
     },
     async ({ query, workspaceId, itemId, itemType, database, maxRows }) => {
       try {
+        const classification = classifyTsql(query);
+        if (!classification.readOnly) {
+          const operations = new Set(classification.writes.map(operationForWrite));
+          try {
+            for (const operation of operations) {
+              await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId, { itemType, operation });
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Query contains ${describeTsqlWrites(classification.writes)}, which modifies data or schema. ${message}`);
+          }
+        }
+
         let connectionString: string | undefined;
         let displayName: string | undefined;
 
@@ -103,7 +139,9 @@ export function registerSqlEndpointTools(server: McpServer, fabricClient: Fabric
         const server = connectionString.replace(/^.*?:\/\//, "").replace(/,.*$/, "").replace(/;.*$/, "");
         const dbName = database ?? displayName ?? itemId;
 
-        const result = await sqlClient.executeQuery(server, dbName, query, maxRows);
+        const result = await sqlClient.executeQuery(server, dbName, query, maxRows, {
+          readOnly: classification.readOnly && isReadOnlyTransactionEnabled(),
+        });
         return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
       } catch (error) {
         return formatToolError(error);
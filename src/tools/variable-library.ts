@@ -1,12 +1,12 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { encodeBase64, decodeBase64 } from "../utils/base64.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { pollOperation, getOperationResult, formatOperationAccepted, noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory, submitItemDefinition, submitItemWithDefinition, encodeDefinitionParts } from "../core/item-definition.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { readFilesFromDirectory, writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { readFilesFromDirectory } from "../utils/file-utils.js";
 
 interface DefinitionPart {
   path: string;
@@ -14,15 +14,15 @@ interface DefinitionPart {
   payloadType: string;
 }
 
-export function registerVariableLibraryTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerVariableLibraryTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "variable_library_list",
     "List all variable libraries in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const items = await paginateAll(fabricClient, `/workspaces/${workspaceId}/VariableLibraries`);
-        return { content: [{ type: "text", text: JSON.stringify(items, null, 2) }] };
+        const items = await listPage(fabricClient, `/workspaces/${workspaceId}/VariableLibraries`, query);
+        return formatListResult(items);
       } catch (error) {
         return formatToolError(error);
       }
@@ -54,23 +54,26 @@ export function registerVariableLibraryTools(server: McpServer, fabricClient: Fa
       displayName: z.string().describe("Display name for the variable library"),
       description: z.string().optional().describe("Description of the variable library (max 256 characters)"),
       definitionDirectoryPath: z.string().optional().describe("Path to a directory containing definition files (variables.json, settings.json, valueSets/*.json, .platform)"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description, definitionDirectoryPath }) => {
+    async ({ workspaceId, displayName, description, definitionDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
         if (definitionDirectoryPath) {
           const files = await readFilesFromDirectory(definitionDirectoryPath, [".json", ".platform"]);
-          const parts = files.map((f) => ({
-            path: f.path,
-            payload: encodeBase64(f.content),
-            payloadType: "InlineBase64",
-          }));
-          body.definition = { format: "VariableLibraryV1", parts };
+          return await submitItemWithDefinition(
+            fabricClient,
+            `/workspaces/${workspaceId}/VariableLibraries`,
+            body,
+            encodeDefinitionParts(files),
+            { format: "VariableLibraryV1", noWait }
+          );
         }
         const response = await fabricClient.post(`/workspaces/${workspaceId}/VariableLibraries`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           const result = await getOperationResult(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
@@ -132,32 +135,17 @@ export function registerVariableLibraryTools(server: McpServer, fabricClient: Fa
       workspaceId: z.string().describe("The workspace ID"),
       variableLibraryId: z.string().describe("The variable library ID"),
       outputDirectoryPath: z.string().describe("Directory path where definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, variableLibraryId, outputDirectoryPath }) => {
+    async ({ workspaceId, variableLibraryId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/VariableLibraries/${variableLibraryId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/VariableLibraries/${variableLibraryId}`,
+          outputDirectoryPath,
+          "Variable library definition",
+          { noWait }
         );
-        let parts: DefinitionPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefinitionPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefinitionPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `Variable library definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -171,26 +159,19 @@ export function registerVariableLibraryTools(server: McpServer, fabricClient: Fa
       workspaceId: z.string().describe("The workspace ID"),
       variableLibraryId: z.string().describe("The variable library ID"),
       definitionDirectoryPath: z.string().describe("Path to a directory containing definition files (variables.json, settings.json, valueSets/*.json, .platform)"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, variableLibraryId, definitionDirectoryPath }) => {
+    async ({ workspaceId, variableLibraryId, definitionDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const files = await readFilesFromDirectory(definitionDirectoryPath, [".json", ".platform"]);
-        const parts = files.map((f) => ({
-          path: f.path,
-          payload: encodeBase64(f.content),
-          payloadType: "InlineBase64",
-        }));
-        const body = { definition: { parts } };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/VariableLibraries/${variableLibraryId}/updateDefinition`,
-          body
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/VariableLibraries/${variableLibraryId}`,
+          encodeDefinitionParts(files),
+          "Variable library definition",
+          { noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "Variable library definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -1,23 +1,23 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
-import { pollOperation, getOperationResult } from "../core/lro.js";
-import { encodeBase64, decodeBase64 } from "../utils/base64.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
+import { pollOperation, getOperationResult, formatOperationAccepted, noWaitParam } from "../core/lro.js";
+import { writeItemDefinitionToDirectory, submitItemDefinition, encodeDefinitionParts } from "../core/item-definition.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
-import { resolveFilesOrDirectory, writeFilesToDirectory } from "../utils/file-utils.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
+import { resolveFilesOrDirectory } from "../utils/file-utils.js";
 import type { FileEntry } from "../utils/file-utils.js";
 
-export function registerWarehouseTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerWarehouseTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "warehouse_list",
     "List all warehouses in a workspace",
-    { workspaceId: z.string().describe("The workspace ID") },
-    async ({ workspaceId }) => {
+    { workspaceId: z.string().describe("The workspace ID"), ...listQueryParams },
+    async ({ workspaceId, ...query }) => {
       try {
-        const warehouses = await paginateAll(fabricClient, `/workspaces/${workspaceId}/warehouses`);
-        return { content: [{ type: "text", text: JSON.stringify(warehouses, null, 2) }] };
+        const warehouses = await listPage(fabricClient, `/workspaces/${workspaceId}/warehouses`, query);
+        return formatListResult(warehouses);
       } catch (error) {
         return formatToolError(error);
       }
@@ -48,14 +48,16 @@ export function registerWarehouseTools(server: McpServer, fabricClient: FabricCl
       workspaceId: z.string().describe("The workspace ID"),
       displayName: z.string().describe("Display name for the warehouse"),
       description: z.string().optional().describe("Description of the warehouse"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, displayName, description }) => {
+    async ({ workspaceId, displayName, description, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
         const response = await fabricClient.post(`/workspaces/${workspaceId}/warehouses`, body);
         if (response.lro) {
+          if (noWait) return formatOperationAccepted(response.lro);
           const state = await pollOperation(fabricClient, response.lro.operationId);
           const result = await getOperationResult(fabricClient, response.lro.operationId);
           return { content: [{ type: "text", text: JSON.stringify({ operation: state, item: result ?? response.data }, null, 2) }] };
@@ -137,11 +139,12 @@ export function registerWarehouseTools(server: McpServer, fabricClient: FabricCl
     {
       workspaceId: z.string().describe("The workspace ID"),
       warehouseId: z.string().describe("The warehouse ID"),
+      ...listQueryParams,
     },
-    async ({ workspaceId, warehouseId }) => {
+    async ({ workspaceId, warehouseId, ...query }) => {
       try {
-        const tables = await paginateAll(fabricClient, `/workspaces/${workspaceId}/warehouses/${warehouseId}/tables`, "data");
-        return { content: [{ type: "text", text: JSON.stringify(tables, null, 2) }] };
+        const tables = await listPage(fabricClient, `/workspaces/${workspaceId}/warehouses/${warehouseId}/tables`, query, "data");
+        return formatListResult(tables);
       } catch (error) {
         return formatToolError(error);
       }
@@ -155,33 +158,17 @@ export function registerWarehouseTools(server: McpServer, fabricClient: FabricCl
       workspaceId: z.string().describe("The workspace ID"),
       warehouseId: z.string().describe("The warehouse ID"),
       outputDirectoryPath: z.string().describe("Directory path where definition files will be written"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, warehouseId, outputDirectoryPath }) => {
+    async ({ workspaceId, warehouseId, outputDirectoryPath, noWait }) => {
       try {
-        const response = await fabricClient.post<Record<string, unknown>>(
-          `/workspaces/${workspaceId}/warehouses/${warehouseId}/getDefinition`
+        return await writeItemDefinitionToDirectory(
+          fabricClient,
+          `/workspaces/${workspaceId}/warehouses/${warehouseId}`,
+          outputDirectoryPath,
+          "Warehouse definition",
+          { noWait }
         );
-        type DefPart = { path: string; payload: string; payloadType: string };
-        let parts: DefPart[] | undefined;
-        if (response.lro) {
-          await pollOperation(fabricClient, response.lro.operationId);
-          const result = await getOperationResult<Record<string, unknown>>(fabricClient, response.lro.operationId);
-          if (result?.definition) {
-            parts = (result.definition as { parts: DefPart[] }).parts;
-          }
-        }
-        if (!parts && response.data?.definition) {
-          parts = (response.data.definition as { parts: DefPart[] }).parts;
-        }
-        if (!parts) {
-          return { content: [{ type: "text", text: "No definition returned from Fabric API" }], isError: true };
-        }
-        const files = parts.map((part) => ({
-          path: part.path,
-          content: part.payloadType === "InlineBase64" ? decodeBase64(part.payload) : part.payload,
-        }));
-        const written = await writeFilesToDirectory(outputDirectoryPath, files);
-        return { content: [{ type: "text", text: `Warehouse definition written to: ${outputDirectoryPath}\nFiles:\n${written.map((f) => `  ${f}`).join("\n")}` }] };
       } catch (error) {
         return formatToolError(error);
       }
@@ -199,29 +186,19 @@ export function registerWarehouseTools(server: McpServer, fabricClient: FabricCl
         content: z.string().describe("The file content as a string"),
       })).optional().describe("Array of definition parts to upload"),
       partsDirectoryPath: z.string().optional().describe("Path to a directory containing definition files"),
+      noWait: noWaitParam,
     },
-    async ({ workspaceId, warehouseId, parts, partsDirectoryPath }) => {
+    async ({ workspaceId, warehouseId, parts, partsDirectoryPath, noWait }) => {
       try {
         await workspaceGuard.assertWorkspaceAllowed(fabricClient, workspaceId);
         const resolved: FileEntry[] = await resolveFilesOrDirectory(parts, partsDirectoryPath);
-        const body = {
-          definition: {
-            parts: resolved.map((part) => ({
-              path: part.path,
-              payload: encodeBase64(part.content),
-              payloadType: "InlineBase64",
-            })),
-          },
-        };
-        const response = await fabricClient.post(
-          `/workspaces/${workspaceId}/warehouses/${warehouseId}/updateDefinition`,
-          body
+        return await submitItemDefinition(
+          fabricClient,
+          `/workspaces/${workspaceId}/warehouses/${warehouseId}`,
+          encodeDefinitionParts(resolved),
+          "Warehouse definition",
+          { noWait }
         );
-        if (response.lro) {
-          const state = await pollOperation(fabricClient, response.lro.operationId);
-          return { content: [{ type: "text", text: JSON.stringify(state, null, 2) }] };
-        }
-        return { content: [{ type: "text", text: "Warehouse definition updated successfully" }] };
       } catch (error) {
         return formatToolError(error);
       }
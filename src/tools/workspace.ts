@@ -1,19 +1,19 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FabricClient } from "../client/fabric-client.js";
 import { formatToolError } from "../core/errors.js";
-import { paginateAll } from "../core/pagination.js";
+import { listPage, formatListResult, listQueryParams } from "../core/list-query.js";
 import { WorkspaceGuard } from "../core/workspace-guard.js";
+import type { ToolRegistrar } from "../core/tool-registration.js";
 
-export function registerWorkspaceTools(server: McpServer, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
+export function registerWorkspaceTools(server: ToolRegistrar, fabricClient: FabricClient, workspaceGuard: WorkspaceGuard) {
   server.tool(
     "workspace_list",
     "List all accessible Fabric workspaces",
-    {},
-    async () => {
+    { ...listQueryParams },
+    async (query) => {
       try {
-        const workspaces = await paginateAll(fabricClient, "/workspaces");
-        return { content: [{ type: "text", text: JSON.stringify(workspaces, null, 2) }] };
+        const workspaces = await listPage(fabricClient, "/workspaces", query);
+        return formatListResult(workspaces);
       } catch (error) {
         return formatToolError(error);
       }
@@ -44,6 +44,7 @@ export function registerWorkspaceTools(server: McpServer, fabricClient: FabricCl
     },
     async ({ displayName, description, capacityId }) => {
       try {
+        await workspaceGuard.assertWorkspaceCreateAllowed(displayName, capacityId);
         const body: Record<string, unknown> = { displayName };
         if (description) body.description = description;
         if (capacityId) body.capacityId = capacityId;
@@ -98,13 +99,14 @@ export function registerWorkspaceTools(server: McpServer, fabricClient: FabricCl
     {
       workspaceId: z.string().describe("The workspace ID"),
       type: z.string().optional().describe("Filter by item type (e.g., Lakehouse, Notebook, Pipeline)"),
+      ...listQueryParams,
     },
-    async ({ workspaceId, type }) => {
+    async ({ workspaceId, type, ...query }) => {
       try {
         let path = `/workspaces/${workspaceId}/items`;
         if (type) path += `?type=${type}`;
-        const items = await paginateAll(fabricClient, path);
-        return { content: [{ type: "text", text: JSON.stringify(items, null, 2) }] };
+        const items = await listPage(fabricClient, path, query);
+        return formatListResult(items);
       } catch (error) {
         return formatToolError(error);
       }
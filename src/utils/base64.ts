@@ -1,7 +1,24 @@
-export function encodeBase64(content: string): string {
-  return Buffer.from(content, "utf-8").toString("base64");
+export function encodeBase64(content: string | Buffer): string {
+  return Buffer.isBuffer(content) ? content.toString("base64") : Buffer.from(content, "utf-8").toString("base64");
 }
 
 export function decodeBase64(encoded: string): string {
   return Buffer.from(encoded, "base64").toString("utf-8");
 }
+
+/**
+ * True when the bytes can be held as a string without loss: no NUL bytes and an exact
+ * UTF-8 decode/encode round trip. Anything else (images, .pbiviz packages) is binary.
+ */
+export function isTextContent(bytes: Buffer): boolean {
+  if (bytes.includes(0)) return false;
+  return Buffer.from(bytes.toString("utf-8"), "utf-8").equals(bytes);
+}
+
+/**
+ * Decode a base64 payload to a string for text content, or to raw bytes for binary content.
+ */
+export function decodeBase64Content(encoded: string): string | Buffer {
+  const bytes = Buffer.from(encoded, "base64");
+  return isTextContent(bytes) ? bytes.toString("utf-8") : bytes;
+}
@@ -1,13 +1,85 @@
-import { readFile, writeFile, readdir, mkdir, stat } from "fs/promises";
-import { resolve, relative, extname, dirname, join } from "path";
+import { readFile, writeFile, readdir, mkdir, stat, realpath } from "fs/promises";
+import { resolve, relative, extname, dirname, join, basename, isAbsolute, sep } from "path";
+import { isTextContent } from "./base64.js";
 
 export interface FileEntry {
   path: string;
-  content: string;
+  /** Text files are held as strings; binary files (images, packages) as raw bytes. */
+  content: string | Buffer;
+}
+
+// ── Filesystem sandbox (ALLOWED_FILE_ROOTS) ──
+
+function getAllowedFileRoots(): string[] | undefined {
+  const env = process.env.ALLOWED_FILE_ROOTS?.trim();
+  if (!env) return undefined;
+  const roots = env.split(",").map((r) => r.trim()).filter((r) => r.length > 0);
+  return roots.length > 0 ? roots : undefined;
+}
+
+function isWithin(root: string, target: string): boolean {
+  const rel = relative(root, target);
+  return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/**
+ * realpath() for paths that may not exist yet: resolves symlinks in the longest existing
+ * prefix and appends the remaining segments unchanged.
+ */
+async function realpathOrAncestor(absolutePath: string): Promise<string> {
+  const tail: string[] = [];
+  let current = absolutePath;
+  while (true) {
+    try {
+      return join(await realpath(current), ...tail.reverse());
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== "ENOENT" && code !== "ENOTDIR") throw error;
+      const parent = dirname(current);
+      if (parent === current) return absolutePath;
+      tail.push(basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Resolve a caller-supplied path (following symlinks) and, when ALLOWED_FILE_ROOTS is set,
+ * refuse it unless it lies inside one of the roots.
+ */
+async function resolveAllowedPath(filePath: string, access: "read" | "write"): Promise<string> {
+  const absolutePath = await realpathOrAncestor(resolve(filePath));
+  const roots = getAllowedFileRoots();
+  if (!roots) return absolutePath;
+  for (const root of roots) {
+    if (isWithin(await realpathOrAncestor(resolve(root)), absolutePath)) return absolutePath;
+  }
+  throw new Error(
+    `Access denied: cannot ${access} "${filePath}" because it is outside ALLOWED_FILE_ROOTS (${roots.join(", ")})`
+  );
+}
+
+/**
+ * Join a definition part path returned by the API onto the output directory, rejecting
+ * absolute paths and ".." segments so a part can never land outside that directory.
+ */
+function resolvePartPath(baseDir: string, partPath: string): string {
+  const normalized = partPath.replace(/\\/g, "/");
+  if (isAbsolute(normalized) || normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized)) {
+    throw new Error(`Refusing to write definition part "${partPath}": absolute paths are not allowed`);
+  }
+  if (normalized.split("/").includes("..")) {
+    throw new Error(`Refusing to write definition part "${partPath}": ".." path segments are not allowed`);
+  }
+  const fullPath = join(baseDir, normalized);
+  if (!isWithin(baseDir, fullPath)) {
+    throw new Error(`Refusing to write definition part "${partPath}": it resolves outside ${baseDir}`);
+  }
+  return fullPath;
 }
 
 export async function readContentFromFile(filePath: string): Promise<string> {
-  const absolutePath = resolve(filePath);
+  const absolutePath = await resolveAllowedPath(filePath, "read");
   const fileStat = await stat(absolutePath);
   if (!fileStat.isFile()) {
     throw new Error(`Path is not a file: ${absolutePath}`);
@@ -19,7 +91,7 @@ export async function readFilesFromDirectory(
   dirPath: string,
   extensions?: string[]
 ): Promise<FileEntry[]> {
-  const absolutePath = resolve(dirPath);
+  const absolutePath = await resolveAllowedPath(dirPath, "read");
   const dirStat = await stat(absolutePath);
   if (!dirStat.isDirectory()) {
     throw new Error(`Path is not a directory: ${absolutePath}`);
@@ -32,6 +104,7 @@ export async function readFilesFromDirectory(
     const items = await readdir(dir, { withFileTypes: true });
     for (const item of items) {
       const fullPath = resolve(dir, item.name);
+      // Symlinks are neither files nor directories here, so they are never followed out of the tree
       if (item.isDirectory()) {
         await walk(fullPath);
       } else if (item.isFile()) {
@@ -39,8 +112,8 @@ export async function readFilesFromDirectory(
           continue;
         }
         const relPath = relative(absolutePath, fullPath).replace(/\\/g, "/");
-        const content = await readFile(fullPath, "utf-8");
-        entries.push({ path: relPath, content });
+        const bytes = await readFile(fullPath);
+        entries.push({ path: relPath, content: isTextContent(bytes) ? bytes.toString("utf-8") : bytes });
       }
     }
   }
@@ -56,7 +129,7 @@ export async function readFilesFromDirectory(
 }
 
 export async function writeContentToFile(filePath: string, content: string): Promise<string> {
-  const absolutePath = resolve(filePath);
+  const absolutePath = await resolveAllowedPath(filePath, "write");
   await mkdir(dirname(absolutePath), { recursive: true });
   await writeFile(absolutePath, content, "utf-8");
   return absolutePath;
@@ -66,12 +139,22 @@ export async function writeFilesToDirectory(
   dirPath: string,
   files: FileEntry[]
 ): Promise<string[]> {
-  const absolutePath = resolve(dirPath);
-  const written: string[] = [];
+  const absolutePath = await resolveAllowedPath(dirPath, "write");
+  // Validate every part before writing anything so a bad path doesn't leave a partial tree
+  const targets: string[] = [];
   for (const file of files) {
-    const fullPath = join(absolutePath, file.path);
+    const fullPath = resolvePartPath(absolutePath, file.path);
+    if (!isWithin(absolutePath, await realpathOrAncestor(fullPath))) {
+      throw new Error(`Refusing to write definition part "${file.path}": a symlink redirects it outside ${absolutePath}`);
+    }
+    targets.push(fullPath);
+  }
+  const written: string[] = [];
+  for (const [index, file] of files.entries()) {
+    const fullPath = targets[index];
     await mkdir(dirname(fullPath), { recursive: true });
-    await writeFile(fullPath, file.content, "utf-8");
+    // Strings are written as UTF-8; binary parts are written byte-for-byte
+    await writeFile(fullPath, file.content);
     written.push(file.path);
   }
   return written;
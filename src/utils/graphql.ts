@@ -0,0 +1,75 @@
+export type GraphQLOperationType = "query" | "mutation" | "subscription";
+
+export interface GraphQLClassification {
+  /** Operation types defined in the document, in order; "{ ... }" shorthand counts as a query */
+  operations: GraphQLOperationType[];
+  /** True unless the document defines a mutation */
+  readOnly: boolean;
+}
+
+const DEFINITION_KEYWORDS = new Set(["query", "mutation", "subscription", "fragment"]);
+
+/**
+ * Index just past the string or block string starting at i.
+ */
+function skipString(document: string, i: number): number {
+  if (document.startsWith('"""', i)) {
+    const end = document.indexOf('"""', i + 3);
+    return end < 0 ? document.length : end + 3;
+  }
+  i++;
+  while (i < document.length && document[i] !== '"' && document[i] !== "\n") {
+    i += document[i] === "\\" ? 2 : 1;
+  }
+  return i + 1;
+}
+
+/**
+ * Find the operations a GraphQL document defines. Comments and strings are skipped, and
+ * only a keyword at the top level (outside braces and parentheses, and not inside another
+ * definition's header) starts a definition, so a field or type named "mutation" is not
+ * mistaken for one. The tools send no operation name, so the server may run any operation
+ * in the document: a mutation anywhere makes the whole document a write.
+ */
+export function classifyGraphQL(document: string): GraphQLClassification {
+  const operations: GraphQLOperationType[] = [];
+  let braces = 0;
+  let parens = 0;
+  // Between a definition keyword and the selection set that opens its body
+  let inHeader = false;
+  let i = 0;
+  while (i < document.length) {
+    const ch = document[i];
+    if (ch === "#") {
+      while (i < document.length && document[i] !== "\n") i++;
+    } else if (ch === '"') {
+      i = skipString(document, i);
+    } else if (ch === "(") {
+      parens++;
+      i++;
+    } else if (ch === ")") {
+      parens = Math.max(0, parens - 1);
+      i++;
+    } else if (ch === "{") {
+      if (braces === 0 && parens === 0) {
+        if (!inHeader) operations.push("query");
+        inHeader = false;
+      }
+      braces++;
+      i++;
+    } else if (ch === "}") {
+      braces = Math.max(0, braces - 1);
+      i++;
+    } else if (/[_A-Za-z]/.test(ch)) {
+      const name = /^[_A-Za-z][_0-9A-Za-z]*/.exec(document.slice(i))![0];
+      if (braces === 0 && parens === 0 && !inHeader && DEFINITION_KEYWORDS.has(name)) {
+        if (name !== "fragment") operations.push(name as GraphQLOperationType);
+        inHeader = true;
+      }
+      i += name.length;
+    } else {
+      i++;
+    }
+  }
+  return { operations, readOnly: !operations.includes("mutation") };
+}
@@ -0,0 +1,42 @@
+export interface KqlCommandClassification {
+  /** The text is a control command (starts with ".") rather than a query */
+  isCommand: boolean;
+  /** Command verb without the leading dot, lower-cased, e.g. "show", "set-or-replace" */
+  verb?: string;
+  /** True for queries and for commands that only read (.show) */
+  readOnly: boolean;
+}
+
+const READ_ONLY_VERBS = new Set(["show"]);
+
+/**
+ * Skip whitespace and // comments at the start of KQL text and return the index of the
+ * first significant character.
+ */
+function skipLeadingTrivia(kql: string): number {
+  let i = 0;
+  while (i < kql.length) {
+    if (/\s/.test(kql[i])) {
+      i++;
+    } else if (kql[i] === "/" && kql[i + 1] === "/") {
+      while (i < kql.length && kql[i] !== "\n") i++;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+/**
+ * Tell control commands from queries. Kusto only accepts a command as the whole request
+ * text, so looking at the first token is enough. Every command other than .show is
+ * treated as mutating, including ingestion (.ingest, .set-or-append) and policy changes.
+ */
+export function classifyKql(kql: string): KqlCommandClassification {
+  const start = skipLeadingTrivia(kql);
+  if (kql[start] !== ".") {
+    return { isCommand: false, readOnly: true };
+  }
+  const verb = /^\.([A-Za-z][A-Za-z0-9-]*)/.exec(kql.slice(start))?.[1]?.toLowerCase() ?? "";
+  return { isCommand: true, verb, readOnly: READ_ONLY_VERBS.has(verb) };
+}
@@ -1,43 +1,163 @@
-export type LogLevel = "info" | "debug";
+import { closeSync, existsSync, fstatSync, openSync, renameSync, rmSync, writeSync } from "node:fs";
 
-const currentLevel: LogLevel = (process.env.LOG_LEVEL?.toLowerCase() as LogLevel) === "debug" ? "debug" : "info";
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error";
 
-function timestamp(): string {
-  return new Date().toISOString();
+const LEVELS: Record<LogLevel, number> = { trace: 10, debug: 20, info: 30, warn: 40, error: 50 };
+const DEFAULT_FILE_MAX_BYTES = 10 * 1024 * 1024; // 10 MB
+const DEFAULT_FILE_MAX_FILES = 5;
+
+/** Request-scoped fields merged into every entry (request ID, tool name, session ID). */
+export type LogContextProvider = () => Record<string, string | number | undefined> | undefined;
+
+const requestedLevel = process.env.LOG_LEVEL?.trim().toLowerCase();
+const levelIsValid = requestedLevel !== undefined && requestedLevel in LEVELS;
+const currentLevel: LogLevel = levelIsValid ? (requestedLevel as LogLevel) : "info";
+const jsonFormat = process.env.LOG_FORMAT?.trim().toLowerCase() === "json";
+let contextProvider: LogContextProvider | undefined;
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Appends log lines to LOG_FILE, rotating to LOG_FILE.1 ... LOG_FILE.N once it exceeds
+ * LOG_FILE_MAX_BYTES. Writes are synchronous so lines are never lost on exit. A failed
+ * write or rotation (missing directory, permissions, full disk) is reported once on
+ * stderr and turns the sink off; logging never fails the caller.
+ */
+class RotatingFileSink {
+  private fd: number | undefined;
+  private size: number;
+
+  constructor(private path: string, private maxBytes: number, private maxFiles: number) {
+    this.fd = openSync(path, "a");
+    this.size = fstatSync(this.fd).size;
+  }
+
+  write(line: string): void {
+    if (this.fd === undefined) return;
+    try {
+      const data = Buffer.from(`${line}\n`, "utf-8");
+      if (this.size > 0 && this.size + data.length > this.maxBytes) this.rotate();
+      writeSync(this.fd!, data);
+      this.size += data.length;
+    } catch (error) {
+      this.disable(error);
+    }
+  }
+
+  private rotate(): void {
+    closeSync(this.fd!);
+    this.fd = undefined;
+    rmSync(`${this.path}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      if (existsSync(`${this.path}.${i}`)) renameSync(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+    }
+    renameSync(this.path, `${this.path}.1`);
+    this.fd = openSync(this.path, "a");
+    this.size = 0;
+  }
+
+  private disable(error: unknown): void {
+    if (this.fd !== undefined) {
+      try {
+        closeSync(this.fd);
+      } catch {
+        // Already unusable
+      }
+      this.fd = undefined;
+    }
+    console.error(`Writing LOG_FILE ${this.path} failed, file logging is disabled: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function createFileSink(): RotatingFileSink | undefined {
+  const path = process.env.LOG_FILE?.trim();
+  if (!path) return undefined;
+  try {
+    return new RotatingFileSink(
+      path,
+      parsePositiveInt(process.env.LOG_FILE_MAX_BYTES, DEFAULT_FILE_MAX_BYTES),
+      parsePositiveInt(process.env.LOG_FILE_MAX_FILES, DEFAULT_FILE_MAX_FILES)
+    );
+  } catch (error) {
+    console.error(`Cannot open LOG_FILE ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
 }
 
-function format(level: string, component: string, message: string, extra?: Record<string, unknown>): string {
-  const parts = [`[${timestamp()}] [${level.toUpperCase()}] [${component}] ${message}`];
+const fileSink = createFileSink();
+
+function format(level: LogLevel, component: string, message: string, extra?: Record<string, unknown>): string {
+  const timestamp = new Date().toISOString();
+  const context = contextProvider?.();
+  if (jsonFormat) {
+    const entry: Record<string, unknown> = { timestamp, level, component, message };
+    if (context) {
+      for (const [key, value] of Object.entries(context)) {
+        if (value !== undefined) entry[key] = value;
+      }
+    }
+    if (extra && Object.keys(extra).length > 0) entry.extra = extra;
+    return JSON.stringify(entry);
+  }
+  const parts = [`[${timestamp}] [${level.toUpperCase()}] [${component}] ${message}`];
+  if (context?.toolName) {
+    parts.push(`(${context.toolName}${context.requestId !== undefined ? ` #${context.requestId}` : ""})`);
+  }
   if (extra && Object.keys(extra).length > 0) {
     parts.push(JSON.stringify(extra));
   }
   return parts.join(" ");
 }
 
+function write(level: LogLevel, component: string, message: string, extra?: Record<string, unknown>): void {
+  if (LEVELS[level] < LEVELS[currentLevel]) return;
+  const line = format(level, component, message, extra);
+  console.error(line);
+  fileSink?.write(line);
+}
+
 export const logger = {
-  info(component: string, message: string, extra?: Record<string, unknown>): void {
-    console.error(format("info", component, message, extra));
+  trace(component: string, message: string, extra?: Record<string, unknown>): void {
+    write("trace", component, message, extra);
   },
 
   debug(component: string, message: string, extra?: Record<string, unknown>): void {
-    if (currentLevel === "debug") {
-      console.error(format("debug", component, message, extra));
-    }
+    write("debug", component, message, extra);
+  },
+
+  info(component: string, message: string, extra?: Record<string, unknown>): void {
+    write("info", component, message, extra);
   },
 
   warn(component: string, message: string, extra?: Record<string, unknown>): void {
-    console.error(format("warn", component, message, extra));
+    write("warn", component, message, extra);
   },
 
   error(component: string, message: string, extra?: Record<string, unknown>): void {
-    console.error(format("error", component, message, extra));
+    write("error", component, message, extra);
+  },
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[currentLevel];
   },
 
   isDebug(): boolean {
-    return currentLevel === "debug";
+    return LEVELS.debug >= LEVELS[currentLevel];
+  },
+
+  /** Install the source of request-scoped fields; called once by the tool context. */
+  setContextProvider(provider: LogContextProvider): void {
+    contextProvider = provider;
   },
 };
 
+if (requestedLevel && !levelIsValid) {
+  logger.warn("Logger", `Unknown LOG_LEVEL "${process.env.LOG_LEVEL}" — using info. Valid levels: ${Object.keys(LEVELS).join(", ")}`);
+}
+
 /**
  * Redact sensitive headers (Authorization) for safe logging.
  * Returns a plain object with header names lowercased.
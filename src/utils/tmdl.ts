@@ -1,3 +1,5 @@
+import { encodeBase64 } from "./base64.js";
+
 export interface TmdlFile {
   path: string;
   content: string;
@@ -19,10 +21,10 @@ export function decodeTmdlParts(parts: DefinitionPart[]): TmdlFile[] {
   }));
 }
 
-export function encodeTmdlParts(files: TmdlFile[]): DefinitionPart[] {
+export function encodeTmdlParts(files: Array<{ path: string; content: string | Buffer }>): DefinitionPart[] {
   return files.map((file) => ({
     path: file.path,
-    payload: Buffer.from(file.content, "utf-8").toString("base64"),
+    payload: encodeBase64(file.content),
     payloadType: "InlineBase64",
   }));
 }
@@ -0,0 +1,172 @@
+export type TsqlWriteCategory = "dml" | "ddl" | "exec" | "dcl" | "admin";
+
+export interface TsqlWrite {
+  /** The keyword that makes the statement a write, e.g. "DROP" or "SELECT INTO" */
+  keyword: string;
+  category: TsqlWriteCategory;
+  /** 1-based batch number (batches are separated by GO lines) */
+  batch: number;
+  line: number;
+}
+
+export interface TsqlClassification {
+  /** True when no batch contains anything but queries, declarations and session settings */
+  readOnly: boolean;
+  writes: TsqlWrite[];
+  batchCount: number;
+}
+
+const WRITE_KEYWORDS: Record<string, TsqlWriteCategory> = {
+  INSERT: "dml",
+  UPDATE: "dml",
+  DELETE: "dml",
+  MERGE: "dml",
+  TRUNCATE: "dml",
+  BULK: "dml",
+  UPDATETEXT: "dml",
+  WRITETEXT: "dml",
+  CREATE: "ddl",
+  ALTER: "ddl",
+  DROP: "ddl",
+  EXEC: "exec",
+  EXECUTE: "exec",
+  SP_EXECUTESQL: "exec",
+  GRANT: "dcl",
+  REVOKE: "dcl",
+  DENY: "dcl",
+  BACKUP: "admin",
+  RESTORE: "admin",
+  DBCC: "admin",
+  KILL: "admin",
+  SHUTDOWN: "admin",
+  RECONFIGURE: "admin",
+  CHECKPOINT: "admin",
+};
+
+/** Writes whose keyword is not reserved, so they only count when followed by the given word. */
+const CONTEXTUAL_WRITE_KEYWORDS: Record<string, [next: string, category: TsqlWriteCategory]> = {
+  COPY: ["INTO", "dml"],
+  RENAME: ["OBJECT", "ddl"],
+  ENABLE: ["TRIGGER", "ddl"],
+  DISABLE: ["TRIGGER", "ddl"],
+};
+
+/**
+ * Words a read-only batch may start with. Any other leading word is a stored procedure
+ * call, since T-SQL allows EXEC to be omitted for the first statement of a batch.
+ */
+const BATCH_START_KEYWORDS = new Set([
+  "SELECT", "WITH", "DECLARE", "SET", "PRINT", "IF", "BEGIN", "WHILE", "RETURN", "USE",
+  "RAISERROR", "THROW", "COMMIT", "ROLLBACK", "SAVE", "WAITFOR", "OPEN", "FETCH", "CLOSE",
+  "DEALLOCATE",
+]);
+
+interface Word {
+  text: string;
+  line: number;
+}
+
+/**
+ * Split T-SQL into words per batch, skipping comments (nested block comments included),
+ * string literals, quoted and bracketed identifiers, and variables. GO on a line of its own
+ * ends a batch.
+ */
+function tokenize(sql: string): Word[][] {
+  const batches: Word[][] = [[]];
+  let line = 1;
+  let lineHasWord = false;
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (ch === "\n") {
+      line++;
+      lineHasWord = false;
+      i++;
+    } else if (ch === "-" && next === "-") {
+      while (i < sql.length && sql[i] !== "\n") i++;
+    } else if (ch === "/" && next === "*") {
+      let depth = 1;
+      i += 2;
+      while (i < sql.length && depth > 0) {
+        if (sql[i] === "/" && sql[i + 1] === "*") { depth++; i += 2; }
+        else if (sql[i] === "*" && sql[i + 1] === "/") { depth--; i += 2; }
+        else { if (sql[i] === "\n") line++; i++; }
+      }
+    } else if (ch === "'" || ch === "\"" || ch === "[") {
+      // Strings and quoted identifiers; the closing quote is escaped by doubling it
+      const close = ch === "[" ? "]" : ch;
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === close) {
+          if (sql[i + 1] === close) { i += 2; continue; }
+          i++;
+          break;
+        }
+        if (sql[i] === "\n") line++;
+        i++;
+      }
+      lineHasWord = true;
+    } else if (/[A-Za-z_@#]/.test(ch)) {
+      const start = i;
+      while (i < sql.length && /[A-Za-z0-9_@#$]/.test(sql[i])) i++;
+      const text = sql.slice(start, i);
+      // @variables and #temp names are never keywords
+      if (ch === "@" || ch === "#") {
+        lineHasWord = true;
+        continue;
+      }
+      const upper = text.toUpperCase();
+      const restOfLine = sql.slice(i, sql.indexOf("\n", i) === -1 ? sql.length : sql.indexOf("\n", i));
+      if (upper === "GO" && !lineHasWord && /^\s*(\d+\s*)?(--.*)?$/.test(restOfLine)) {
+        batches.push([]);
+        i += restOfLine.length;
+        continue;
+      }
+      batches[batches.length - 1].push({ text: upper, line });
+      lineHasWord = true;
+    } else {
+      if (!/\s/.test(ch)) lineHasWord = true;
+      i++;
+    }
+  }
+  return batches.filter((batch, index) => batch.length > 0 || index === 0);
+}
+
+/**
+ * Classify a T-SQL script as read-only or not. Deliberately conservative: any write
+ * keyword outside comments and literals marks the script as a write, as does
+ * SELECT ... INTO (which creates a table) and executing a stored procedure.
+ */
+export function classifyTsql(sql: string): TsqlClassification {
+  const batches = tokenize(sql);
+  const writes: TsqlWrite[] = [];
+
+  batches.forEach((words, index) => {
+    const batch = index + 1;
+    words.forEach((word, position) => {
+      const previous = words[position - 1]?.text;
+      const category = WRITE_KEYWORDS[word.text];
+      const contextual = CONTEXTUAL_WRITE_KEYWORDS[word.text];
+      if (category) {
+        writes.push({ keyword: word.text, category, batch, line: word.line });
+      } else if (contextual && words[position + 1]?.text === contextual[0]) {
+        writes.push({ keyword: `${word.text} ${contextual[0]}`, category: contextual[1], batch, line: word.line });
+      } else if (word.text === "INTO" && previous !== "INSERT" && previous !== "MERGE" && previous !== "COPY") {
+        writes.push({ keyword: "SELECT INTO", category: "ddl", batch, line: word.line });
+      } else if (position === 0 && !BATCH_START_KEYWORDS.has(word.text)) {
+        writes.push({ keyword: word.text, category: "exec", batch, line: word.line });
+      }
+    });
+  });
+
+  return { readOnly: writes.length === 0, writes, batchCount: batches.length };
+}
+
+/** Short human-readable list of the write statements, for error messages. */
+export function describeTsqlWrites(writes: TsqlWrite[]): string {
+  const keywords = [...new Set(writes.map((w) => w.keyword))];
+  return keywords.join(", ");
+}
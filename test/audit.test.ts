@@ -0,0 +1,79 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AuditEntry } from "../src/core/audit.js";
+import { startHarness } from "./helpers.js";
+
+describe("audit_query in HTTP mode", () => {
+  let dir: string;
+  let env: Record<string, string>;
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), "audit-"));
+    env = { AUDIT_LOG: join(dir, "audit.jsonl"), AUDIT_ADMIN_ROLES: "Fabric.AuditReader" };
+    // Two users each make one write against the same emulator state
+    for (const oid of ["user-a", "user-b"]) {
+      const h = await startHarness({ env, claims: { oid, upn: `${oid}@contoso.com` } });
+      const ws = h.emulator.state.addWorkspace("Shared");
+      await h.callJson("workspace_update", { workspaceId: ws.id, description: `touched by ${oid}` });
+      await h.close();
+    }
+  });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("returns only the caller's own entries", async () => {
+    const h = await startHarness({ env, claims: { oid: "user-a" } });
+    try {
+      const result = await h.callJson<{ entries: AuditEntry[] }>("audit_query");
+      assert.deepEqual(result.entries.map((e) => e.caller?.objectId), ["user-a"]);
+    } finally {
+      await h.close();
+    }
+  });
+
+  it("returns every entry to an audit admin", async () => {
+    const h = await startHarness({ env, claims: { oid: "auditor", roles: ["Fabric.AuditReader"] } });
+    try {
+      const result = await h.callJson<{ entries: AuditEntry[] }>("audit_query");
+      assert.deepEqual(result.entries.map((e) => e.caller?.objectId), ["user-b", "user-a"]);
+    } finally {
+      await h.close();
+    }
+  });
+
+  it("refuses a token without an object ID", async () => {
+    const h = await startHarness({ env, claims: { sub: "someone" } });
+    try {
+      const result = await h.call("audit_query");
+      assert.equal(result.isError, true);
+      assert.match(result.content[0].text, /no oid claim/);
+    } finally {
+      await h.close();
+    }
+  });
+});
+
+describe("audit outcomes for confirmation", () => {
+  let dir: string;
+  before(() => { dir = mkdtempSync(join(tmpdir(), "audit-")); });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("records a call that stopped for confirmation as confirmation_required", async () => {
+    const h = await startHarness({ env: { AUDIT_LOG: join(dir, "audit.jsonl"), CONFIRM_TOOLS: undefined } });
+    try {
+      const ws = h.emulator.state.addWorkspace("Sales");
+      const notebook = h.emulator.state.addItem(ws.id, "Notebook", "etl");
+      const refused = await h.call("notebook_delete", { workspaceId: ws.id, notebookId: notebook.id });
+      assert.equal(refused.isError, true);
+      const confirmed = await h.call("notebook_delete", { workspaceId: ws.id, notebookId: notebook.id, confirm: true });
+      assert.equal(confirmed.isError, undefined);
+
+      const result = await h.callJson<{ entries: AuditEntry[] }>("audit_query", { tool: "notebook_delete" });
+      assert.deepEqual(result.entries.map((e) => e.outcome), ["success", "confirmation_required"]);
+    } finally {
+      await h.close();
+    }
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { DryRunPlan, PlannedRequest } from "../src/core/dry-run.js";
+import { startHarness, type TestHarness } from "./helpers.js";
+
+interface DryRunReport {
+  dryRun: true;
+  tool: string;
+  operationClass: string;
+  guard: DryRunPlan["guard"] | "not evaluated";
+  request: PlannedRequest | string;
+  note?: string;
+}
+
+describe("dry run", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness({ env: { WRITABLE_WORKSPACES: "*-Dev" } }); });
+  after(async () => { await h.close(); });
+
+  it("returns the request an update would send and leaves the workspace unchanged", async () => {
+    const ws = h.emulator.state.addWorkspace("Sales-Dev", "before");
+    const report = await h.callJson<DryRunReport>("workspace_update", { workspaceId: ws.id, description: "after", dryRun: true });
+    assert.equal(report.dryRun, true);
+    assert.equal(report.operationClass, "update");
+    assert.deepEqual(report.request, { method: "PATCH", url: `${h.emulator.url}/v1/workspaces/${ws.id}`, body: { description: "after" } });
+    assert.equal(h.emulator.state.workspaces.get(ws.id)?.description, "before");
+  });
+
+  it("summarizes definition parts instead of echoing payloads", async () => {
+    const ws = h.emulator.state.addWorkspace("Reports-Dev");
+    const item = h.emulator.state.addItem(ws.id, "Notebook", "etl", undefined, [
+      { path: "notebook-content.py", payload: Buffer.from("print(1)").toString("base64"), payloadType: "InlineBase64" },
+    ]);
+    const before = structuredClone(h.emulator.state.definitions.get(item.id));
+
+    const report = await h.callJson<DryRunReport>("item_update_definition", {
+      workspaceId: ws.id, itemId: item.id, dryRun: true,
+      parts: [{ path: "notebook-content.py", content: "print(2)" }],
+    });
+    const request = report.request as PlannedRequest;
+    assert.equal(request.method, "POST");
+    assert.match(request.url, new RegExp(`/items/${item.id}/updateDefinition$`));
+    assert.deepEqual(request.body, {
+      definition: { parts: [{ path: "notebook-content.py", payloadType: "InlineBase64", payloadBytes: 12 }] },
+    });
+    assert.deepEqual(h.emulator.state.definitions.get(item.id), before);
+  });
+
+  it("does not create anything", async () => {
+    const ws = h.emulator.state.addWorkspace("Lake-Dev");
+    const report = await h.callJson<DryRunReport>("lakehouse_create", { workspaceId: ws.id, displayName: "lh", dryRun: true });
+    assert.equal((report.request as PlannedRequest).method, "POST");
+    assert.equal(((report.request as PlannedRequest).body as { displayName: string }).displayName, "lh");
+    assert.equal(h.emulator.state.listItems(ws.id).length, 0);
+  });
+
+  it("reports the guard decision for a blocked workspace", async () => {
+    const ws = h.emulator.state.addWorkspace("Sales-Prod");
+    const report = await h.callJson<DryRunReport>("lakehouse_create", { workspaceId: ws.id, displayName: "lh", dryRun: true });
+    const guard = report.guard as NonNullable<DryRunPlan["guard"]>;
+    assert.equal(guard.allowed, false);
+    assert.equal(guard.workspaceName, "Sales-Prod");
+    assert.match(guard.reason ?? "", /not in the writable workspaces list/);
+    assert.equal(report.note, "The workspace guard would block this call");
+    assert.equal(h.emulator.state.listItems(ws.id).length, 0);
+  });
+});
+
+describe("DRY_RUN", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness({ env: { DRY_RUN: "true" } }); });
+  after(async () => { await h.close(); });
+
+  it("turns every write into a dry run, even with dryRun: false", async () => {
+    const ws = h.emulator.state.addWorkspace("Scratch");
+    const report = await h.callJson<DryRunReport>("workspace_delete", { workspaceId: ws.id, dryRun: false });
+    assert.equal(report.dryRun, true);
+    assert.equal((report.request as PlannedRequest).method, "DELETE");
+    assert.equal(h.emulator.state.workspaces.has(ws.id), true);
+  });
+});
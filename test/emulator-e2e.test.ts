@@ -0,0 +1,392 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { SqlClient } from "../src/client/sql-client.js";
+import type { FabricItem, LakehouseTable, OperationState, SqlQueryResult, Workspace } from "../src/core/types.js";
+import type {
+  EmulatorDeploymentOperation,
+  EmulatorDeploymentPipeline,
+  EmulatorExternalDataShare,
+  EmulatorShortcut,
+  EmulatorStage,
+} from "../src/emulator/state.js";
+import { startHarness, type ListPage, type TestHarness } from "./helpers.js";
+
+interface GitConnection { gitConnectionState: string }
+interface GitStatus { workspaceHead: string }
+interface GitCredentials { connectionId: string }
+
+describe("workspaces and items", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness({ pageSize: 2 }); });
+  after(async () => { await h.close(); });
+
+  it("creates a workspace and lists it", async () => {
+    const created = await h.callJson<Workspace>("workspace_create", { displayName: "Sales" });
+    assert.equal(created.displayName, "Sales");
+    const listed = await h.callJson<ListPage<Workspace>>("workspace_list");
+    assert.deepEqual(listed.items.map((w) => w.id), [created.id]);
+  });
+
+  it("pages through list results with the returned cursor", async () => {
+    const ws = h.emulator.state.addWorkspace("Paged");
+    for (const name of ["a", "b", "c", "d", "e"]) h.emulator.state.addItem(ws.id, "Notebook", name);
+
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await h.callJson<ListPage<FabricItem>>("workspace_list_items", { workspaceId: ws.id, top: 2, cursor });
+      names.push(...page.items.map((item) => item.displayName));
+      cursor = page.nextCursor;
+    } while (cursor);
+    assert.deepEqual(names, ["a", "b", "c", "d", "e"]);
+  });
+
+  it("resolves workspace display names", async () => {
+    const ws = h.emulator.state.addWorkspace("By Name");
+    const got = await h.callJson<Workspace>("workspace_get", { workspaceId: "By Name" });
+    assert.equal(got.id, ws.id);
+  });
+
+  it("refuses writes outside WRITABLE_WORKSPACES", async () => {
+    const guarded = await startHarness({ env: { WRITABLE_WORKSPACES: "Dev*" } });
+    try {
+      const ws = guarded.emulator.state.addWorkspace("Production");
+      const result = await guarded.call("lakehouse_create", { workspaceId: ws.id, displayName: "lh" });
+      assert.equal(result.isError, true);
+      assert.equal(guarded.emulator.state.listItems(ws.id).length, 0);
+    } finally {
+      await guarded.close();
+    }
+  });
+});
+
+describe("lakehouse tables and shortcuts", () => {
+  let h: TestHarness;
+  let workspaceId: string;
+  let lakehouseId: string;
+  before(async () => {
+    h = await startHarness();
+    workspaceId = h.emulator.state.addWorkspace("Data").id;
+    lakehouseId = h.emulator.state.addItem(workspaceId, "Lakehouse", "lh").id;
+  });
+  after(async () => { await h.close(); });
+
+  it("loads a table and lists it", async () => {
+    const state = await h.callJson<OperationState>("lakehouse_load_table", {
+      workspaceId, lakehouseId, tableName: "sales", relativePath: "Files/sales.csv", pathType: "File",
+    });
+    assert.equal(state.status, "Succeeded");
+    const tables = await h.callJson<ListPage<LakehouseTable>>("lakehouse_list_tables", { workspaceId, lakehouseId });
+    assert.deepEqual(tables.items.map((t) => t.name), ["sales"]);
+  });
+
+  it("creates, gets, lists and deletes a shortcut", async () => {
+    const target = { oneLake: { workspaceId, itemId: lakehouseId, path: "Files/raw" } };
+    await h.callJson("lakehouse_create_shortcut", { workspaceId, lakehouseId, name: "raw", path: "Files/landing", target });
+
+    const conflict = await h.call("lakehouse_create_shortcut", { workspaceId, lakehouseId, name: "raw", path: "Files/landing", target });
+    assert.equal(conflict.isError, true);
+
+    const got = await h.callJson<EmulatorShortcut>("lakehouse_get_shortcut", { workspaceId, lakehouseId, shortcutPath: "Files/landing", shortcutName: "raw" });
+    assert.deepEqual(got.target, target);
+
+    const listed = await h.callJson<ListPage<EmulatorShortcut>>("lakehouse_list_shortcuts", { workspaceId, lakehouseId });
+    assert.equal(listed.count, 1);
+
+    const deleted = await h.call("lakehouse_delete_shortcut", { workspaceId, lakehouseId, shortcutPath: "Files/landing", shortcutName: "raw" });
+    assert.equal(deleted.isError, undefined);
+    assert.equal(h.emulator.state.shortcuts.get(lakehouseId)?.length, 0);
+  });
+});
+
+describe("git integration", () => {
+  let h: TestHarness;
+  let workspaceId: string;
+  before(async () => {
+    h = await startHarness();
+    workspaceId = h.emulator.state.addWorkspace("Versioned").id;
+  });
+  after(async () => { await h.close(); });
+
+  it("connects, initializes, commits and updates", async () => {
+    const before = await h.callJson<GitConnection>("git_get_connection", { workspaceId });
+    assert.equal(before.gitConnectionState, "NotConnected");
+
+    await h.call("git_connect", {
+      workspaceId,
+      gitProviderDetails: { gitProviderType: "GitHub", organizationName: "contoso", repositoryName: "fabric", branchName: "main", directoryName: "/" },
+    });
+    const init = await h.call("git_initialize_connection", { workspaceId, initializationStrategy: "PreferWorkspace" });
+    assert.equal(init.isError, undefined);
+
+    const status = await h.callJson<GitStatus>("git_get_status", { workspaceId });
+    assert.match(status.workspaceHead, /^[0-9a-f]{40}$/);
+
+    const commit = await h.call("git_commit_to_git", { workspaceId, mode: "All", comment: "first" });
+    assert.equal(commit.isError, undefined);
+    const afterCommit = await h.callJson<GitStatus>("git_get_status", { workspaceId });
+    assert.notEqual(afterCommit.workspaceHead, status.workspaceHead);
+
+    await h.call("git_update_from_git", { workspaceId, remoteCommitHash: status.workspaceHead });
+    const afterUpdate = await h.callJson<GitStatus>("git_get_status", { workspaceId });
+    assert.equal(afterUpdate.workspaceHead, status.workspaceHead);
+  });
+
+  it("stores credentials and disconnects", async () => {
+    const unknown = await h.call("git_update_credentials", { workspaceId, source: "ConfiguredConnection", connectionId: "missing" });
+    assert.equal(unknown.isError, true);
+
+    const connection = h.emulator.state.addConnection("GitHub PAT", "GitHubSourceControl", "https://github.com/contoso/fabric", "Key");
+    const credentials = await h.callJson<GitCredentials>("git_update_credentials", { workspaceId, source: "ConfiguredConnection", connectionId: connection.id });
+    assert.equal(credentials.connectionId, connection.id);
+    await h.call("git_disconnect", { workspaceId });
+    const after = await h.callJson<GitConnection>("git_get_connection", { workspaceId });
+    assert.equal(after.gitConnectionState, "NotConnected");
+  });
+});
+
+describe("deployment pipelines", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness(); });
+  after(async () => { await h.close(); });
+
+  it("deploys items from one stage to the next", async () => {
+    const dev = h.emulator.state.addWorkspace("Dev");
+    const test = h.emulator.state.addWorkspace("Test");
+    h.emulator.state.addItem(dev.id, "Notebook", "etl");
+
+    const pipeline = await h.callJson<EmulatorDeploymentPipeline>("deployment_pipeline_create", { displayName: "Release" });
+    const stages = await h.callJson<ListPage<EmulatorStage>>("deployment_pipeline_list_stages", { pipelineId: pipeline.id });
+    const [devStage, testStage] = stages.items;
+    await h.call("deployment_pipeline_assign_workspace", { pipelineId: pipeline.id, stageId: devStage.id, workspaceId: dev.id });
+    await h.call("deployment_pipeline_assign_workspace", { pipelineId: pipeline.id, stageId: testStage.id, workspaceId: test.id });
+
+    const state = await h.callJson<OperationState>("deployment_pipeline_deploy", { pipelineId: pipeline.id, sourceStageId: devStage.id, note: "v1" });
+    assert.equal(state.status, "Succeeded");
+    assert.deepEqual(h.emulator.state.listItems(test.id).map((item) => item.displayName), ["etl"]);
+
+    const operations = await h.callJson<ListPage<EmulatorDeploymentOperation>>("deployment_pipeline_list_operations", { pipelineId: pipeline.id });
+    assert.equal(operations.count, 1);
+    const operation = await h.callJson<EmulatorDeploymentOperation>("deployment_pipeline_get_operation", { pipelineId: pipeline.id, operationId: operations.items[0].id });
+    assert.deepEqual(operation.note, { content: "v1" });
+  });
+
+  it("updates and deletes a pipeline", async () => {
+    const pipeline = await h.callJson<EmulatorDeploymentPipeline>("deployment_pipeline_create", { displayName: "Old" });
+    const updated = await h.callJson<EmulatorDeploymentPipeline>("deployment_pipeline_update", { pipelineId: pipeline.id, displayName: "New" });
+    assert.equal(updated.displayName, "New");
+    await h.call("deployment_pipeline_delete", { pipelineId: pipeline.id });
+    assert.equal(h.emulator.state.deploymentPipelines.has(pipeline.id), false);
+  });
+});
+
+describe("external data shares", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness(); });
+  after(async () => { await h.close(); });
+
+  it("creates, lists and revokes a share", async () => {
+    const ws = h.emulator.state.addWorkspace("Shared");
+    const lakehouse = h.emulator.state.addItem(ws.id, "Lakehouse", "lh");
+    const args = { workspaceId: ws.id, itemId: lakehouse.id };
+
+    const share = await h.callJson<EmulatorExternalDataShare>("external_data_share_create", { ...args, paths: ["Tables/sales"], recipientUserPrincipalName: "partner@fabrikam.com" });
+    assert.equal(share.status, "Pending");
+
+    const listed = await h.callJson<ListPage<EmulatorExternalDataShare>>("external_data_share_list", args);
+    assert.equal(listed.count, 1);
+
+    await h.call("external_data_share_revoke", { ...args, externalDataShareId: share.id });
+    const revoked = await h.callJson<EmulatorExternalDataShare>("external_data_share_get", { ...args, externalDataShareId: share.id });
+    assert.equal(revoked.status, "Revoked");
+  });
+});
+
+describe("deployment pipeline guard", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness({ env: { WRITABLE_WORKSPACES: "*-Dev" } }); });
+  after(async () => { await h.close(); });
+
+  it("refuses to create a pipeline unless every workspace is writable", async () => {
+    const result = await h.call("deployment_pipeline_create", { displayName: "Release" });
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /belongs to no workspace/);
+    assert.equal(h.emulator.state.deploymentPipelines.size, 0);
+  });
+
+  it("checks update and delete against the stage workspaces", async () => {
+    const dev = h.emulator.state.addWorkspace("Sales-Dev");
+    const prod = h.emulator.state.addWorkspace("Sales-Prod");
+    const pipeline = h.emulator.state.addDeploymentPipeline("Release");
+    const [devStage, , prodStage] = h.emulator.state.stages.get(pipeline.id)!;
+    h.emulator.state.assignStageWorkspace(pipeline.id, devStage.id, dev.id);
+
+    const renamed = await h.callJson<EmulatorDeploymentPipeline>("deployment_pipeline_update", { pipelineId: pipeline.id, displayName: "Renamed" });
+    assert.equal(renamed.displayName, "Renamed");
+
+    h.emulator.state.assignStageWorkspace(pipeline.id, prodStage.id, prod.id);
+    const deleted = await h.call("deployment_pipeline_delete", { pipelineId: pipeline.id });
+    assert.equal(deleted.isError, true);
+    assert.match(deleted.content[0].text, /Sales-Prod/);
+    assert.equal(h.emulator.state.deploymentPipelines.has(pipeline.id), true);
+  });
+});
+
+describe("confirmation", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness({ env: { CONFIRM_TOOLS: undefined } }); });
+  after(async () => { await h.close(); });
+
+  it("asks before deleting a deployment pipeline, which has no workspace", async () => {
+    const pipeline = h.emulator.state.addDeploymentPipeline("Release");
+    const refused = await h.call("deployment_pipeline_delete", { pipelineId: pipeline.id });
+    assert.equal(refused.isError, true);
+    assert.match(refused.content[0].text, /requires confirmation/);
+    assert.match(refused.content[0].text, new RegExp(`pipelineId=${pipeline.id}`));
+    assert.equal(h.emulator.state.deploymentPipelines.has(pipeline.id), true);
+
+    const confirmed = await h.call("deployment_pipeline_delete", { pipelineId: pipeline.id, confirm: true });
+    assert.equal(confirmed.isError, undefined);
+    assert.equal(h.emulator.state.deploymentPipelines.has(pipeline.id), false);
+  });
+
+  it("names the workspace and item being deleted", async () => {
+    const ws = h.emulator.state.addWorkspace("Sales");
+    const notebook = h.emulator.state.addItem(ws.id, "Notebook", "etl");
+    const refused = await h.call("notebook_delete", { workspaceId: ws.id, notebookId: notebook.id });
+    assert.match(refused.content[0].text, /Workspace: "Sales"/);
+    assert.match(refused.content[0].text, /Item: "etl" \(Notebook/);
+  });
+
+  it("does not ask during a dry run", async () => {
+    const ws = h.emulator.state.addWorkspace("Scratch");
+    const plan = await h.call("workspace_delete", { workspaceId: ws.id, dryRun: true });
+    assert.equal(plan.isError, undefined);
+    assert.equal(h.emulator.state.workspaces.has(ws.id), true);
+  });
+});
+
+describe("GraphQL mutations", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness({ env: { WRITABLE_WORKSPACES: "*-Dev" } }); });
+  after(async () => { await h.close(); });
+
+  it("refuses a mutation outside the writable workspaces", async () => {
+    const ws = h.emulator.state.addWorkspace("Sales-Prod");
+    const api = h.emulator.state.addItem(ws.id, "GraphQLApi", "api");
+    const result = await h.call("graphql_api_execute_query", {
+      workspaceId: ws.id, graphqlApiId: api.id, query: "mutation { deleteCustomer(id: 1) { id } }",
+    });
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /not in the writable workspaces list/);
+  });
+
+  it("is annotated as potentially destructive", async () => {
+    const { tools } = await h.client.listTools();
+    const tool = tools.find((t) => t.name === "graphql_api_execute_query")!;
+    assert.equal(tool.annotations?.readOnlyHint, false);
+    assert.equal(tool.annotations?.destructiveHint, true);
+  });
+});
+
+describe("tool selection", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness({ env: { FABRIC_TOOLSETS: "workspace", READ_ONLY: "true" } }); });
+  after(async () => { await h.close(); });
+
+  it("lists only the selected read tools, with catalog annotations and metadata", async () => {
+    const { tools } = await h.client.listTools();
+    const names = tools.map((t) => t.name);
+    assert.ok(names.includes("workspace_list"));
+    assert.ok(!names.includes("workspace_create"));
+    assert.ok(!names.some((name) => name.startsWith("notebook_")));
+    const list = tools.find((t) => t.name === "workspace_list")!;
+    assert.equal(list.annotations?.readOnlyHint, true);
+    assert.deepEqual(list._meta, { "fabric/toolset": "workspace", "fabric/operation": "read" });
+  });
+
+  it("rejects calls to tools that were not selected", async () => {
+    const result = await h.call("workspace_create", { displayName: "Sales-Dev" });
+    assert.equal(result.isError, true);
+  });
+});
+
+describe("session context", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness(); });
+  after(async () => { await h.close(); });
+
+  it("uses the workspace named by a qualified item instead of the default", async () => {
+    const dev = h.emulator.state.addWorkspace("Dev WS");
+    const prod = h.emulator.state.addWorkspace("Prod WS");
+    const notebook = h.emulator.state.addItem(prod.id, "Notebook", "prodnb");
+    await h.callJson("context_set_workspace", { workspaceId: dev.id });
+    const got = await h.callJson<FabricItem>("notebook_get", { notebookId: "Prod WS/prodnb" });
+    assert.equal(got.id, notebook.id);
+  });
+
+  it("never fills in the workspace of a delete", async () => {
+    const dev = h.emulator.state.addWorkspace("Dev Delete");
+    const notebook = h.emulator.state.addItem(dev.id, "Notebook", "scratch");
+    await h.callJson("context_set_workspace", { workspaceId: dev.id });
+    const result = await h.call("notebook_delete", { notebookId: notebook.id });
+    assert.equal(result.isError, true);
+    assert.equal(h.emulator.state.listItems(dev.id).length, 1);
+  });
+});
+
+/** Answers INFORMATION_SCHEMA.TABLES queries from `rows`, honoring OFFSET/FETCH. */
+function fakeSqlClient(rows: Record<string, unknown>[], queries: string[] = []): SqlClient {
+  return {
+    async executeQuery(_server: string, _database: string, query: string, maxRows = 1000): Promise<SqlQueryResult> {
+      queries.push(query);
+      const match = /OFFSET (\d+) ROWS FETCH NEXT (\d+) ROWS ONLY/.exec(query);
+      const offset = match ? Number(match[1]) : 0;
+      const slice = rows.slice(offset, offset + Math.min(maxRows, match ? Number(match[2]) : maxRows));
+      return { columns: ["TABLE_SCHEMA", "TABLE_NAME", "TABLE_TYPE"], rows: slice, rowCount: slice.length };
+    },
+  } as unknown as SqlClient;
+}
+
+describe("schema-enabled lakehouse tables", () => {
+  const table = (schema: string, name: string, type = "BASE TABLE") => ({ TABLE_SCHEMA: schema, TABLE_NAME: name, TABLE_TYPE: type });
+
+  it("pages the INFORMATION_SCHEMA fallback with top and cursor", async () => {
+    const rows = [table("dbo", "customers"), table("dbo", "orders"), table("dbo", "orders_view", "VIEW"), table("sales", "orders_2024"), table("sales", "returns")];
+    const h = await startHarness({ sqlClient: fakeSqlClient(rows) });
+    try {
+      const ws = h.emulator.state.addWorkspace("Lake");
+      const lakehouse = await h.callJson<{ id: string }>("lakehouse_create", { workspaceId: ws.id, displayName: "lh" });
+      const args = { workspaceId: ws.id, lakehouseId: lakehouse.id, filter: { type: "base table" }, fields: ["schema", "name"], top: 2 };
+
+      const names: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await h.callJson<ListPage<{ schema: string; name: string }>>("lakehouse_list_tables", { ...args, cursor });
+        assert.ok(page.count <= 2);
+        names.push(...page.items.map((t) => `${t.schema}.${t.name}`));
+        cursor = page.nextCursor;
+      } while (cursor);
+      assert.deepEqual(names, ["dbo.customers", "dbo.orders", "sales.orders_2024", "sales.returns"]);
+    } finally {
+      await h.close();
+    }
+  });
+
+  it("lists tables beyond one INFORMATION_SCHEMA query's worth", async () => {
+    const rows = Array.from({ length: 10001 }, (_, i) => table("dbo", `t${String(i).padStart(5, "0")}`));
+    const queries: string[] = [];
+    const h = await startHarness({ sqlClient: fakeSqlClient(rows, queries) });
+    try {
+      const ws = h.emulator.state.addWorkspace("Big Lake");
+      const lakehouse = await h.callJson<{ id: string }>("lakehouse_create", { workspaceId: ws.id, displayName: "lh" });
+      const last = await h.callJson<ListPage<{ name: string }>>("lakehouse_list_tables", {
+        workspaceId: ws.id, lakehouseId: lakehouse.id, filter: { name: "t10000" },
+      });
+      assert.deepEqual(last.items.map((t) => t.name), ["t10000"]);
+      assert.equal(queries.length, 2);
+    } finally {
+      await h.close();
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  readContentFromFile,
+  readFilesFromDirectory,
+  writeContentToFile,
+  writeFilesToDirectory,
+} from "../src/utils/file-utils.js";
+
+describe("filesystem sandbox", () => {
+  let dir: string;
+  let allowed: string;
+  let outside: string;
+  const saved = process.env.ALLOWED_FILE_ROOTS;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "sandbox-"));
+    allowed = join(dir, "allowed");
+    outside = join(dir, "outside");
+    mkdirSync(allowed);
+    mkdirSync(outside);
+    writeFileSync(join(allowed, "in.txt"), "inside");
+    writeFileSync(join(outside, "out.txt"), "outside");
+    process.env.ALLOWED_FILE_ROOTS = allowed;
+  });
+  after(() => {
+    if (saved === undefined) delete process.env.ALLOWED_FILE_ROOTS;
+    else process.env.ALLOWED_FILE_ROOTS = saved;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads and writes inside ALLOWED_FILE_ROOTS", async () => {
+    assert.equal(await readContentFromFile(join(allowed, "in.txt")), "inside");
+    await writeContentToFile(join(allowed, "new", "file.txt"), "hello");
+    assert.equal(await readContentFromFile(join(allowed, "new", "file.txt")), "hello");
+  });
+
+  it("refuses reads outside ALLOWED_FILE_ROOTS", async () => {
+    await assert.rejects(readContentFromFile(join(outside, "out.txt")), /outside ALLOWED_FILE_ROOTS/);
+    await assert.rejects(readContentFromFile(join(allowed, "..", "outside", "out.txt")), /outside ALLOWED_FILE_ROOTS/);
+    await assert.rejects(readFilesFromDirectory(outside), /outside ALLOWED_FILE_ROOTS/);
+  });
+
+  it("refuses writes outside ALLOWED_FILE_ROOTS", async () => {
+    await assert.rejects(writeContentToFile(join(outside, "new.txt"), "x"), /outside ALLOWED_FILE_ROOTS/);
+    await assert.rejects(writeFilesToDirectory(join(outside, "model"), [{ path: "a.tmdl", content: "x" }]), /outside ALLOWED_FILE_ROOTS/);
+    assert.equal(existsSync(join(outside, "new.txt")), false);
+    assert.equal(existsSync(join(outside, "model")), false);
+  });
+
+  it("refuses a path that a symlink inside a root redirects outside", async () => {
+    symlinkSync(outside, join(allowed, "escape"));
+    try {
+      await assert.rejects(readContentFromFile(join(allowed, "escape", "out.txt")), /outside ALLOWED_FILE_ROOTS/);
+    } finally {
+      rmSync(join(allowed, "escape"));
+    }
+  });
+});
+
+describe("definition part paths", () => {
+  let dir: string;
+  before(() => { dir = mkdtempSync(join(tmpdir(), "parts-")); });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+  afterEach(() => {
+    for (const entry of readdirSync(dir)) rmSync(join(dir, entry), { recursive: true, force: true });
+  });
+
+  const good = { path: "definition/model.tmdl", content: "model Model" };
+  const rejected = [
+    ["an absolute path", "/etc/passwd", /absolute paths are not allowed/],
+    ["a backslash absolute path", "\\Windows\\win.ini", /absolute paths are not allowed/],
+    ["a drive letter", "C:/Windows/win.ini", /absolute paths are not allowed/],
+    ["a relative drive letter", "c:evil.txt", /absolute paths are not allowed/],
+    ["a .. segment", "definition/../../evil.txt", /"\.\." path segments are not allowed/],
+    ["a backslash .. segment", "definition\\..\\..\\evil.txt", /"\.\." path segments are not allowed/],
+  ] as const;
+
+  for (const [name, path, message] of rejected) {
+    it(`rejects ${name} and writes nothing`, async () => {
+      const out = join(dir, "out");
+      await assert.rejects(writeFilesToDirectory(out, [good, { path, content: "x" }]), message);
+      assert.equal(existsSync(out), false);
+    });
+  }
+
+  it("rejects a part behind a symlink that escapes the output directory, writing nothing", async () => {
+    const out = join(dir, "out");
+    const elsewhere = join(dir, "elsewhere");
+    mkdirSync(out);
+    mkdirSync(elsewhere);
+    symlinkSync(elsewhere, join(out, "link"));
+    await assert.rejects(
+      writeFilesToDirectory(out, [good, { path: "link/evil.txt", content: "x" }]),
+      /a symlink redirects it outside/
+    );
+    assert.deepEqual(readdirSync(out), ["link"]);
+    assert.deepEqual(readdirSync(elsewhere), []);
+  });
+
+  it("writes every part when all are valid", async () => {
+    const out = join(dir, "out");
+    const written = await writeFilesToDirectory(out, [good, { path: "definition/tables/Sales.tmdl", content: "table Sales" }]);
+    assert.deepEqual(written, ["definition/model.tmdl", "definition/tables/Sales.tmdl"]);
+    assert.equal(await readContentFromFile(join(out, "definition", "tables", "Sales.tmdl")), "table Sales");
+  });
+});
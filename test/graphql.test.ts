@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { classifyGraphQL } from "../src/utils/graphql.js";
+
+describe("classifyGraphQL", () => {
+  it("treats shorthand and named queries as read-only", () => {
+    assert.deepEqual(classifyGraphQL("{ customers { id } }"), { operations: ["query"], readOnly: true });
+    assert.deepEqual(classifyGraphQL("query Q($n: Int = 5) { customers(first: $n) { id } }").readOnly, true);
+  });
+
+  it("detects mutations", () => {
+    assert.equal(classifyGraphQL("mutation { createCustomer(item: { name: \"x\" }) { id } }").readOnly, false);
+    assert.equal(classifyGraphQL("  # leading comment\n mutation Add { add { id } }").readOnly, false);
+  });
+
+  it("counts a mutation anywhere in a multi-operation document", () => {
+    const result = classifyGraphQL("query A { a } mutation B { b }");
+    assert.deepEqual(result.operations, ["query", "mutation"]);
+    assert.equal(result.readOnly, false);
+  });
+
+  it("ignores the word mutation in fields, arguments, strings, comments and fragment types", () => {
+    const document = `
+      # mutation in a comment
+      query { mutation { id } log(message: "mutation {") { id } }
+      fragment F on mutation { id }
+      """mutation"""
+    `;
+    assert.deepEqual(classifyGraphQL(document), { operations: ["query"], readOnly: true });
+  });
+
+  it("ignores object values in variable defaults", () => {
+    assert.deepEqual(classifyGraphQL("query Q($f: Filter = { name: \"a\" }) { items(filter: $f) { id } }").operations, ["query"]);
+  });
+});
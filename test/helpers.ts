@@ -0,0 +1,92 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer } from "../src/server.js";
+import type { SqlClient } from "../src/client/sql-client.js";
+import { startEmulator, createEmulatorTokenManager, EmulatorState, type RunningEmulator } from "../src/emulator/index.js";
+
+/** Environment every test server starts with: writes allowed, no prompts, no audit file. */
+export const TEST_ENV: Record<string, string> = {
+  WRITABLE_WORKSPACES: "*",
+  CONFIRM_TOOLS: "none",
+  AUDIT_LOG: "off",
+};
+
+export interface ToolResult {
+  isError?: boolean;
+  content: Array<{ type: string; text: string }>;
+}
+
+/** The shape list tools return */
+export interface ListPage<T> {
+  count: number;
+  items: T[];
+  nextCursor?: string;
+}
+
+export interface TestHarness {
+  emulator: RunningEmulator;
+  client: Client;
+  /** Call a tool and return its raw result */
+  call(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  /** Call a tool, fail on an error result, and parse its first content block as JSON */
+  callJson<T = unknown>(name: string, args?: Record<string, unknown>): Promise<T>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start an emulator and a server wired to it, connected to an MCP client in-process.
+ * Environment overrides apply for the lifetime of the harness.
+ */
+export async function startHarness(options?: {
+  env?: Record<string, string | undefined>;
+  pageSize?: number;
+  /** Token claims to present as extra.authInfo, as the HTTP transport does after validation */
+  claims?: Record<string, unknown>;
+  /** Stand-in for SQL endpoint queries, which the emulator cannot answer */
+  sqlClient?: SqlClient;
+}): Promise<TestHarness> {
+  const env = { ...TEST_ENV, ...options?.env };
+  const saved = new Map<string, string | undefined>();
+  for (const [key, value] of Object.entries(env)) {
+    saved.set(key, process.env[key]);
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+
+  // LROs succeed on the first poll, so tests never wait out a poll interval
+  const emulator = await startEmulator(0, { state: new EmulatorState({ operationPolls: 0, jobPolls: 0 }), pageSize: options?.pageSize });
+  const server = createServer({ tokenManager: createEmulatorTokenManager(emulator.url), sqlClient: options?.sqlClient });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const claims = options?.claims;
+  if (claims) {
+    const send = clientTransport.send.bind(clientTransport);
+    const authInfo = { token: "test-token", clientId: "test", scopes: [], extra: { claims } };
+    clientTransport.send = (message, sendOptions) => send(message, { ...sendOptions, authInfo });
+  }
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  const call = async (name: string, args: Record<string, unknown> = {}) =>
+    (await client.callTool({ name, arguments: args })) as ToolResult;
+
+  return {
+    emulator,
+    client,
+    call,
+    async callJson<T>(name: string, args?: Record<string, unknown>) {
+      const result = await call(name, args);
+      if (result.isError) throw new Error(`${name} failed: ${result.content[0]?.text}`);
+      return JSON.parse(result.content[0].text) as T;
+    },
+    async close() {
+      await client.close();
+      await server.close();
+      await emulator.close();
+      for (const [key, value] of saved) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    },
+  };
+}
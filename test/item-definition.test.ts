@@ -0,0 +1,54 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ItemDefinitionPart } from "../src/core/types.js";
+import { startHarness, type TestHarness } from "./helpers.js";
+
+// PNG signature and IHDR chunk: a non-UTF-8 high byte, CR/LF, SUB and NUL bytes
+const PNG = Buffer.from(
+  "89504e470d0a1a0a0000000d49484452000000010000000108060000001f15c4890000000d49444154789c6360000002000185d1a2a60000000049454e44ae426082",
+  "hex"
+);
+
+const part = (path: string, bytes: Buffer): ItemDefinitionPart => ({
+  path,
+  payload: bytes.toString("base64"),
+  payloadType: "InlineBase64",
+});
+
+describe("item definition round trip", () => {
+  let h: TestHarness;
+  let dir: string;
+  before(async () => {
+    h = await startHarness();
+    dir = mkdtempSync(join(tmpdir(), "definition-"));
+  });
+  after(async () => {
+    await h.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps binary parts byte-for-byte through get and update", async () => {
+    const ws = h.emulator.state.addWorkspace("Reports");
+    const original = [
+      part("definition.pbir", Buffer.from('{"version":"4.0","name":"Sales – Q1"}', "utf-8")),
+      part("StaticResources/RegisteredResources/logo.png", PNG),
+    ];
+    const report = h.emulator.state.addItem(ws.id, "Report", "Sales", undefined, original);
+
+    const got = await h.call("item_get_definition", { workspaceId: ws.id, itemId: report.id, outputDirectoryPath: dir });
+    assert.equal(got.isError, undefined);
+    assert.deepEqual(readFileSync(join(dir, "StaticResources", "RegisteredResources", "logo.png")), PNG);
+
+    const updated = await h.call("item_update_definition", { workspaceId: ws.id, itemId: report.id, partsDirectoryPath: dir });
+    assert.equal(updated.isError, undefined);
+
+    const stored = h.emulator.state.definitions.get(report.id)!;
+    const payloads = new Map(stored.map((p) => [p.path, Buffer.from(p.payload, "base64")]));
+    assert.deepEqual(payloads.get("StaticResources/RegisteredResources/logo.png"), PNG);
+    assert.deepEqual(payloads.get("definition.pbir"), Buffer.from(original[0].payload, "base64"));
+    assert.equal(stored.length, original.length);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, sign, type KeyObject } from "node:crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { JwksCache, TokenValidationError, validateAccessToken, type JwtValidationOptions } from "../src/auth/jwt-validator.js";
+import { createTokenValidationMiddleware, getOAuthConfig, sessionOwner, type AuthenticatedRequest } from "../src/auth/oauth-handler.js";
+
+const TENANT = "11111111-1111-1111-1111-111111111111";
+const CLIENT = "22222222-2222-2222-2222-222222222222";
+const ISSUER = `https://login.microsoftonline.com/${TENANT}/v2.0`;
+
+const signingKey = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const otherKey = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+function jwk(publicKey: KeyObject, kid: string) {
+  return { ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" };
+}
+
+function makeToken(claims: Record<string, unknown>, options?: { key?: KeyObject; kid?: string; alg?: string }): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = { alg: options?.alg ?? "RS256", typ: "JWT", kid: options?.kid ?? "key-1" };
+  const payload = { aud: CLIENT, iss: ISSUER, iat: now, nbf: now, exp: now + 3600, oid: "user-1", scp: "Fabric.ReadWrite", ...claims };
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const signingInput = `${encode(header)}.${encode(payload)}`;
+  const signature = sign("RSA-SHA256", Buffer.from(signingInput), options?.key ?? signingKey.privateKey);
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+describe("validateAccessToken", () => {
+  let dir: string;
+  let jwks: JwksCache;
+  const options: JwtValidationOptions = { audiences: [CLIENT], issuers: [ISSUER], requiredScopes: [], requiredRoles: [] };
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "jwks-"));
+    const path = join(dir, "jwks.json");
+    writeFileSync(path, JSON.stringify({ keys: [jwk(signingKey.publicKey, "key-1")] }));
+    jwks = new JwksCache(path);
+  });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  const rejects = (token: string, message: RegExp, overrides?: Partial<JwtValidationOptions>) =>
+    assert.rejects(validateAccessToken(token, jwks, { ...options, ...overrides }), (error: unknown) => {
+      assert.ok(error instanceof TokenValidationError);
+      assert.match(error.message, message);
+      return true;
+    });
+
+  it("accepts a valid token and returns its claims", async () => {
+    const claims = await validateAccessToken(makeToken({}), jwks, options);
+    assert.equal(claims.oid, "user-1");
+  });
+
+  it("rejects a token signed with another key", () =>
+    rejects(makeToken({}, { key: otherKey.privateKey }), /signature is invalid/));
+
+  it("rejects a tampered payload", () => {
+    const [header, , signature] = makeToken({}).split(".");
+    const payload = Buffer.from(JSON.stringify({ aud: CLIENT, iss: ISSUER, exp: 9999999999, oid: "admin" })).toString("base64url");
+    return rejects(`${header}.${payload}.${signature}`, /signature is invalid/);
+  });
+
+  it("rejects an unknown key ID", () => rejects(makeToken({}, { kid: "key-2" }), /key-2 not found/));
+
+  it("rejects algorithms other than RS256", () => rejects(makeToken({}, { alg: "none" }), /Unsupported token algorithm/));
+
+  it("rejects a wrong audience", () => rejects(makeToken({ aud: "api://someone-else" }), /audience .* not accepted/));
+
+  it("rejects a wrong issuer", () =>
+    rejects(makeToken({ iss: `https://sts.windows.net/${TENANT}/` }), /issuer .* not accepted/));
+
+  it("rejects an expired token beyond the clock skew", () =>
+    rejects(makeToken({ exp: Math.floor(Date.now() / 1000) - 120 }), /expired/));
+
+  it("tolerates expiry within the clock skew", async () => {
+    await validateAccessToken(makeToken({ exp: Math.floor(Date.now() / 1000) - 30 }), jwks, options);
+  });
+
+  it("rejects a token that is not yet valid", () =>
+    rejects(makeToken({ nbf: Math.floor(Date.now() / 1000) + 600 }), /not yet valid/));
+
+  it("requires the configured scopes", async () => {
+    await rejects(makeToken({ scp: "Other.Read" }), /missing required scopes/, { requiredScopes: ["Fabric.ReadWrite"] });
+    await validateAccessToken(makeToken({ scp: "Other.Read Fabric.ReadWrite" }), jwks, { ...options, requiredScopes: ["Fabric.ReadWrite"] });
+  });
+
+  it("accepts app roles as an alternative to scopes", async () => {
+    const withRoles = { ...options, requiredScopes: ["Fabric.ReadWrite"], requiredRoles: ["Fabric.Admin"] };
+    await validateAccessToken(makeToken({ scp: undefined, roles: ["Fabric.Admin"] }), jwks, withRoles);
+    await assert.rejects(validateAccessToken(makeToken({ scp: undefined, roles: ["Other"] }), jwks, withRoles), (error: unknown) =>
+      error instanceof TokenValidationError && error.errorCode === "insufficient_scope");
+  });
+});
+
+describe("token validation middleware", () => {
+  const saved = { ...process.env };
+  let dir: string;
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), "jwks-"));
+    const path = join(dir, "jwks.json");
+    writeFileSync(path, JSON.stringify({ keys: [jwk(signingKey.publicKey, "key-1")] }));
+    Object.assign(process.env, {
+      AZURE_CLIENT_ID: CLIENT,
+      AZURE_CLIENT_SECRET: "secret",
+      AZURE_TENANT_ID: TENANT,
+      OAUTH_JWKS_URI: path,
+      OAUTH_REQUIRED_SCOPES: "Fabric.ReadWrite",
+    });
+
+    const app = express();
+    app.use("/mcp", createTokenValidationMiddleware(getOAuthConfig()));
+    app.get("/mcp", (req: AuthenticatedRequest, res) => res.json({ oid: req.authClaims?.oid, scopes: req.auth?.scopes }));
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, "127.0.0.1", () => resolve());
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+    process.env = saved;
+  });
+
+  const get = (token?: string) => fetch(url, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+
+  it("challenges a request without a token", async () => {
+    const response = await get();
+    assert.equal(response.status, 401);
+    const challenge = response.headers.get("www-authenticate") ?? "";
+    assert.match(challenge, /^Bearer resource_metadata="http:\/\/127\.0\.0\.1:\d+\/\.well-known\/oauth-protected-resource"$/);
+  });
+
+  it("rejects an invalid token with invalid_token", async () => {
+    const response = await get(makeToken({}, { key: otherKey.privateKey }));
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get("www-authenticate") ?? "", /error="invalid_token", error_description="Token signature is invalid"/);
+    assert.equal((await response.json()).error, "invalid_token");
+  });
+
+  it("returns 403 insufficient_scope when scopes are missing", async () => {
+    const response = await get(makeToken({ scp: "Other.Read" }));
+    assert.equal(response.status, 403);
+    assert.match(response.headers.get("www-authenticate") ?? "", /error="insufficient_scope"/);
+  });
+
+  it("accepts v1 tokens from the cloud's issuer and exposes the claims", async () => {
+    const response = await get(makeToken({ iss: `https://sts.windows.net/${TENANT}/`, aud: `api://${CLIENT}` }));
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { oid: "user-1", scopes: ["Fabric.ReadWrite"] });
+  });
+});
+
+describe("sessionOwner", () => {
+  it("identifies the user by object ID", () => {
+    assert.equal(sessionOwner({ oid: "user-1", sub: "subject", tid: TENANT }), "oid:user-1");
+  });
+
+  it("falls back to subject plus tenant when there is no object ID", () => {
+    assert.equal(sessionOwner({ sub: "subject", tid: TENANT }), `sub:${TENANT}/subject`);
+    assert.notEqual(sessionOwner({ sub: "subject", tid: "other-tenant" }), sessionOwner({ sub: "subject", tid: TENANT }));
+  });
+
+  it("identifies no one when the token names no user", () => {
+    assert.equal(sessionOwner(undefined), undefined);
+    assert.equal(sessionOwner({ tid: TENANT }), undefined);
+    assert.equal(sessionOwner({ sub: "subject" }), undefined);
+  });
+});
+
+describe("getOAuthConfig issuers", () => {
+  const saved = { ...process.env };
+  after(() => { process.env = saved; });
+
+  it("takes the v1 issuer host from the cloud profile", () => {
+    Object.assign(process.env, { AZURE_CLIENT_ID: CLIENT, AZURE_CLIENT_SECRET: "secret", AZURE_TENANT_ID: TENANT, FABRIC_CLOUD: "China" });
+    delete process.env.OAUTH_ISSUER;
+    assert.deepEqual(getOAuthConfig().issuers, [
+      `https://login.chinacloudapi.cn/${TENANT}/v2.0`,
+      `https://sts.chinacloudapi.cn/${TENANT}/`,
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { classifyKql } from "../src/utils/kql.js";
+import type { KqlQueryResult } from "../src/core/types.js";
+import { startHarness, type TestHarness } from "./helpers.js";
+
+describe("classifyKql", () => {
+  it("treats queries as read-only", () => {
+    assert.deepEqual(classifyKql("StormEvents | take 10"), { isCommand: false, readOnly: true });
+  });
+
+  it("skips leading whitespace and // comments", () => {
+    assert.deepEqual(classifyKql("  // clean up\n// old data\n  .drop table Staging"), { isCommand: true, verb: "drop", readOnly: false });
+    assert.deepEqual(classifyKql("// .drop table Staging\nStaging | count"), { isCommand: false, readOnly: true });
+  });
+
+  it("tells .show from mutating commands", () => {
+    assert.equal(classifyKql(".show tables").readOnly, true);
+    assert.equal(classifyKql(".SHOW database schema").verb, "show");
+    assert.deepEqual(classifyKql(".set-or-replace Sales <| Staging"), { isCommand: true, verb: "set-or-replace", readOnly: false });
+  });
+});
+
+describe("eventhouse KQL tools", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness({ env: { WRITABLE_WORKSPACES: "*-Dev" } }); });
+  after(async () => { await h.close(); });
+
+  const eventhouseIn = (workspaceName: string) => {
+    const ws = h.emulator.state.addWorkspace(workspaceName);
+    const eventhouse = h.emulator.state.addItem(ws.id, "Eventhouse", "eh");
+    return { workspaceId: ws.id, eventhouseId: eventhouse.id, database: "telemetry" };
+  };
+
+  it("runs queries and .show commands in any workspace", async () => {
+    const target = eventhouseIn("Sales-Prod");
+    const query = await h.callJson<KqlQueryResult>("eventhouse_execute_kql", { ...target, query: "Events | take 1" });
+    assert.deepEqual(query.rows, [{ Query: "Events | take 1" }]);
+    const show = await h.callJson<KqlQueryResult>("eventhouse_execute_kql", { ...target, query: "// list them\n.show tables" });
+    assert.deepEqual(show.rows, [{ Command: "// list them\n.show tables" }]);
+    assert.deepEqual(h.emulator.state.kqlRequests.slice(-2).map((r) => r.endpoint), ["query", "mgmt"]);
+  });
+
+  it("refuses a mutating command in the query tool", async () => {
+    const target = eventhouseIn("Sales-Dev");
+    const sent = h.emulator.state.kqlRequests.length;
+    const result = await h.call("eventhouse_execute_kql", { ...target, query: "// tidy\n.drop table Staging" });
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /eventhouse_execute_kql_command/);
+    assert.equal(h.emulator.state.kqlRequests.length, sent);
+  });
+
+  it("guards mutating commands but not .show", async () => {
+    const target = eventhouseIn("Ops-Prod");
+    const sent = h.emulator.state.kqlRequests.length;
+    const refused = await h.call("eventhouse_execute_kql_command", { ...target, command: ".drop table Staging" });
+    assert.equal(refused.isError, true);
+    assert.match(refused.content[0].text, /not in the writable workspaces list/);
+    assert.equal(h.emulator.state.kqlRequests.length, sent);
+
+    const show = await h.call("eventhouse_execute_kql_command", { ...target, command: ".show tables" });
+    assert.equal(show.isError, undefined);
+  });
+
+  it("runs mutating commands in a writable workspace", async () => {
+    const target = eventhouseIn("Ops-Dev");
+    await h.callJson<KqlQueryResult>("eventhouse_execute_kql_command", { ...target, command: ".drop table Staging" });
+    assert.deepEqual(h.emulator.state.kqlRequests.at(-1), { endpoint: "mgmt", database: "telemetry", csl: ".drop table Staging" });
+  });
+});
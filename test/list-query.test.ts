@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { listEntries } from "../src/core/list-query.js";
+
+const tables = [
+  { schema: "dbo", name: "customers", type: "BASE TABLE" },
+  { schema: "dbo", name: "orders", type: "BASE TABLE" },
+  { schema: "dbo", name: "orders_view", type: "VIEW" },
+  { schema: "sales", name: "orders_2024", type: "BASE TABLE" },
+];
+const path = "/workspaces/ws/lakehouses/lh/tables#information_schema";
+
+describe("listEntries", () => {
+  it("applies filter and fields", () => {
+    const result = listEntries(tables, path, { filter: { name: "orders*", type: "base table" }, fields: ["schema", "name"] });
+    assert.deepEqual(result, {
+      count: 2,
+      items: [{ schema: "dbo", name: "orders" }, { schema: "sales", name: "orders_2024" }],
+      nextCursor: undefined,
+    });
+  });
+
+  it("pages with top and cursor", () => {
+    const first = listEntries(tables, path, { top: 3 });
+    assert.deepEqual(first.items.map((t) => t.name), ["customers", "orders", "orders_view"]);
+    const rest = listEntries(tables, path, { top: 3, cursor: first.nextCursor });
+    assert.deepEqual(rest.items.map((t) => t.name), ["orders_2024"]);
+    assert.equal(rest.nextCursor, undefined);
+  });
+
+  it("rejects a cursor from another listing", () => {
+    const cursor = listEntries(tables, path, { top: 1 }).nextCursor;
+    assert.throws(() => listEntries(tables, "/workspaces/ws/lakehouses/other/tables#information_schema", { cursor }), /different listing/);
+  });
+});
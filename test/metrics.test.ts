@@ -0,0 +1,26 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { toPathTemplate } from "../src/core/metrics.js";
+
+describe("toPathTemplate", () => {
+  const ws = "11111111-2222-3333-4444-555555555555";
+  const lh = "66666666-7777-8888-9999-000000000000";
+
+  it("templates GUID and numeric segments", () => {
+    assert.equal(toPathTemplate(`/v1/workspaces/${ws}/items/${lh}/jobs/instances/42`), "/v1/workspaces/{id}/items/{id}/jobs/instances/{id}");
+  });
+
+  it("templates item segments that are not GUIDs", () => {
+    assert.equal(toPathTemplate(`/v1/workspaces/${ws}/items/Sales Model/getDefinition`), "/v1/workspaces/{id}/items/{id}/getDefinition");
+  });
+
+  it("templates table names", () => {
+    assert.equal(toPathTemplate(`/v1/workspaces/${ws}/lakehouses/${lh}/tables/sales_2024/load`), "/v1/workspaces/{id}/lakehouses/{id}/tables/{name}/load");
+    assert.equal(toPathTemplate(`/v1/workspaces/${ws}/lakehouses/${lh}/tables`), "/v1/workspaces/{id}/lakehouses/{id}/tables");
+  });
+
+  it("collapses shortcut and file paths", () => {
+    assert.equal(toPathTemplate(`/v1/workspaces/${ws}/items/${lh}/shortcuts/Files/landing/raw`), "/v1/workspaces/{id}/items/{id}/shortcuts/{path}");
+    assert.equal(toPathTemplate(`/${ws}/${lh}/Files/2024/01/orders.csv`), "/{id}/{id}/Files/{path}");
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { FabricClient } from "../src/client/fabric-client.js";
+import { paginatePage } from "../src/core/pagination.js";
+
+/** Serves "/items" in pages of two, answering with only a continuationUri. */
+function fakeClient(requested: string[]): FabricClient {
+  const all = ["a", "b", "c", "d", "e"];
+  const respond = (url: string) => {
+    requested.push(url);
+    const offset = Number(new URL(url, "https://api.fabric.microsoft.com/v1/").searchParams.get("continuationToken") ?? 0);
+    const more = offset + 2 < all.length;
+    return {
+      data: {
+        value: all.slice(offset, offset + 2),
+        continuationUri: more ? `https://api.fabric.microsoft.com/v1/items?continuationToken=${offset + 2}` : null,
+      },
+    };
+  };
+  return { get: async (url: string) => respond(url), getFullUrl: async (url: string) => respond(url) } as unknown as FabricClient;
+}
+
+const forge = (state: object) => Buffer.from(JSON.stringify(state), "utf-8").toString("base64url");
+
+describe("paginatePage cursors", () => {
+  it("resumes from the token in a continuationUri without storing the URI", async () => {
+    const requested: string[] = [];
+    const client = fakeClient(requested);
+    const first = await paginatePage<string>(client, "/items", { limit: 3 });
+    assert.deepEqual(first.items, ["a", "b", "c"]);
+    const state = JSON.parse(Buffer.from(first.nextCursor!, "base64url").toString("utf-8"));
+    assert.deepEqual(state, { path: "/items", continuationToken: "2", offset: 1 });
+
+    const rest = await paginatePage<string>(client, "/items", { cursor: first.nextCursor });
+    assert.deepEqual(rest.items, ["d", "e"]);
+    assert.ok(requested.every((url) => url.startsWith("/items")));
+  });
+
+  it("never fetches a URI supplied in a cursor", async () => {
+    const requested: string[] = [];
+    const cursor = forge({ path: "/items", offset: 0, continuationUri: "https://attacker.example/steal" });
+    const page = await paginatePage<string>(fakeClient(requested), "/items", { cursor, limit: 2 });
+    assert.deepEqual(page.items, ["a", "b"]);
+    assert.ok(requested.every((url) => !url.includes("attacker.example")));
+  });
+
+  it("rejects a cursor with a non-string token", async () => {
+    const cursor = forge({ path: "/items", offset: 0, continuationToken: { href: "https://attacker.example" } });
+    await assert.rejects(paginatePage<string>(fakeClient([]), "/items", { cursor }), /Invalid cursor/);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type { Workspace } from "../src/core/types.js";
+import { startHarness, type ListPage, type TestHarness } from "./helpers.js";
+
+describe("retries against a throttling service", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness(); });
+  after(async () => { await h.close(); });
+  beforeEach(() => { h.emulator.state.reset(); });
+
+  const throttle = (count: number, retryAfterSeconds = 0, status = 429) =>
+    fetch(`${h.emulator.url}/_emulator/throttle`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ count, retryAfterSeconds, status }),
+    });
+
+  it("retries a throttled GET until it succeeds", async () => {
+    const ws = h.emulator.state.addWorkspace("Sales");
+    await throttle(2);
+    const listed = await h.callJson<ListPage<Workspace>>("workspace_list");
+    assert.deepEqual(listed.items.map((w) => w.id), [ws.id]);
+  });
+
+  it("retries a GET after a gateway error", async () => {
+    h.emulator.state.addWorkspace("Sales");
+    await throttle(1, 0, 504);
+    const listed = await h.callJson<ListPage<Workspace>>("workspace_list");
+    assert.equal(listed.count, 1);
+  });
+
+  it("waits as long as Retry-After says", async () => {
+    await throttle(1, 1);
+    const start = Date.now();
+    await h.callJson<ListPage<Workspace>>("workspace_list");
+    assert.ok(Date.now() - start >= 950, `retried after ${Date.now() - start} ms`);
+  });
+
+  for (const status of [502, 504]) {
+    it(`does not resend a POST after ${status}`, async () => {
+      await throttle(1, 0, status);
+      const result = await h.call("workspace_create", { displayName: "Sales" });
+      assert.equal(result.isError, true);
+      // A resend would have gone through, since only one failure was injected
+      assert.equal(h.emulator.state.workspaces.size, 0);
+    });
+  }
+
+  for (const status of [429, 503]) {
+    it(`retries a POST after ${status}`, async () => {
+      await throttle(1, 0, status);
+      const created = await h.callJson<Workspace>("workspace_create", { displayName: "Sales" });
+      assert.equal(h.emulator.state.workspaces.get(created.id)?.displayName, "Sales");
+    });
+  }
+
+  it("gives up after RETRY_MAX_ATTEMPTS", async () => {
+    const limited = await startHarness({ env: { RETRY_MAX_ATTEMPTS: "2" } });
+    try {
+      limited.emulator.state.injectThrottle(2);
+      const result = await limited.call("workspace_list");
+      assert.equal(result.isError, true);
+      assert.match(result.content[0].text, /429/);
+    } finally {
+      await limited.close();
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SessionStore } from "../src/core/session-store.js";
+
+describe("SessionStore", () => {
+  const newStore = (maxSessions: number) => new SessionStore<string>(async () => {}, { idleTimeoutMs: 60_000, maxSessions });
+
+  it("counts reserved slots against the limit before sessions are added", async () => {
+    const store = newStore(2);
+    assert.equal(store.reserve(), true);
+    assert.equal(store.reserve(), true);
+    assert.equal(store.reserve(), false);
+    assert.deepEqual({ active: store.stats().active, pending: store.stats().pending }, { active: 0, pending: 2 });
+    await store.closeAll();
+  });
+
+  it("hands a reservation over on add and frees it on release", async () => {
+    const store = newStore(2);
+    store.reserve();
+    store.add("a", "session-a");
+    store.reserve();
+    store.release();
+    assert.deepEqual({ active: store.stats().active, pending: store.stats().pending }, { active: 1, pending: 0 });
+    assert.equal(store.reserve(), true);
+    assert.equal(store.reserve(), false);
+    await store.closeAll();
+  });
+
+  it("reports process RSS", async () => {
+    const store = newStore(1);
+    assert.ok(store.stats().rssBytes > 0);
+    await store.closeAll();
+  });
+
+  it("reports RSS growth per session only while sessions are open", async () => {
+    const store = newStore(2);
+    assert.equal(store.stats().rssGrowthPerSessionBytes, 0);
+    // Hold on to memory so RSS grows past the baseline
+    const held = Buffer.alloc(32 * 1024 * 1024, 1);
+    store.reserve();
+    store.add("a", "session-a");
+    assert.ok(store.stats().rssGrowthPerSessionBytes > 0);
+    assert.ok(store.stats().rssGrowthPerSessionBytes <= store.stats().rssBytes);
+    held.fill(0);
+    await store.closeAll();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createToolRegistrar } from "../src/core/tool-registration.js";
+
+function recordingServer() {
+  const registered = new Map<string, Record<string, unknown>>();
+  const server = {
+    registerTool: (name: string, config: Record<string, unknown>) => { registered.set(name, config); },
+  } as unknown as McpServer;
+  return { server, registered };
+}
+
+const handler = async () => ({ content: [{ type: "text" as const, text: "ok" }] });
+
+describe("createToolRegistrar", () => {
+  const saved = { FABRIC_TOOLSETS: process.env.FABRIC_TOOLSETS, READ_ONLY: process.env.READ_ONLY };
+  before(() => {
+    process.env.FABRIC_TOOLSETS = "workspace";
+    process.env.READ_ONLY = "true";
+  });
+  after(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it("never hands unselected tools to the server", () => {
+    const { server, registered } = recordingServer();
+    const registrar = createToolRegistrar(server);
+    registrar.tool("workspace_list", "List workspaces", handler);
+    registrar.tool("workspace_create", "Create a workspace", { displayName: z.string() }, handler);
+    registrar.tool("notebook_list", "List notebooks", { workspaceId: z.string() }, handler);
+    assert.deepEqual([...registered.keys()], ["workspace_list"]);
+  });
+
+  it("registers with the catalog's annotations and metadata", () => {
+    const { server, registered } = recordingServer();
+    createToolRegistrar(server).tool("workspace_get", "Get a workspace", { workspaceId: z.string() }, handler);
+    const config = registered.get("workspace_get")!;
+    assert.equal(config.description, "Get a workspace");
+    assert.equal((config.annotations as { readOnlyHint?: boolean }).readOnlyHint, true);
+    assert.deepEqual(config._meta, { "fabric/toolset": "workspace", "fabric/operation": "read" });
+    assert.ok("workspaceId" in (config.inputSchema as z.ZodRawShape));
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { prepareToolShape } from "../src/core/tool-shape.js";
+
+const notebookShape = {
+  workspaceId: z.string().describe("The workspace ID"),
+  notebookId: z.string().describe("The notebook ID"),
+};
+
+describe("prepareToolShape", () => {
+  it("leaves the schema alone when names and defaults are off", () => {
+    const prepared = prepareToolShape("notebook_get", notebookShape, { resolveNames: false, sessionDefaults: false });
+    assert.deepEqual(Object.keys(prepared.shape!), ["workspaceId", "notebookId"]);
+    assert.deepEqual(prepared.relaxed, []);
+  });
+
+  it("records workspaceId as relaxed when an item can name its workspace", () => {
+    const prepared = prepareToolShape("notebook_get", notebookShape, { resolveNames: true, sessionDefaults: false });
+    assert.equal(prepared.shape!.workspaceId.isOptional(), true);
+    assert.equal(prepared.shape!.notebookId.isOptional(), false);
+    assert.deepEqual(prepared.relaxed, ["workspaceId"]);
+  });
+
+  it("records parameters relaxed for session defaults", () => {
+    const shape = { workspaceId: z.string(), lakehouseId: z.string(), tableName: z.string() };
+    const prepared = prepareToolShape("lakehouse_get_table", shape, { resolveNames: false, sessionDefaults: true });
+    assert.deepEqual(prepared.defaultable, ["workspaceId", "lakehouseId"]);
+    assert.deepEqual(prepared.relaxed, ["workspaceId", "lakehouseId"]);
+  });
+
+  it("adds dryRun to write tools and confirm to confirmable tools", () => {
+    const prepared = prepareToolShape("notebook_delete", notebookShape, { resolveNames: false, sessionDefaults: false });
+    assert.ok(prepared.shape!.dryRun);
+    assert.ok(prepared.shape!.confirm);
+    assert.deepEqual(prepared.relaxed, []);
+  });
+
+  it("keeps workspaceId required on delete tools", () => {
+    const prepared = prepareToolShape("notebook_delete", notebookShape, { resolveNames: true, sessionDefaults: true });
+    assert.equal(prepared.shape!.workspaceId.isOptional(), false);
+    assert.deepEqual(prepared.defaultable, []);
+    assert.deepEqual(prepared.relaxed, []);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { classifyTsql } from "../src/utils/tsql.js";
+import { startHarness, type TestHarness } from "./helpers.js";
+
+const keywords = (sql: string) => classifyTsql(sql).writes.map((w) => w.keyword);
+
+describe("classifyTsql", () => {
+  it("treats plain queries as read-only", () => {
+    const result = classifyTsql("WITH t AS (SELECT 1 AS x) SELECT x FROM t;\nDECLARE @n INT = 1;\nSET NOCOUNT ON;");
+    assert.equal(result.readOnly, true);
+    assert.equal(result.batchCount, 1);
+  });
+
+  it("ignores keywords inside line and nested block comments", () => {
+    const sql = [
+      "-- DROP TABLE sales",
+      "/* outer /* DELETE FROM sales */ still a comment: TRUNCATE TABLE sales */",
+      "SELECT * FROM sales",
+    ].join("\n");
+    assert.deepEqual(keywords(sql), []);
+  });
+
+  it("ignores keywords inside strings with doubled quotes", () => {
+    assert.deepEqual(keywords("SELECT 'it''s; DROP TABLE sales; --' AS note"), []);
+  });
+
+  it("ignores keywords used as bracketed or quoted identifiers", () => {
+    assert.deepEqual(keywords('SELECT [Delete], [Drop]]Me], "Update", "Exec""ute" FROM [Insert]'), []);
+  });
+
+  it("finds writes after a comment or string ends", () => {
+    assert.deepEqual(keywords("/* a */ SELECT 'x' AS y; DELETE FROM sales -- tidy up"), ["DELETE"]);
+  });
+
+  it("splits batches on GO lines and reports the batch of each write", () => {
+    const result = classifyTsql("SELECT 1\nGO\nSELECT 2\n  go 2  -- repeat\nDROP TABLE sales\nGO");
+    assert.equal(result.batchCount, 3);
+    assert.deepEqual(result.writes.map((w) => [w.keyword, w.batch, w.line]), [["DROP", 3, 5]]);
+  });
+
+  it("does not split on GO that is part of a statement", () => {
+    assert.equal(classifyTsql("SELECT go FROM t\nGO").batchCount, 1);
+  });
+
+  it("treats SELECT ... INTO as a write", () => {
+    assert.deepEqual(keywords("SELECT * INTO sales_copy FROM sales"), ["SELECT INTO"]);
+    assert.deepEqual(keywords("INSERT INTO sales SELECT * FROM staging"), ["INSERT"]);
+  });
+
+  it("treats a bare procedure name at the start of a batch as EXEC", () => {
+    const result = classifyTsql("SELECT 1\nGO\nsp_rename 'sales', 'sales_old'");
+    assert.deepEqual(result.writes.map((w) => [w.keyword, w.category, w.batch]), [["SP_RENAME", "exec", 2]]);
+  });
+
+  it("catches explicit EXEC and contextual writes", () => {
+    assert.deepEqual(keywords("EXEC dbo.purge; COPY INTO sales FROM 'https://x'"), ["EXEC", "COPY INTO"]);
+  });
+});
+
+describe("sql_endpoint_execute_query guard", () => {
+  let h: TestHarness;
+  before(async () => { h = await startHarness({ env: { WRITABLE_WORKSPACES: "*-Dev" } }); });
+  after(async () => { await h.close(); });
+
+  it("refuses a write in a workspace outside WRITABLE_WORKSPACES", async () => {
+    const ws = h.emulator.state.addWorkspace("Sales-Prod");
+    const lakehouse = h.emulator.state.addItem(ws.id, "Lakehouse", "lh");
+    const result = await h.call("sql_endpoint_execute_query", {
+      workspaceId: ws.id, itemId: lakehouse.id, itemType: "Lakehouse", query: "SELECT 1\nGO\nDROP TABLE sales",
+    });
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /Query contains DROP/);
+    assert.match(result.content[0].text, /not in the writable workspaces list/);
+  });
+});
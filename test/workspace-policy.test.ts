@@ -0,0 +1,42 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { evaluatePolicy, loadWorkspacePolicy } from "../src/core/workspace-policy.js";
+
+describe("workspace policy", () => {
+  let dir: string;
+  const write = (name: string, text: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, text);
+    return path;
+  };
+
+  before(() => { dir = mkdtempSync(join(tmpdir(), "policy-")); });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("allows execute but not update in production", () => {
+    const policy = loadWorkspacePolicy(write("policy.yaml", [
+      "rules:",
+      "  - effect: allow",
+      "    workspaces: [\"*-Prod\"]",
+      "    operations: [execute]",
+    ].join("\n")));
+    const target = { workspaceId: "ws", workspaceName: "Sales-Prod", itemType: "Notebook" };
+    assert.equal(evaluatePolicy(policy, { ...target, operation: "execute" }).allowed, true);
+    assert.equal(evaluatePolicy(policy, { ...target, operation: "update" }).allowed, false);
+  });
+
+  it("accepts run as an alias of execute", () => {
+    const policy = loadWorkspacePolicy(write("run.json", JSON.stringify({ rules: [{ effect: "allow", operations: ["run"] }] })));
+    assert.deepEqual(policy.rules[0].operations, ["execute"]);
+    const target = { workspaceId: "ws", workspaceName: "Sales-Prod" };
+    assert.equal(evaluatePolicy(policy, { ...target, operation: "execute" }).allowed, true);
+  });
+
+  it("rejects operation classes it does not know", () => {
+    const path = write("launch.json", JSON.stringify({ rules: [{ effect: "allow", operations: ["launch"] }] }));
+    assert.throws(() => loadWorkspacePolicy(path), /rules\.0\.operations\.0/);
+  });
+});